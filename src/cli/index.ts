@@ -3,12 +3,20 @@
 import { Command } from 'commander';
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, basename, extname } from 'path';
+import { join, basename, extname, dirname, resolve } from 'path';
 import {
   convert,
   registerTemplate,
+  getTemplate,
   listTemplates,
+  loadStoredTemplates,
+  TemplateStore,
+  getUserTemplatesDir,
+  getProjectTemplatesDir,
   detectInputFormat,
+  getRenderer,
+  listInputFormats,
+  listOutputFormats,
   type OutputFormat,
   type InputFormat,
   type ConvertOptions,
@@ -16,23 +24,62 @@ import {
 
 const program = new Command();
 
+/**
+ * Template types inferred from file extensions
+ */
+const TEMPLATE_EXTENSIONS: Record<string, string> = {
+  html: 'html',
+  htm: 'html',
+  json: 'pdf',
+  yaml: 'pdf',
+  yml: 'pdf',
+  docx: 'docx',
+  dotx: 'docx',
+  tex: 'latex',
+};
+
+/**
+ * Options accepted by `templates add`
+ */
+interface TemplateAddOptions {
+  id?: string;
+  name?: string;
+  type?: string;
+  description?: string;
+  local?: boolean;
+}
+
 program
   .name('convatile')
-  .description('Convert documents between formats (MD, PDF, DOCX, HTML)')
-  .version('1.0.0');
+  .description('Convert documents between formats (MD, PDF, DOCX, ODT, RTF, HTML, EPUB, LaTeX)')
+  .version('1.0.0')
+  .hook('preAction', async () => {
+    // Make templates saved by earlier `templates add` runs available to every command
+    await loadStoredTemplates();
+  });
 
 // Convert command
 program
   .command('convert')
   .description('Convert text or file to specified formats')
   .argument('<input>', 'Input file path or text string')
-  .option('-f, --format <formats>', 'Output formats (comma-separated: md,pdf,docx,html)', 'md')
-  .option('-i, --input-format <format>', 'Input format (auto-detected if not specified: text,md,html,pdf,docx)')
+  .option(
+    '-f, --format <formats>',
+    `Output formats (comma-separated: ${listOutputFormats().join(',')})`,
+    'md'
+  )
+  .option(
+    '-i, --input-format <format>',
+    `Input format (auto-detected if not specified: ${listInputFormats().join(',')})`
+  )
   .option('-o, --output <dir>', 'Output directory', '.')
   .option('-n, --name <name>', 'Output file name (without extension)')
   .option('-t, --template <id>', 'Template ID to use')
   .option('--title <title>', 'Document title')
   .option('--author <author>', 'Document author')
+  .option('--toc [depth]', 'Include a table of contents (headings up to depth, default 3)')
+  .option('--highlight [theme]', 'Syntax-highlight code blocks (theme: github, github-dark)')
+  .option('--line-numbers', 'Number the lines of highlighted code blocks')
   .option('--stdin', 'Read input from stdin')
   .action(async (input: string, options) => {
     try {
@@ -50,14 +97,8 @@ program
         content = await readStdin();
       } else if (existsSync(input)) {
         inputFileName = input;
-        const ext = extname(input).toLowerCase();
-
-        // Read as buffer for binary formats
-        if (ext === '.pdf' || ext === '.docx') {
-          content = await readFile(input);
-        } else {
-          content = await readFile(input, 'utf-8');
-        }
+        // Read as buffer so binary formats can be sniffed; text parsers decode it as UTF-8
+        content = await readFile(input);
       } else {
         // Treat input as raw text
         content = input;
@@ -69,6 +110,9 @@ program
         inputFormat,
         templateId: options.template,
         metadata: {},
+        // Resolve relative image paths against the input file's directory
+        baseDir: inputFileName ? dirname(resolve(inputFileName)) : undefined,
+        localImages: true,
       };
 
       if (options.title) {
@@ -77,6 +121,20 @@ program
       if (options.author) {
         convertOptions.metadata!.author = options.author;
       }
+      const { toc } = options as { toc?: string | true };
+      if (toc) {
+        convertOptions.toc = toc === true ? true : { depth: parseTocDepth(toc) };
+      }
+      const { highlight, lineNumbers } = options as {
+        highlight?: string | true;
+        lineNumbers?: boolean;
+      };
+      if (highlight || lineNumbers) {
+        convertOptions.highlight = {
+          theme: typeof highlight === 'string' ? highlight : undefined,
+          lineNumbers,
+        };
+      }
 
       // Detect and display input format
       const detectedFormat = inputFormat || detectInputFormat(content);
@@ -101,7 +159,8 @@ program
       for (const format of formats) {
         const output = result[format];
         if (output) {
-          const outputPath = join(outputDir, `${outputName}.${format}`);
+          const extension = getRenderer(format)?.extension ?? format;
+          const outputPath = join(outputDir, `${outputName}.${extension}`);
           if (typeof output === 'string') {
             await writeFile(outputPath, output, 'utf-8');
           } else {
@@ -134,17 +193,20 @@ templatesCmd
     console.log('Registered templates:');
     for (const template of templates) {
       console.log(`  - ${template.id} (${template.type}): ${template.name}`);
+      console.log(`    ${template.path}`);
     }
   });
 
 templatesCmd
   .command('add')
-  .description('Register a new template')
+  .description('Register a new template and save it for later runs')
   .argument('<path>', 'Path to template file')
   .option('-i, --id <id>', 'Template ID')
   .option('-n, --name <name>', 'Template name')
-  .option('-t, --type <type>', 'Template type (html, pdf, docx)')
-  .action(async (path: string, options) => {
+  .option('-t, --type <type>', 'Template type (html, pdf, docx, latex)')
+  .option('-d, --description <text>', 'Template description')
+  .option('-l, --local', 'Save to the project .convatile/templates directory')
+  .action(async (path: string, options: TemplateAddOptions) => {
     try {
       if (!existsSync(path)) {
         console.error(`Error: Template file not found: ${path}`);
@@ -152,48 +214,112 @@ templatesCmd
       }
 
       // Infer type from extension if not provided
-      const ext = extname(path).slice(1);
-      const type = (options.type || ext) as 'html' | 'pdf' | 'docx';
-
-      if (!['html', 'pdf', 'docx'].includes(type)) {
+      const ext = extname(path).slice(1).toLowerCase();
+      const type = (options.type || TEMPLATE_EXTENSIONS[ext] || ext) as
+        | 'html'
+        | 'pdf'
+        | 'docx'
+        | 'latex';
+
+      if (!['html', 'pdf', 'docx', 'latex'].includes(type)) {
         console.error(`Error: Invalid template type: ${type}`);
         process.exit(1);
       }
 
       const id = options.id || basename(path, extname(path));
       const name = options.name || id;
+      const config = { id, name, type, path, description: options.description };
+
+      // Validate before saving
+      await registerTemplate(config);
 
-      await registerTemplate({
-        id,
-        name,
-        type,
-        path,
-      });
+      const store = new TemplateStore(getTemplatesDir(options.local));
+      const stored = await store.add(config);
 
       console.log(`Template registered: ${id}`);
+      console.log(`  Saved to ${stored.path}`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  });
+
+templatesCmd
+  .command('remove')
+  .description('Remove a saved template')
+  .argument('<id>', 'Template ID')
+  .option('-l, --local', 'Remove from the project .convatile/templates directory')
+  .action(async (id: string, options: { local?: boolean }) => {
+    try {
+      const store = new TemplateStore(getTemplatesDir(options.local));
+
+      if (!(await store.remove(id))) {
+        console.error(`Error: Template not found in ${store.dir}: ${id}`);
+        process.exit(1);
+      }
+
+      console.log(`Template removed: ${id}`);
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
       process.exit(1);
     }
   });
 
+templatesCmd
+  .command('show')
+  .description('Show a template and its content')
+  .argument('<id>', 'Template ID')
+  .action((id: string) => {
+    const template = getTemplate(id);
+    if (!template) {
+      console.error(`Error: Template not found: ${id}`);
+      process.exit(1);
+    }
+
+    console.log(`ID:   ${template.id}`);
+    console.log(`Name: ${template.name}`);
+    console.log(`Type: ${template.type}`);
+    console.log(`Path: ${template.path}`);
+    console.log('');
+    if (template.data) {
+      console.log(`(reference document, ${template.data.length} bytes)`);
+    } else {
+      console.log(template.content);
+    }
+  });
+
+templatesCmd
+  .command('path')
+  .description('Show where templates are saved')
+  .action(() => {
+    console.log(`User:    ${getUserTemplatesDir()}`);
+    console.log(`Project: ${getProjectTemplatesDir()}`);
+  });
+
 // Parse and run
-program.parse();
+void program.parseAsync();
+
+/**
+ * Get the template store directory for the --local flag
+ */
+function getTemplatesDir(local?: boolean): string {
+  return local ? getProjectTemplatesDir() : getUserTemplatesDir();
+}
 
 /**
  * Parse comma-separated format string
  */
 function parseFormats(formatStr: string): OutputFormat[] {
-  const validFormats: OutputFormat[] = ['md', 'pdf', 'docx', 'html'];
+  const validFormats = listOutputFormats();
   const formats = formatStr.split(',').map((f) => f.trim().toLowerCase());
 
   const result: OutputFormat[] = [];
   for (const format of formats) {
-    if (!validFormats.includes(format as OutputFormat)) {
+    if (!validFormats.includes(format)) {
       console.error(`Error: Invalid format "${format}". Valid formats: ${validFormats.join(', ')}`);
       process.exit(1);
     }
-    result.push(format as OutputFormat);
+    result.push(format);
   }
 
   return result;
@@ -203,8 +329,8 @@ function parseFormats(formatStr: string): OutputFormat[] {
  * Parse input format string
  */
 function parseInputFormat(formatStr: string): InputFormat {
-  const validFormats: InputFormat[] = ['text', 'md', 'html', 'pdf', 'docx'];
-  const format = formatStr.trim().toLowerCase() as InputFormat;
+  const validFormats = listInputFormats();
+  const format = formatStr.trim().toLowerCase();
 
   if (!validFormats.includes(format)) {
     console.error(
@@ -216,6 +342,20 @@ function parseInputFormat(formatStr: string): InputFormat {
   return format;
 }
 
+/**
+ * Parse the --toc heading depth
+ */
+function parseTocDepth(depthStr: string): number {
+  const depth = Number(depthStr);
+
+  if (!Number.isInteger(depth) || depth < 1 || depth > 6) {
+    console.error(`Error: Invalid TOC depth "${depthStr}". Use a number from 1 to 6`);
+    process.exit(1);
+  }
+
+  return depth;
+}
+
 /**
  * Read input from stdin
  */
@@ -149,7 +149,7 @@ export function extractTitle(ast: Root): string | undefined {
 /**
  * Extract text from a single node
  */
-function extractNodeText(node: Content): string {
+export function extractNodeText(node: Content): string {
   if ('value' in node && typeof node.value === 'string') {
     return node.value;
   }
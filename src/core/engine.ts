@@ -5,29 +5,15 @@ import type {
   OutputFormat,
   InputFormat,
   RenderOptions,
+  FormatOutput,
 } from '../types/index.js';
-import { parseMarkdown } from '../parsers/markdown.js';
-import { parseHtml } from '../parsers/html.js';
-import { parseDocx } from '../parsers/docx.js';
-import { parsePdf } from '../parsers/pdf.js';
-import { renderMarkdown } from '../renderers/markdown.js';
-import { renderHtml } from '../renderers/html.js';
-import { renderPdf } from '../renderers/pdf.js';
-import { renderDocx } from '../renderers/docx.js';
+import { formatRegistry } from '../formats/index.js';
+import { transformAst } from './transforms.js';
+import { resolveHighlightOptions } from './highlight.js';
 import { getTemplateForRendering } from '../templates/index.js';
 import { ConversionError, FormatError, ValidationError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
-/**
- * Valid output formats
- */
-const VALID_FORMATS: OutputFormat[] = ['md', 'pdf', 'docx', 'html'];
-
-/**
- * Valid input formats
- */
-const VALID_INPUT_FORMATS: InputFormat[] = ['text', 'md', 'docx', 'pdf', 'html'];
-
 /**
  * Convert input (string or Buffer) to multiple output formats
  *
@@ -36,6 +22,10 @@ const VALID_INPUT_FORMATS: InputFormat[] = ['text', 'md', 'docx', 'pdf', 'html']
  * - DOCX (Buffer) → Any format
  * - PDF (Buffer) → Any format (lossy - PDFs lack semantic structure)
  * - HTML (string) → Any format
+ * - EPUB (Buffer) → Any format
+ * - ODT (Buffer) → Any format
+ * - RTF (string) → Any format
+ * - Any format with a registered parser plugin → Any format with a registered renderer plugin
  */
 export async function convert(
   input: string | Buffer,
@@ -49,29 +39,29 @@ export async function convert(
   logger.debug('Starting conversion', { inputFormat, formats: options.format });
 
   // Parse the input to AST based on format
-  const ast = await parseInput(input, inputFormat);
+  const parsed = await parseInput(input, inputFormat);
+
+  // Metadata read from the input fills in fields the options leave out
+  const metadata = parsed.data?.metadata
+    ? { ...parsed.data.metadata, ...options.metadata }
+    : options.metadata;
+
+  // Run the transform pipeline once, shared by every output format
+  const ast = await transformAst(parsed, options.transforms, {
+    inputFormat,
+    formats: options.format,
+    metadata,
+  });
 
   // Convert to each requested format in parallel
   const result: ConvertResult = {};
   const conversions: Promise<void>[] = [];
 
   for (const format of options.format) {
-    const conversion = convertToFormat(ast, format, options)
+    const conversion = convertToFormat(ast, format, { ...options, metadata })
       .then((output) => {
-        switch (format) {
-          case 'md':
-            result.md = output as string;
-            break;
-          case 'html':
-            result.html = output as string;
-            break;
-          case 'pdf':
-            result.pdf = output as Buffer;
-            break;
-          case 'docx':
-            result.docx = output as Buffer;
-            break;
-        }
+        const key: string = format;
+        result[key] = output;
       })
       .catch((error) => {
         logger.error(`Failed to convert to ${format}`, { error });
@@ -90,115 +80,31 @@ export async function convert(
 
 /**
  * Detect input format based on content
+ *
+ * Runs the sniffers of all registered parsers (magic bytes for binary
+ * formats, content patterns for text formats) and falls back to markdown.
  */
 export function detectInputFormat(input: string | Buffer): InputFormat {
-  if (Buffer.isBuffer(input)) {
-    // Check magic bytes for binary formats
-
-    // DOCX/ZIP: PK\x03\x04
-    if (input.length >= 4) {
-      const header = input.slice(0, 4);
-      if (
-        header[0] === 0x50 && // P
-        header[1] === 0x4b && // K
-        header[2] === 0x03 &&
-        header[3] === 0x04
-      ) {
-        return 'docx';
-      }
-    }
-
-    // PDF: %PDF-
-    if (input.length >= 5) {
-      const header = input.slice(0, 5).toString('ascii');
-      if (header === '%PDF-') {
-        return 'pdf';
-      }
-    }
-
-    // Try to interpret as string
-    try {
-      const str = input.toString('utf8');
-      return detectStringFormat(str);
-    } catch {
-      // If can't decode as UTF-8, assume markdown/text
-      return 'md';
-    }
-  }
-
-  return detectStringFormat(input);
+  return formatRegistry.detect(input) ?? 'md';
 }
 
 /**
- * Detect format of string content
+ * Parse input based on format
  */
-function detectStringFormat(str: string): InputFormat {
-  const trimmed = str.trim();
-
-  // Check for HTML
-  // DOCTYPE declaration
-  if (trimmed.startsWith('<!DOCTYPE') || trimmed.startsWith('<!doctype')) {
-    return 'html';
-  }
-
-  // HTML tag
-  if (trimmed.startsWith('<html') || trimmed.startsWith('<HTML')) {
-    return 'html';
+async function parseInput(input: string | Buffer, format: InputFormat): Promise<Root> {
+  const parser = formatRegistry.getParser(format);
+  if (!parser) {
+    throw new ValidationError(`No parser registered for input format: ${format}`, 'inputFormat');
   }
 
-  // Starts with any HTML tag and contains a closing tag
-  if (trimmed.startsWith('<') && !trimmed.startsWith('<![')) {
-    // Check for common HTML patterns
-    const htmlTagPattern = /^<([a-z][a-z0-9]*)\b[^>]*>/i;
-    const match = trimmed.match(htmlTagPattern);
-    if (match) {
-      const tagName = match[1].toLowerCase();
-      // Check if it has a corresponding closing tag or is self-closing HTML element
-      const hasClosingTag = new RegExp(`</${tagName}>`, 'i').test(trimmed);
-      const isSelfClosing = /\/>$/.test(match[0]);
-      const isVoidElement = ['br', 'hr', 'img', 'input', 'meta', 'link'].includes(tagName);
-
-      if (hasClosingTag || isSelfClosing || isVoidElement) {
-        return 'html';
-      }
+  if (parser.binary) {
+    if (!Buffer.isBuffer(input)) {
+      throw new ValidationError(`${format.toUpperCase()} input must be a Buffer`, 'input');
     }
+    return parser.parse(input);
   }
 
-  // Default to markdown/text
-  return 'md';
-}
-
-/**
- * Parse input based on format
- */
-async function parseInput(input: string | Buffer, format: InputFormat): Promise<Root> {
-  switch (format) {
-    case 'docx':
-      if (!Buffer.isBuffer(input)) {
-        throw new ValidationError('DOCX input must be a Buffer', 'input');
-      }
-      return parseDocx(input);
-
-    case 'pdf':
-      if (!Buffer.isBuffer(input)) {
-        throw new ValidationError('PDF input must be a Buffer', 'input');
-      }
-      return parsePdf(input);
-
-    case 'html':
-      if (Buffer.isBuffer(input)) {
-        return parseHtml(input.toString('utf8'));
-      }
-      return parseHtml(input);
-
-    case 'text':
-    case 'md':
-    default:
-      if (Buffer.isBuffer(input)) {
-        return parseMarkdown(input.toString('utf8'));
-      }
-      return parseMarkdown(input);
-  }
+  return parser.parse(Buffer.isBuffer(input) ? input.toString('utf8') : input);
 }
 
 /**
@@ -230,19 +136,100 @@ function validateInput(input: string | Buffer, options: ConvertOptions): void {
 
   // Validate each output format
   for (const format of options.format) {
-    if (!VALID_FORMATS.includes(format)) {
+    if (!formatRegistry.hasRenderer(format)) {
       throw new FormatError(format);
     }
   }
 
   // Validate input format if provided
-  if (options.inputFormat !== undefined && !VALID_INPUT_FORMATS.includes(options.inputFormat)) {
+  if (options.inputFormat !== undefined && !formatRegistry.hasParser(options.inputFormat)) {
     throw new ValidationError(
-      `Invalid input format: ${options.inputFormat}. Valid formats: ${VALID_INPUT_FORMATS.join(', ')}`,
+      `Invalid input format: ${options.inputFormat}. Valid formats: ${formatRegistry.listInputFormats().join(', ')}`,
       'inputFormat'
     );
   }
 
+  // Validate transforms if provided
+  if (options.transforms !== undefined) {
+    if (!Array.isArray(options.transforms)) {
+      throw new ValidationError('Transforms must be an array of functions', 'transforms');
+    }
+
+    if (options.transforms.some((transform) => typeof transform !== 'function')) {
+      throw new ValidationError('Each transform must be a function', 'transforms');
+    }
+  }
+
+  // Validate styles if provided
+  if (
+    options.styles !== undefined &&
+    (typeof options.styles !== 'object' || options.styles === null)
+  ) {
+    throw new ValidationError('Styles must be an object', 'styles');
+  }
+
+  // Validate image sources if provided
+  if (
+    options.assets !== undefined &&
+    (typeof options.assets !== 'object' ||
+      options.assets === null ||
+      Object.values(options.assets).some((asset) => !Buffer.isBuffer(asset)))
+  ) {
+    throw new ValidationError('Assets must be an object mapping URLs to Buffers', 'assets');
+  }
+
+  if (options.baseDir !== undefined && typeof options.baseDir !== 'string') {
+    throw new ValidationError('Base directory must be a string', 'baseDir');
+  }
+
+  if (options.localImages !== undefined && typeof options.localImages !== 'boolean') {
+    throw new ValidationError('localImages must be true or false', 'localImages');
+  }
+
+  // Validate table of contents settings if provided
+  if (options.toc !== undefined && typeof options.toc !== 'boolean') {
+    if (typeof options.toc !== 'object' || options.toc === null) {
+      throw new ValidationError('TOC must be a boolean or an options object', 'toc');
+    }
+    const { depth, title } = options.toc;
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 1 || depth > 6)) {
+      throw new ValidationError('TOC depth must be an integer from 1 to 6', 'toc');
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      throw new ValidationError('TOC title must be a string', 'toc');
+    }
+  }
+
+  // Validate syntax highlighting settings if provided
+  if (options.highlight !== undefined && typeof options.highlight !== 'boolean') {
+    if (typeof options.highlight !== 'object' || options.highlight === null) {
+      throw new ValidationError('Highlight must be a boolean or an options object', 'highlight');
+    }
+    const { theme, lineNumbers } = options.highlight;
+    if (theme !== undefined && (typeof theme !== 'object' || theme === null)) {
+      // Theme names are checked against the built-in themes
+      resolveHighlightOptions({ theme: String(theme) });
+    }
+    if (lineNumbers !== undefined && typeof lineNumbers !== 'boolean') {
+      throw new ValidationError('Highlight lineNumbers must be true or false', 'highlight');
+    }
+  }
+
+  // Validate headers and footers if provided
+  for (const key of ['header', 'footer'] as const) {
+    const marks = options[key];
+    if (marks === undefined) continue;
+
+    if (typeof marks !== 'object' || marks === null) {
+      throw new ValidationError(`${key} must be an object`, key);
+    }
+    for (const slot of ['left', 'center', 'right'] as const) {
+      if (marks[slot] !== undefined && typeof marks[slot] !== 'string') {
+        throw new ValidationError(`${key}.${slot} must be a string`, key);
+      }
+    }
+  }
+
   // Validate metadata if provided
   if (options.metadata !== undefined && typeof options.metadata !== 'object') {
     throw new ValidationError('Metadata must be an object', 'metadata');
@@ -259,32 +246,31 @@ async function convertToFormat(
 ): Promise<string | Buffer> {
   logger.debug(`Converting to ${format}`);
 
+  const renderer = formatRegistry.getRenderer(format);
+  if (!renderer) {
+    throw new FormatError(format);
+  }
+
   const renderOptions: RenderOptions = {
     metadata: options.metadata,
+    styles: options.styles,
+    assets: options.assets,
+    baseDir: options.baseDir,
+    localImages: options.localImages,
+    toc: options.toc,
+    header: options.header,
+    footer: options.footer,
+    highlight: options.highlight,
   };
 
-  switch (format) {
-    case 'md':
-      return renderMarkdown(ast, renderOptions);
-
-    case 'html': {
-      const htmlTemplate = await getTemplateForRendering(options.templateId, 'html');
-      return renderHtml(ast, { ...renderOptions, template: htmlTemplate });
-    }
-
-    case 'pdf': {
-      const pdfTemplate = await getTemplateForRendering(options.templateId, 'pdf');
-      return renderPdf(ast, { ...renderOptions, template: pdfTemplate });
-    }
-
-    case 'docx': {
-      const docxTemplate = await getTemplateForRendering(options.templateId, 'docx');
-      return renderDocx(ast, { ...renderOptions, template: docxTemplate });
-    }
-
-    default:
-      throw new FormatError(format);
+  if (renderer.templateType) {
+    renderOptions.template = await getTemplateForRendering(
+      options.templateId,
+      renderer.templateType
+    );
   }
+
+  return renderer.render(ast, renderOptions);
 }
 
 /**
@@ -294,7 +280,7 @@ export async function convertTo<T extends OutputFormat>(
   input: string | Buffer,
   format: T,
   options?: Omit<ConvertOptions, 'format'>
-): Promise<T extends 'md' | 'html' ? string : Buffer> {
+): Promise<FormatOutput<T>> {
   const result = await convert(input, {
     ...options,
     format: [format],
@@ -305,7 +291,7 @@ export async function convertTo<T extends OutputFormat>(
     throw new ConversionError(`Conversion to ${format} failed`, format);
   }
 
-  return output as T extends 'md' | 'html' ? string : Buffer;
+  return output as FormatOutput<T>;
 }
 
 /**
@@ -347,3 +333,43 @@ export async function convertToDocx(
 ): Promise<Buffer> {
   return convertTo(input, 'docx', options);
 }
+
+/**
+ * Convert input to EPUB
+ */
+export async function convertToEpub(
+  input: string | Buffer,
+  options?: Omit<ConvertOptions, 'format'>
+): Promise<Buffer> {
+  return convertTo(input, 'epub', options);
+}
+
+/**
+ * Convert input to ODT
+ */
+export async function convertToOdt(
+  input: string | Buffer,
+  options?: Omit<ConvertOptions, 'format'>
+): Promise<Buffer> {
+  return convertTo(input, 'odt', options);
+}
+
+/**
+ * Convert input to RTF
+ */
+export async function convertToRtf(
+  input: string | Buffer,
+  options?: Omit<ConvertOptions, 'format'>
+): Promise<string> {
+  return convertTo(input, 'rtf', options);
+}
+
+/**
+ * Convert input to LaTeX
+ */
+export async function convertToLatex(
+  input: string | Buffer,
+  options?: Omit<ConvertOptions, 'format'>
+): Promise<string> {
+  return convertTo(input, 'latex', options);
+}
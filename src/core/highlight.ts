@@ -0,0 +1,193 @@
+import { createLowlight, common } from 'lowlight';
+import type { RootContent } from 'hast';
+import type { HighlightOptions, HighlightTheme } from '../types/index.js';
+import { ValidationError } from '../utils/errors.js';
+import { deepMerge } from '../utils/merge.js';
+
+/**
+ * Highlighter with the common highlight.js grammars registered
+ */
+const lowlight = createLowlight(common);
+
+/**
+ * Built-in colour themes, keyed by name
+ */
+export const HIGHLIGHT_THEMES: Record<string, HighlightTheme> = {
+  github: {
+    foreground: '#24292e',
+    background: '#f6f8fa',
+    lineNumber: '#959da5',
+    scopes: {
+      keyword: '#d73a49',
+      type: '#d73a49',
+      'template-tag': '#d73a49',
+      title: '#6f42c1',
+      attr: '#005cc5',
+      attribute: '#005cc5',
+      literal: '#005cc5',
+      meta: '#005cc5',
+      number: '#005cc5',
+      operator: '#005cc5',
+      variable: '#005cc5',
+      section: '#005cc5',
+      string: '#032f62',
+      regexp: '#032f62',
+      built_in: '#e36209',
+      symbol: '#e36209',
+      comment: '#6a737d',
+      doctag: '#d73a49',
+      name: '#22863a',
+      quote: '#22863a',
+      'selector-tag': '#22863a',
+      addition: '#22863a',
+      deletion: '#b31d28',
+      bullet: '#735c0f',
+    },
+  },
+  'github-dark': {
+    foreground: '#c9d1d9',
+    background: '#0d1117',
+    lineNumber: '#6e7681',
+    scopes: {
+      keyword: '#ff7b72',
+      type: '#ff7b72',
+      'template-tag': '#ff7b72',
+      title: '#d2a8ff',
+      attr: '#79c0ff',
+      attribute: '#79c0ff',
+      literal: '#79c0ff',
+      meta: '#79c0ff',
+      number: '#79c0ff',
+      operator: '#79c0ff',
+      variable: '#79c0ff',
+      section: '#1f6feb',
+      string: '#a5d6ff',
+      regexp: '#a5d6ff',
+      built_in: '#ffa657',
+      symbol: '#ffa657',
+      comment: '#8b949e',
+      doctag: '#ff7b72',
+      name: '#7ee787',
+      quote: '#7ee787',
+      'selector-tag': '#7ee787',
+      addition: '#aff5b4',
+      deletion: '#ffdcd7',
+      bullet: '#f2cc60',
+    },
+  },
+};
+
+/**
+ * Theme used when none is given
+ */
+const DEFAULT_THEME = 'github';
+
+/**
+ * Piece of highlighted code
+ */
+export interface HighlightToken {
+  text: string;
+  /** Token scopes from outermost to innermost (e.g. ['meta', 'string']) */
+  scopes: string[];
+}
+
+/**
+ * Resolved highlighting settings
+ */
+export interface ResolvedHighlight {
+  theme: HighlightTheme;
+  lineNumbers: boolean;
+}
+
+/**
+ * Resolve the `highlight` option to full settings, or undefined when disabled
+ */
+export function resolveHighlightOptions(
+  highlight: boolean | HighlightOptions | undefined
+): ResolvedHighlight | undefined {
+  if (!highlight) {
+    return undefined;
+  }
+
+  const options = highlight === true ? {} : highlight;
+  return {
+    theme: resolveTheme(options.theme),
+    lineNumbers: Boolean(options.lineNumbers),
+  };
+}
+
+/**
+ * Resolve a theme name or partial theme (over the default theme)
+ */
+function resolveTheme(theme: HighlightOptions['theme']): HighlightTheme {
+  if (theme === undefined) {
+    return HIGHLIGHT_THEMES[DEFAULT_THEME];
+  }
+  if (typeof theme === 'string') {
+    const named = HIGHLIGHT_THEMES[theme];
+    if (!named) {
+      throw new ValidationError(
+        `Unknown highlight theme "${theme}" (available: ${Object.keys(HIGHLIGHT_THEMES).join(', ')})`,
+        'highlight'
+      );
+    }
+    return named;
+  }
+  return deepMerge(HIGHLIGHT_THEMES[DEFAULT_THEME], theme as HighlightTheme);
+}
+
+/**
+ * Split code into lines of highlighted tokens. Code in an unknown or missing
+ * language comes back as plain tokens.
+ */
+export function highlightLines(code: string, lang?: string | null): HighlightToken[][] {
+  const tokens =
+    lang && lowlight.registered(lang)
+      ? flattenTokens(lowlight.highlight(lang, code).children, [])
+      : [{ text: code, scopes: [] }];
+
+  const lines: HighlightToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part) {
+        lines[lines.length - 1].push({ text: part, scopes: token.scopes });
+      }
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Flatten highlighted hast nodes into tokens
+ */
+function flattenTokens(nodes: RootContent[], scopes: string[]): HighlightToken[] {
+  return nodes.flatMap((node) => {
+    if (node.type === 'text') {
+      return [{ text: node.value, scopes }];
+    }
+    if (node.type !== 'element') {
+      return [];
+    }
+
+    const className = node.properties.className;
+    const scope = Array.isArray(className) ? String(className[0]).replace(/^hljs-/, '') : '';
+    return flattenTokens(node.children, scope ? [...scopes, scope] : scopes);
+  });
+}
+
+/**
+ * Colour of a token in a theme (the innermost scope with a colour wins)
+ */
+export function tokenColor(token: HighlightToken, theme: HighlightTheme): string {
+  for (let i = token.scopes.length - 1; i >= 0; i--) {
+    const color = theme.scopes[token.scopes[i]];
+    if (color) {
+      return color;
+    }
+  }
+  return theme.foreground;
+}
@@ -0,0 +1,100 @@
+import type { Root, Content, Heading } from 'mdast';
+import type { TocEntry, TocOptions } from '../types/index.js';
+import { extractNodeText } from './ast.js';
+
+/**
+ * Default table of contents settings
+ */
+const DEFAULT_TOC_OPTIONS: Required<TocOptions> = {
+  depth: 3,
+  title: 'Contents',
+};
+
+/**
+ * Table of contents entry with its nested entries
+ */
+export interface TocTreeNode {
+  entry: TocEntry;
+  children: TocTreeNode[];
+}
+
+/**
+ * Resolve the `toc` option to full settings, or undefined when disabled
+ */
+export function resolveTocOptions(
+  toc: boolean | TocOptions | undefined
+): Required<TocOptions> | undefined {
+  if (!toc) {
+    return undefined;
+  }
+  return { ...DEFAULT_TOC_OPTIONS, ...(toc === true ? {} : toc) };
+}
+
+/**
+ * Assign a unique anchor ID to every top-level heading in the document
+ */
+export function collectHeadings(ast: Root): Map<Heading, TocEntry> {
+  const headings = new Map<Heading, TocEntry>();
+  const used = new Map<string, number>();
+
+  for (const node of ast.children) {
+    if (node.type !== 'heading') continue;
+
+    const text = extractNodeText(node as Content).trim();
+    const base = slugify(text) || 'section';
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+
+    headings.set(node, {
+      depth: node.depth,
+      text,
+      id: count === 0 ? base : `${base}-${count}`,
+    });
+  }
+
+  return headings;
+}
+
+/**
+ * Collect the headings listed in a table of contents
+ */
+export function collectToc(ast: Root, options: TocOptions = {}): TocEntry[] {
+  const depth = options.depth ?? DEFAULT_TOC_OPTIONS.depth;
+  return Array.from(collectHeadings(ast).values()).filter(
+    (entry) => entry.depth <= depth && entry.text !== ''
+  );
+}
+
+/**
+ * Nest entries by heading depth. Skipped levels (e.g. h1 followed by h3)
+ * nest one level deeper rather than leaving empty levels.
+ */
+export function buildTocTree(entries: TocEntry[]): TocTreeNode[] {
+  const root: TocTreeNode[] = [];
+  const stack: TocTreeNode[] = [];
+
+  for (const entry of entries) {
+    const node: TocTreeNode = { entry, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].entry.depth >= entry.depth) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : root).push(node);
+    stack.push(node);
+  }
+
+  return root;
+}
+
+/**
+ * Create a GitHub-style anchor ID from heading text
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
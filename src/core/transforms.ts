@@ -0,0 +1,118 @@
+import type { Root, Heading, Link, Image, Definition } from 'mdast';
+import type { AstTransform, TransformContext } from '../types/index.js';
+import { walkAst, cloneAst } from './ast.js';
+import { TransformError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Globally registered transforms, applied to every conversion
+ */
+const globalTransforms: AstTransform[] = [];
+
+/**
+ * Register a global AST transform
+ */
+export function use(transform: AstTransform): void {
+  if (typeof transform !== 'function') {
+    throw new ValidationError('Transform must be a function', 'transform');
+  }
+
+  logger.debug('Registering global transform', { name: transform.name || 'anonymous' });
+  globalTransforms.push(transform);
+}
+
+/**
+ * Remove a global AST transform
+ */
+export function removeTransform(transform: AstTransform): boolean {
+  const index = globalTransforms.indexOf(transform);
+  if (index === -1) {
+    return false;
+  }
+
+  globalTransforms.splice(index, 1);
+  return true;
+}
+
+/**
+ * Remove all global AST transforms
+ */
+export function clearTransforms(): void {
+  logger.debug('Clearing all global transforms');
+  globalTransforms.length = 0;
+}
+
+/**
+ * List global AST transforms in the order they run
+ */
+export function listTransforms(): AstTransform[] {
+  return [...globalTransforms];
+}
+
+/**
+ * Run global transforms followed by the given transforms over a copy of the AST
+ */
+export async function transformAst(
+  ast: Root,
+  transforms: AstTransform[] = [],
+  context: TransformContext
+): Promise<Root> {
+  const pipeline = [...globalTransforms, ...transforms];
+
+  if (pipeline.length === 0) {
+    return ast;
+  }
+
+  logger.debug('Running AST transforms', { count: pipeline.length });
+
+  let result = cloneAst(ast);
+
+  for (let i = 0; i < pipeline.length; i++) {
+    try {
+      result = await pipeline[i](result, context);
+    } catch (error) {
+      throw new TransformError(
+        `Transform ${i} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        i,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!result || result.type !== 'root') {
+      throw new TransformError(`Transform ${i} did not return a root node`, i);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a transform that rewrites link, image and definition URLs
+ */
+export function rewriteUrls(
+  rewrite: (url: string, node: Link | Image | Definition) => string
+): AstTransform {
+  return (ast) => {
+    walkAst(ast, (node) => {
+      if (node.type === 'link' || node.type === 'image' || node.type === 'definition') {
+        node.url = rewrite(node.url, node);
+      }
+    });
+    return ast;
+  };
+}
+
+/**
+ * Create a transform that shifts heading depths (positive demotes, negative promotes),
+ * clamped to the 1-6 range
+ */
+export function shiftHeadings(offset: number): AstTransform {
+  return (ast) => {
+    walkAst(ast, (node) => {
+      if (node.type === 'heading') {
+        node.depth = Math.min(6, Math.max(1, node.depth + offset)) as Heading['depth'];
+      }
+    });
+    return ast;
+  };
+}
@@ -0,0 +1,159 @@
+import type { ParserPlugin, RendererPlugin } from '../types/index.js';
+import { parseMarkdown } from '../parsers/markdown.js';
+import { parseHtml } from '../parsers/html.js';
+import { parseDocx } from '../parsers/docx.js';
+import { parsePdf } from '../parsers/pdf.js';
+import { parseEpub, isEpub } from '../parsers/epub.js';
+import { parseOdt, isOdt } from '../parsers/odt.js';
+import { parseRtf, isRtf } from '../parsers/rtf.js';
+import { renderMarkdown } from '../renderers/markdown.js';
+import { renderHtml } from '../renderers/html.js';
+import { renderPdf } from '../renderers/pdf.js';
+import { renderDocx } from '../renderers/docx.js';
+import { renderEpub } from '../renderers/epub.js';
+import { renderOdt } from '../renderers/odt.js';
+import { renderRtf } from '../renderers/rtf.js';
+import { renderLatex } from '../renderers/latex.js';
+
+/**
+ * Built-in parsers, in registration order.
+ * Later entries are sniffed first by detectInputFormat.
+ */
+export const BUILTIN_PARSERS: ParserPlugin[] = [
+  {
+    format: 'text',
+    parse: (input) => parseMarkdown(input as string),
+  },
+  {
+    format: 'md',
+    parse: (input) => parseMarkdown(input as string),
+  },
+  {
+    format: 'html',
+    detect: (input) => isHtml(Buffer.isBuffer(input) ? input.toString('utf8') : input),
+    parse: (input) => parseHtml(input as string),
+  },
+  {
+    format: 'docx',
+    binary: true,
+    // DOCX/ZIP: PK\x03\x04
+    detect: (input) =>
+      Buffer.isBuffer(input) &&
+      input.length >= 4 &&
+      input[0] === 0x50 && // P
+      input[1] === 0x4b && // K
+      input[2] === 0x03 &&
+      input[3] === 0x04,
+    parse: (input) => parseDocx(input as Buffer),
+  },
+  {
+    format: 'epub',
+    binary: true,
+    // EPUB is also a ZIP, so it is sniffed before DOCX by its leading `mimetype` entry
+    detect: (input) => Buffer.isBuffer(input) && isEpub(input),
+    parse: (input) => parseEpub(input as Buffer),
+  },
+  {
+    format: 'odt',
+    binary: true,
+    // ODT is also a ZIP, so it is sniffed before DOCX by its leading `mimetype` entry
+    detect: (input) => Buffer.isBuffer(input) && isOdt(input),
+    parse: (input) => parseOdt(input as Buffer),
+  },
+  {
+    format: 'rtf',
+    // RTF: {\rtf
+    detect: (input) => isRtf(input),
+    parse: (input) => parseRtf(input as string),
+  },
+  {
+    format: 'pdf',
+    binary: true,
+    // PDF: %PDF-
+    detect: (input) =>
+      Buffer.isBuffer(input) &&
+      input.length >= 5 &&
+      input.slice(0, 5).toString('ascii') === '%PDF-',
+    parse: (input) => parsePdf(input as Buffer),
+  },
+];
+
+/**
+ * Built-in renderers
+ */
+export const BUILTIN_RENDERERS: RendererPlugin[] = [
+  {
+    format: 'md',
+    render: renderMarkdown,
+  },
+  {
+    format: 'html',
+    templateType: 'html',
+    render: renderHtml,
+  },
+  {
+    format: 'pdf',
+    templateType: 'pdf',
+    render: renderPdf,
+  },
+  {
+    format: 'docx',
+    templateType: 'docx',
+    render: renderDocx,
+  },
+  {
+    format: 'epub',
+    render: renderEpub,
+  },
+  {
+    format: 'odt',
+    render: renderOdt,
+  },
+  {
+    format: 'rtf',
+    render: renderRtf,
+  },
+  {
+    format: 'latex',
+    extension: 'tex',
+    templateType: 'latex',
+    render: renderLatex,
+  },
+];
+
+/**
+ * Detect whether string content is HTML
+ */
+function isHtml(str: string): boolean {
+  const trimmed = str.trim();
+
+  // DOCTYPE declaration
+  if (trimmed.startsWith('<!DOCTYPE') || trimmed.startsWith('<!doctype')) {
+    return true;
+  }
+
+  // HTML tag
+  if (trimmed.startsWith('<html') || trimmed.startsWith('<HTML')) {
+    return true;
+  }
+
+  // Starts with any HTML tag and contains a closing tag
+  if (trimmed.startsWith('<') && !trimmed.startsWith('<![')) {
+    // Check for common HTML patterns
+    const htmlTagPattern = /^<([a-z][a-z0-9]*)\b[^>]*>/i;
+    const match = trimmed.match(htmlTagPattern);
+    if (match) {
+      const tagName = match[1].toLowerCase();
+      // Check if it has a corresponding closing tag or is self-closing HTML element
+      const hasClosingTag = new RegExp(`</${tagName}>`, 'i').test(trimmed);
+      const isSelfClosing = /\/>$/.test(match[0]);
+      const isVoidElement = ['br', 'hr', 'img', 'input', 'meta', 'link'].includes(tagName);
+
+      if (hasClosingTag || isSelfClosing || isVoidElement) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
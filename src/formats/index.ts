@@ -0,0 +1,61 @@
+import type { InputFormat, OutputFormat, ParserPlugin, RendererPlugin } from '../types/index.js';
+import { formatRegistry, FormatRegistry } from './registry.js';
+
+/**
+ * Register a parser plugin for an input format
+ */
+export function registerParser(plugin: ParserPlugin): void {
+  formatRegistry.registerParser(plugin);
+}
+
+/**
+ * Register a renderer plugin for an output format
+ */
+export function registerRenderer<T extends string | Buffer>(plugin: RendererPlugin<T>): void {
+  formatRegistry.registerRenderer(plugin);
+}
+
+/**
+ * Remove a parser plugin
+ */
+export function unregisterParser(format: string): boolean {
+  return formatRegistry.unregisterParser(format);
+}
+
+/**
+ * Remove a renderer plugin
+ */
+export function unregisterRenderer(format: string): boolean {
+  return formatRegistry.unregisterRenderer(format);
+}
+
+/**
+ * Get the parser plugin for an input format
+ */
+export function getParser(format: InputFormat): ParserPlugin | undefined {
+  return formatRegistry.getParser(format);
+}
+
+/**
+ * Get the renderer plugin for an output format
+ */
+export function getRenderer(format: OutputFormat): RendererPlugin | undefined {
+  return formatRegistry.getRenderer(format);
+}
+
+/**
+ * List all registered input formats
+ */
+export function listInputFormats(): InputFormat[] {
+  return formatRegistry.listInputFormats();
+}
+
+/**
+ * List all registered output formats
+ */
+export function listOutputFormats(): OutputFormat[] {
+  return formatRegistry.listOutputFormats();
+}
+
+// Re-export registry for advanced usage
+export { formatRegistry, FormatRegistry };
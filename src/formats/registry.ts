@@ -0,0 +1,163 @@
+import type { InputFormat, OutputFormat, ParserPlugin, RendererPlugin } from '../types/index.js';
+import { ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { BUILTIN_PARSERS, BUILTIN_RENDERERS } from './builtin.js';
+
+/**
+ * Format registry for storing parser and renderer plugins
+ */
+class FormatRegistry {
+  private parsers: Map<string, ParserPlugin> = new Map();
+  private renderers: Map<string, RendererPlugin> = new Map();
+
+  constructor() {
+    for (const parser of BUILTIN_PARSERS) {
+      this.registerParser(parser);
+    }
+    for (const renderer of BUILTIN_RENDERERS) {
+      this.registerRenderer(renderer);
+    }
+  }
+
+  /**
+   * Register a parser for an input format (replaces any existing parser for the format)
+   */
+  registerParser(plugin: ParserPlugin): void {
+    logger.debug('Registering parser', { format: plugin?.format });
+
+    validateFormatId(plugin?.format);
+
+    if (typeof plugin.parse !== 'function') {
+      throw new ValidationError(`Parser for "${plugin.format}" must implement parse()`, 'parse');
+    }
+
+    if (plugin.detect !== undefined && typeof plugin.detect !== 'function') {
+      throw new ValidationError(
+        `Parser detect for "${plugin.format}" must be a function`,
+        'detect'
+      );
+    }
+
+    // Re-insert so a replaced parser moves to the front of detection order
+    this.parsers.delete(plugin.format);
+    this.parsers.set(plugin.format, plugin);
+  }
+
+  /**
+   * Register a renderer for an output format (replaces any existing renderer for the format)
+   */
+  registerRenderer(plugin: RendererPlugin): void {
+    logger.debug('Registering renderer', { format: plugin?.format });
+
+    validateFormatId(plugin?.format);
+
+    if (typeof plugin.render !== 'function') {
+      throw new ValidationError(
+        `Renderer for "${plugin.format}" must implement render()`,
+        'render'
+      );
+    }
+
+    this.renderers.set(plugin.format, plugin);
+  }
+
+  /**
+   * Get the parser for an input format
+   */
+  getParser(format: InputFormat): ParserPlugin | undefined {
+    return this.parsers.get(format);
+  }
+
+  /**
+   * Get the renderer for an output format
+   */
+  getRenderer(format: OutputFormat): RendererPlugin | undefined {
+    return this.renderers.get(format);
+  }
+
+  /**
+   * Check if a parser exists for an input format
+   */
+  hasParser(format: string): boolean {
+    return this.parsers.has(format);
+  }
+
+  /**
+   * Check if a renderer exists for an output format
+   */
+  hasRenderer(format: string): boolean {
+    return this.renderers.has(format);
+  }
+
+  /**
+   * Remove a parser
+   */
+  unregisterParser(format: string): boolean {
+    logger.debug('Unregistering parser', { format });
+    return this.parsers.delete(format);
+  }
+
+  /**
+   * Remove a renderer
+   */
+  unregisterRenderer(format: string): boolean {
+    logger.debug('Unregistering renderer', { format });
+    return this.renderers.delete(format);
+  }
+
+  /**
+   * List all registered input formats
+   */
+  listInputFormats(): InputFormat[] {
+    return Array.from(this.parsers.keys());
+  }
+
+  /**
+   * List all registered output formats
+   */
+  listOutputFormats(): OutputFormat[] {
+    return Array.from(this.renderers.keys());
+  }
+
+  /**
+   * Detect the input format using the registered sniffers.
+   * Parsers registered later are checked first, so plugins can claim
+   * content that a built-in format would otherwise match.
+   */
+  detect(input: string | Buffer): InputFormat | undefined {
+    const parsers = Array.from(this.parsers.values()).reverse();
+
+    for (const parser of parsers) {
+      if (!parser.detect) continue;
+
+      try {
+        if (parser.detect(input)) {
+          return parser.format;
+        }
+      } catch (error) {
+        logger.debug('Format sniffer failed', { format: parser.format, error });
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Validate a plugin format identifier
+ */
+function validateFormatId(format: unknown): asserts format is string {
+  if (!format || typeof format !== 'string') {
+    throw new ValidationError('Format ID is required', 'format');
+  }
+
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(format)) {
+    throw new ValidationError(`Invalid format ID: ${format}`, 'format');
+  }
+}
+
+// Export singleton instance
+export const formatRegistry = new FormatRegistry();
+
+// Export class for testing
+export { FormatRegistry };
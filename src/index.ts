@@ -6,9 +6,24 @@ export {
   convertToHtml,
   convertToPdf,
   convertToDocx,
+  convertToEpub,
+  convertToOdt,
+  convertToRtf,
+  convertToLatex,
   detectInputFormat,
 } from './core/engine.js';
 
+// Transform pipeline
+export {
+  use,
+  removeTransform,
+  clearTransforms,
+  listTransforms,
+  transformAst,
+  rewriteUrls,
+  shiftHeadings,
+} from './core/transforms.js';
+
 // Template functions
 export {
   registerTemplate,
@@ -17,19 +32,51 @@ export {
   unregisterTemplate,
   listTemplates,
   listTemplatesByType,
+  loadStoredTemplates,
+  TemplateStore,
+  getUserTemplatesDir,
+  getProjectTemplatesDir,
+  renderTemplate,
+  compileTemplate,
+  registerPartial,
+  unregisterPartial,
+  raw,
+  escapeHtml,
+  SafeString,
+  type CompiledTemplate,
+  type TemplateRenderOptions,
 } from './templates/index.js';
 
+// Format plugin functions
+export {
+  registerParser,
+  registerRenderer,
+  unregisterParser,
+  unregisterRenderer,
+  getParser,
+  getRenderer,
+  listInputFormats,
+  listOutputFormats,
+} from './formats/index.js';
+
 // Parsers (for advanced usage)
 export { parseMarkdown } from './parsers/markdown.js';
 export { parseHtml } from './parsers/html.js';
 export { parseDocx } from './parsers/docx.js';
 export { parsePdf } from './parsers/pdf.js';
+export { parseEpub } from './parsers/epub.js';
+export { parseOdt } from './parsers/odt.js';
+export { parseRtf } from './parsers/rtf.js';
 
 // Renderers (for advanced usage)
 export { renderMarkdown } from './renderers/markdown.js';
 export { renderHtml } from './renderers/html.js';
 export { renderPdf } from './renderers/pdf.js';
 export { renderDocx } from './renderers/docx.js';
+export { renderEpub } from './renderers/epub.js';
+export { renderOdt } from './renderers/odt.js';
+export { renderRtf } from './renderers/rtf.js';
+export { renderLatex, escapeLatex } from './renderers/latex.js';
 
 // AST utilities (for advanced usage)
 export {
@@ -46,21 +93,40 @@ export {
   cloneAst,
   isEmptyAst,
 } from './core/ast.js';
+export { collectToc, slugify } from './core/toc.js';
 
 // Types
 export type {
   OutputFormat,
   InputFormat,
+  BuiltinOutputFormat,
+  BuiltinInputFormat,
+  FormatOutput,
   ConvertOptions,
   ConvertResult,
+  AstTransform,
+  TransformContext,
   DocumentMetadata,
+  TocOptions,
+  HighlightOptions,
+  HighlightTheme,
+  TocEntry,
+  PageMarks,
   TemplateConfig,
   Template,
   Renderer,
   RenderOptions,
+  ParserPlugin,
+  RendererPlugin,
+  StyleOptions,
   PdfStyles,
+  PdfFontFamily,
   DocxStyles,
   HtmlStyles,
+  EpubStyles,
+  OdtStyles,
+  RtfStyles,
+  LatexStyles,
   LogLevel,
   LoggerConfig,
 } from './types/index.js';
@@ -71,6 +137,7 @@ export {
   ConversionError,
   ParseError,
   TemplateError,
+  TransformError,
   FormatError,
   ValidationError,
 } from './utils/errors.js';
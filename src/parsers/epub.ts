@@ -0,0 +1,246 @@
+import JSZip from 'jszip';
+import { posix } from 'path';
+import type { Root, RootContent, Content, Image } from 'mdast';
+import type { DocumentMetadata } from '../types/index.js';
+import { walkAst } from '../core/ast.js';
+import { ParseError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { decodeXml, parseAttributes } from '../utils/xml.js';
+import { readZipMimetype } from '../utils/zip.js';
+import { parseHtml } from './html.js';
+
+/**
+ * Media type stored in the `mimetype` entry of every EPUB
+ */
+export const EPUB_MIMETYPE = 'application/epub+zip';
+
+/**
+ * Media types of spine documents the HTML parser can read
+ */
+const CONTENT_TYPES = ['application/xhtml+xml', 'text/html'];
+
+/**
+ * Item in the OPF manifest
+ */
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * Parsed OPF package document
+ */
+interface EpubPackage {
+  manifest: Map<string, ManifestItem>;
+  spine: ManifestItem[];
+  metadata: DocumentMetadata;
+}
+
+/**
+ * Parse an EPUB buffer into a single mdast AST.
+ *
+ * The spine's chapters are parsed in reading order and concatenated; the
+ * package metadata is returned on `ast.data.metadata`.
+ */
+export async function parseEpub(buffer: Buffer): Promise<Root> {
+  try {
+    logger.debug('Parsing EPUB content');
+
+    if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+      return { type: 'root', children: [] };
+    }
+
+    const zip = await JSZip.loadAsync(buffer);
+    const opfPath = await findPackagePath(zip);
+    const pkg = parsePackage(await readEntry(zip, opfPath), posix.dirname(opfPath));
+
+    // Chapters in the same book link to each other by file name
+    const chapterPaths = new Set(pkg.spine.map((item) => item.path));
+    const children: RootContent[] = [];
+
+    for (const item of pkg.spine) {
+      const chapter = await parseHtml(extractBody(await readEntry(zip, item.path)));
+      await rewriteUrls(chapter, zip, posix.dirname(item.path), pkg.manifest, chapterPaths);
+      children.push(...chapter.children);
+    }
+
+    logger.debug('EPUB parsing complete', { chapters: pkg.spine.length });
+    return { type: 'root', children, data: { metadata: pkg.metadata } };
+  } catch (error) {
+    throw new ParseError(
+      `Failed to parse EPUB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      undefined,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Check whether a buffer is an EPUB: a ZIP whose first entry is the
+ * `mimetype` file containing `application/epub+zip`
+ */
+export function isEpub(buffer: Buffer): boolean {
+  return readZipMimetype(buffer) === EPUB_MIMETYPE;
+}
+
+/**
+ * Read a ZIP entry as text
+ */
+async function readEntry(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing ${path}`);
+  }
+  return file.async('string');
+}
+
+/**
+ * Find the package document from META-INF/container.xml
+ */
+async function findPackagePath(zip: JSZip): Promise<string> {
+  const container = await readEntry(zip, 'META-INF/container.xml');
+  const match = /<rootfile\b[^>]*\bfull-path="([^"]+)"/.exec(container);
+  if (!match) {
+    throw new Error('No package document listed in META-INF/container.xml');
+  }
+  return decodeXml(match[1]);
+}
+
+/**
+ * Parse the manifest, spine and Dublin Core metadata of a package document
+ */
+function parsePackage(xml: string, baseDir: string): EpubPackage {
+  const manifest = new Map<string, ManifestItem>();
+  for (const match of xml.matchAll(/<item\b([^>]*?)\/?>/g)) {
+    const attributes = parseAttributes(match[1]);
+    manifest.set(attributes.id ?? '', {
+      path: resolvePath(baseDir, attributes.href ?? ''),
+      mediaType: attributes['media-type'] ?? '',
+      properties: (attributes.properties ?? '').split(/\s+/),
+    });
+  }
+
+  const spine = Array.from(xml.matchAll(/<itemref\b([^>]*?)\/?>/g), (match) => {
+    const attributes = parseAttributes(match[1]);
+    return attributes.linear === 'no' ? undefined : manifest.get(attributes.idref ?? '');
+  }).filter(
+    // The navigation document repeats the headings as a list of links
+    (item): item is ManifestItem =>
+      item !== undefined &&
+      CONTENT_TYPES.includes(item.mediaType) &&
+      !item.properties.includes('nav')
+  );
+
+  const uniqueId = /<package\b[^>]*\bunique-identifier="([^"]+)"/.exec(xml)?.[1];
+  return { manifest, spine, metadata: parseMetadata(xml, uniqueId) };
+}
+
+/**
+ * Read Dublin Core metadata from a package document
+ */
+function parseMetadata(xml: string, uniqueId?: string): DocumentMetadata {
+  const elements = (name: string) =>
+    Array.from(
+      xml.matchAll(new RegExp(`<dc:${name}\\b([^>]*)>([\\s\\S]*?)</dc:${name}>`, 'g')),
+      (m) => ({
+        attributes: parseAttributes(m[1]),
+        value: decodeXml(m[2].trim()),
+      })
+    ).filter((element) => element.value);
+
+  const first = (name: string) => elements(name)[0]?.value;
+  const identifiers = elements('identifier');
+  const creators = elements('creator').map((element) => element.value);
+  const subjects = elements('subject').map((element) => element.value);
+
+  const metadata: DocumentMetadata = {
+    title: first('title'),
+    author: creators.length > 0 ? creators.join(', ') : undefined,
+    date: first('date'),
+    description: first('description'),
+    keywords: subjects.length > 0 ? subjects : undefined,
+    language: first('language'),
+    identifier: (identifiers.find((id) => id.attributes.id === uniqueId) ?? identifiers[0])?.value,
+    publisher: first('publisher'),
+  };
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as DocumentMetadata;
+}
+
+/**
+ * Get the body of an XHTML document (the whole text if it has no body)
+ */
+function extractBody(xhtml: string): string {
+  return /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(xhtml)?.[1] ?? xhtml;
+}
+
+/**
+ * Embed the book's images as data URIs, replacing images missing from the book
+ * with their alt text, and turn links between chapters into in-document anchors
+ */
+async function rewriteUrls(
+  ast: Root,
+  zip: JSZip,
+  chapterDir: string,
+  manifest: Map<string, ManifestItem>,
+  chapterPaths: Set<string>
+): Promise<void> {
+  const mediaTypes = new Map(
+    Array.from(manifest.values(), (item) => [item.path, item.mediaType] as const)
+  );
+  const images: { node: Image; parent?: Content | Root; path: string }[] = [];
+
+  walkAst(ast, (node, parent) => {
+    if ((node.type !== 'image' && node.type !== 'link') || /^[a-z][a-z0-9+.-]*:/i.test(node.url)) {
+      return;
+    }
+
+    const [target, fragment] = node.url.split('#', 2);
+    if (!target) {
+      return;
+    }
+
+    const path = resolvePath(chapterDir, target);
+    if (node.type === 'image') {
+      images.push({ node, parent, path });
+    } else if (chapterPaths.has(path) && fragment) {
+      node.url = `#${fragment}`;
+    }
+  });
+
+  for (const { node, parent, path } of images) {
+    const file = zip.file(path);
+    if (file) {
+      const data = await file.async('base64');
+      node.url = `data:${mediaTypes.get(path) || 'application/octet-stream'};base64,${data}`;
+    } else {
+      logger.warn(`Image ${path} not found in EPUB`);
+      // The relative path means nothing outside the book
+      if (parent && 'children' in parent) {
+        const siblings = parent.children as Content[];
+        siblings[siblings.indexOf(node)] = { type: 'text', value: node.alt || '' };
+      }
+    }
+  }
+}
+
+/**
+ * Resolve a (URL-encoded) href against a directory inside the book
+ */
+function resolvePath(dir: string, href: string): string {
+  return posix.normalize(posix.join(dir, safeDecodeUri(href)));
+}
+
+/**
+ * Decode a URI component, keeping malformed input as is
+ */
+function safeDecodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
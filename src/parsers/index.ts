@@ -5,3 +5,6 @@ export { parseMarkdown } from './markdown.js';
 export { parseHtml } from './html.js';
 export { parseDocx } from './docx.js';
 export { parsePdf } from './pdf.js';
+export { parseEpub } from './epub.js';
+export { parseOdt } from './odt.js';
+export { parseRtf } from './rtf.js';
@@ -1,11 +1,13 @@
 import { unified } from 'unified';
 import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
 import type { Root } from 'mdast';
 import { ParseError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
 /**
- * Parse plain text or markdown into an AST
+ * Parse plain text or markdown (including GitHub-Flavoured Markdown
+ * tables, strikethrough, task lists and autolinks) into an AST
  */
 export async function parseMarkdown(text: string): Promise<Root> {
   try {
@@ -14,7 +16,7 @@ export async function parseMarkdown(text: string): Promise<Root> {
     // Normalize the text - handle plain text conversion to markdown
     const normalizedText = normalizeText(text);
 
-    const processor = unified().use(remarkParse);
+    const processor = unified().use(remarkParse).use(remarkGfm);
     const ast = processor.parse(normalizedText) as Root;
 
     logger.debug('Parsing complete', { nodeCount: countNodes(ast) });
@@ -88,6 +90,7 @@ function detectHeadings(text: string): string {
       !line.trim().match(/[.!?,;:]$/) &&
       !line.trim().startsWith('-') &&
       !line.trim().startsWith('*') &&
+      !line.trim().startsWith('|') &&
       !line.trim().match(/^\d+[.)]/);
 
     // Only auto-detect heading at the very start
@@ -0,0 +1,540 @@
+import JSZip from 'jszip';
+import { posix } from 'path';
+import type {
+  Root,
+  RootContent,
+  BlockContent,
+  PhrasingContent,
+  List,
+  ListItem,
+  Table,
+  TableRow,
+  TableCell,
+} from 'mdast';
+import type { DocumentMetadata } from '../types/index.js';
+import { ParseError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { parseXml, childElements, findElement, textContent } from '../utils/xml.js';
+import type { XmlElement, XmlNode } from '../utils/xml.js';
+import { readZipMimetype } from '../utils/zip.js';
+
+/**
+ * Media type stored in the `mimetype` entry of an OpenDocument text file
+ */
+export const ODT_MIMETYPE = 'application/vnd.oasis.opendocument.text';
+
+/**
+ * Media types of embedded pictures, by file extension
+ */
+const PICTURE_MEDIA_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Paragraph styles (or their ancestors) that mark code blocks, quotations and rules
+ */
+const CODE_PARAGRAPH_STYLES = ['Preformatted_20_Text'];
+const QUOTE_PARAGRAPH_STYLES = ['Quotations'];
+const RULE_PARAGRAPH_STYLES = ['Horizontal_20_Line'];
+
+/**
+ * Character styles (or their ancestors) that mark inline code
+ */
+const CODE_TEXT_STYLES = ['Source_20_Text', 'Teletype'];
+
+/**
+ * Font names treated as monospaced
+ */
+const MONOSPACE_FONT = /mono|courier|consol/i;
+
+/**
+ * Character formatting read from a text style
+ */
+interface TextFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+/**
+ * Named style with its parent and character formatting
+ */
+interface OdtStyle {
+  parent?: string;
+  format: TextFormat;
+}
+
+/**
+ * Styles and embedded pictures of the document being parsed
+ */
+interface OdtContext {
+  styles: Map<string, OdtStyle>;
+  /** Whether each level (index 0 = level 1) of a list style is numbered */
+  listStyles: Map<string, boolean[]>;
+  pictures: Map<string, string>;
+}
+
+/**
+ * Parse an ODT buffer into an mdast AST.
+ *
+ * Reads `content.xml` (using `styles.xml` to resolve formatting) and returns
+ * the `meta.xml` metadata on `ast.data.metadata`.
+ */
+export async function parseOdt(buffer: Buffer): Promise<Root> {
+  try {
+    logger.debug('Parsing ODT content');
+
+    if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+      return { type: 'root', children: [] };
+    }
+
+    const zip = await JSZip.loadAsync(buffer);
+    const contentFile = zip.file('content.xml');
+    if (!contentFile) {
+      throw new Error('Missing content.xml');
+    }
+
+    const content = parseXml(await contentFile.async('string'));
+    const stylesXml = await zip.file('styles.xml')?.async('string');
+    const metaXml = await zip.file('meta.xml')?.async('string');
+
+    const context: OdtContext = { styles: new Map(), listStyles: new Map(), pictures: new Map() };
+    for (const document of [stylesXml ? parseXml(stylesXml) : undefined, content]) {
+      if (document) {
+        collectStyles(document, context);
+      }
+    }
+    await loadPictures(zip, content, context);
+
+    const text = findElement(content, 'office:text');
+    const children = text ? convertBlocks(childElements(text), context) : [];
+    const metadata = metaXml ? parseMeta(parseXml(metaXml)) : {};
+
+    logger.debug('ODT parsing complete', { blocks: children.length });
+    return { type: 'root', children, data: { metadata } };
+  } catch (error) {
+    throw new ParseError(
+      `Failed to parse ODT: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      undefined,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Check whether a buffer is an OpenDocument text file
+ */
+export function isOdt(buffer: Buffer): boolean {
+  return readZipMimetype(buffer) === ODT_MIMETYPE;
+}
+
+/**
+ * Collect the named and automatic styles and list styles of a document
+ */
+function collectStyles(document: XmlElement, context: OdtContext): void {
+  const visit = (element: XmlElement) => {
+    for (const child of childElements(element)) {
+      const name = child.attributes['style:name'];
+
+      if (child.name === 'style:style' && name) {
+        const properties = childElements(child, 'style:text-properties')[0]?.attributes ?? {};
+        const weight = properties['fo:font-weight'];
+        const lineThrough = properties['style:text-line-through-style'];
+        const format: TextFormat = {};
+
+        if (weight) format.bold = weight === 'bold' || Number(weight) >= 600;
+        if (properties['fo:font-style']) format.italic = properties['fo:font-style'] !== 'normal';
+        if (lineThrough) format.strike = lineThrough !== 'none';
+        if (properties['style:font-name'] && MONOSPACE_FONT.test(properties['style:font-name'])) {
+          format.code = true;
+        }
+
+        context.styles.set(name, { parent: child.attributes['style:parent-style-name'], format });
+      } else if (child.name === 'text:list-style' && name) {
+        const levels: boolean[] = [];
+        for (const level of childElements(child)) {
+          const index = Number(level.attributes['text:level'] ?? 1) - 1;
+          levels[index] = level.name === 'text:list-level-style-number';
+        }
+        context.listStyles.set(name, levels);
+      } else {
+        visit(child);
+      }
+    }
+  };
+
+  visit(document);
+}
+
+/**
+ * Whether a style is, or inherits from, one of the given styles
+ */
+function inheritsFrom(name: string | undefined, ancestors: string[], context: OdtContext): boolean {
+  for (let depth = 0; name && depth < 20; depth++) {
+    if (ancestors.includes(name)) {
+      return true;
+    }
+    name = context.styles.get(name)?.parent;
+  }
+  return false;
+}
+
+/**
+ * Resolve the character formatting of a style through its parents
+ */
+function resolveFormat(styleName: string | undefined, context: OdtContext): TextFormat {
+  const chain: TextFormat[] = [];
+  let name = styleName;
+  for (let depth = 0; name && depth < 20; depth++) {
+    const style = context.styles.get(name);
+    if (!style) break;
+    chain.unshift(style.format);
+    name = style.parent;
+  }
+
+  const format: TextFormat = Object.assign({}, ...chain) as TextFormat;
+  if (inheritsFrom(styleName, CODE_TEXT_STYLES, context)) {
+    format.code = true;
+  }
+  return format;
+}
+
+/**
+ * Load pictures referenced by frames as data URIs
+ */
+async function loadPictures(zip: JSZip, content: XmlElement, context: OdtContext): Promise<void> {
+  const hrefs = new Set<string>();
+  const collect = (element: XmlElement) => {
+    for (const child of childElements(element)) {
+      if (child.name === 'draw:image' && child.attributes['xlink:href']) {
+        hrefs.add(child.attributes['xlink:href']);
+      }
+      collect(child);
+    }
+  };
+  collect(content);
+
+  for (const href of hrefs) {
+    const file = zip.file(posix.normalize(href));
+    if (!file) {
+      logger.warn(`Picture ${href} not found in ODT`);
+      continue;
+    }
+    const extension = posix.extname(href).slice(1).toLowerCase();
+    const mediaType = PICTURE_MEDIA_TYPES[extension] ?? 'application/octet-stream';
+    context.pictures.set(href, `data:${mediaType};base64,${await file.async('base64')}`);
+  }
+}
+
+/**
+ * Convert a sequence of ODF block elements to mdast blocks. Consecutive code
+ * and quotation paragraphs are grouped into one code block or blockquote.
+ */
+function convertBlocks(elements: XmlElement[], context: OdtContext): RootContent[] {
+  const blocks: RootContent[] = [];
+  let codeLines: string[] | undefined;
+  let quote: BlockContent[] | undefined;
+
+  for (const element of elements) {
+    const styleName = element.attributes['text:style-name'];
+    const isParagraph = element.name === 'text:p';
+    const isCode = isParagraph && inheritsFrom(styleName, CODE_PARAGRAPH_STYLES, context);
+    const isQuote = isParagraph && inheritsFrom(styleName, QUOTE_PARAGRAPH_STYLES, context);
+
+    if (!isCode) codeLines = undefined;
+    if (!isQuote) quote = undefined;
+
+    if (isCode) {
+      if (!codeLines) {
+        codeLines = [];
+        blocks.push({ type: 'code', value: '' });
+      }
+      codeLines.push(codeText(element));
+      (blocks[blocks.length - 1] as { value: string }).value = codeLines.join('\n');
+      continue;
+    }
+
+    if (isQuote) {
+      if (!quote) {
+        quote = [];
+        blocks.push({ type: 'blockquote', children: quote });
+      }
+      const paragraph = convertParagraph(element, context);
+      if (paragraph) quote.push(paragraph);
+      continue;
+    }
+
+    switch (element.name) {
+      case 'text:h': {
+        const level = Number(element.attributes['text:outline-level'] ?? 1);
+        blocks.push({
+          type: 'heading',
+          depth: Math.min(Math.max(level, 1), 6) as 1 | 2 | 3 | 4 | 5 | 6,
+          children: trimPhrasing(convertInline(element.children, context)),
+        });
+        break;
+      }
+      case 'text:p': {
+        if (inheritsFrom(styleName, RULE_PARAGRAPH_STYLES, context)) {
+          blocks.push({ type: 'thematicBreak' });
+          break;
+        }
+        const paragraph = convertParagraph(element, context);
+        if (paragraph) blocks.push(paragraph);
+        break;
+      }
+      case 'text:list':
+        blocks.push(convertList(element, context, 0, styleName));
+        break;
+      case 'table:table':
+        blocks.push(convertTable(element, context));
+        break;
+      case 'text:section':
+        blocks.push(...convertBlocks(childElements(element), context));
+        break;
+      default:
+        // Generated indexes, field declarations and forms carry no document content
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert a paragraph, skipping it when empty
+ */
+function convertParagraph(element: XmlElement, context: OdtContext): BlockContent | undefined {
+  const children = trimPhrasing(convertInline(element.children, context));
+  return children.length > 0 ? { type: 'paragraph', children } : undefined;
+}
+
+/**
+ * Text of a code paragraph, keeping spaces, tabs and line breaks
+ */
+function codeText(element: XmlElement): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') return child.replace(/[\r\n]+/g, '');
+      if (child.name === 'text:s') return ' '.repeat(Number(child.attributes['text:c'] ?? 1));
+      if (child.name === 'text:tab') return '\t';
+      if (child.name === 'text:line-break') return '\n';
+      return codeText(child);
+    })
+    .join('');
+}
+
+/**
+ * Convert a list, numbering it according to its list style. Nested lists
+ * inherit the style of the list they sit in.
+ */
+function convertList(
+  element: XmlElement,
+  context: OdtContext,
+  level: number,
+  inheritedStyle?: string
+): List {
+  const styleName = element.attributes['text:style-name'] ?? inheritedStyle;
+  const ordered = Boolean(styleName && context.listStyles.get(styleName)?.[level]);
+  const items = childElements(element).filter(
+    (child) => child.name === 'text:list-item' || child.name === 'text:list-header'
+  );
+  const start = Number(items[0]?.attributes['text:start-value'] ?? 1);
+
+  return {
+    type: 'list',
+    ordered,
+    start: ordered ? start : null,
+    spread: false,
+    children: items.map(
+      (item): ListItem => ({
+        type: 'listItem',
+        spread: false,
+        children: childElements(item).flatMap((child) =>
+          child.name === 'text:list'
+            ? [convertList(child, context, level + 1, styleName)]
+            : (convertBlocks([child], context) as BlockContent[])
+        ),
+      })
+    ),
+  };
+}
+
+/**
+ * Convert a table; the header rows (or else the first row) become the header
+ */
+function convertTable(element: XmlElement, context: OdtContext): Table {
+  const rows: XmlElement[] = [];
+  const collectRows = (parent: XmlElement) => {
+    for (const child of childElements(parent)) {
+      if (child.name === 'table:table-row') {
+        rows.push(child);
+      } else if (/^table:table-(header-rows|rows|row-group)$/.test(child.name)) {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(element);
+
+  const children = rows.map(
+    (row): TableRow => ({
+      type: 'tableRow',
+      children: childElements(row)
+        .filter((cell) => /^table:(covered-)?table-cell$/.test(cell.name))
+        .map(
+          (cell): TableCell => ({
+            type: 'tableCell',
+            children: childElements(cell, 'text:p').flatMap((paragraph, index) => {
+              const inline = trimPhrasing(convertInline(paragraph.children, context));
+              return index > 0 && inline.length > 0
+                ? [{ type: 'break' } as const, ...inline]
+                : inline;
+            }),
+          })
+        ),
+    })
+  );
+
+  return { type: 'table', children };
+}
+
+/**
+ * Convert ODF paragraph content to mdast phrasing content
+ */
+function convertInline(nodes: XmlNode[], context: OdtContext): PhrasingContent[] {
+  const result: PhrasingContent[] = [];
+
+  const pushText = (value: string) => {
+    const last = result[result.length - 1];
+    if (last?.type === 'text') {
+      last.value += value;
+    } else if (value) {
+      result.push({ type: 'text', value });
+    }
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      // ODF collapses whitespace in text like HTML does
+      pushText(node.replace(/\s+/g, ' '));
+      continue;
+    }
+
+    switch (node.name) {
+      case 'text:s':
+        pushText(' '.repeat(Number(node.attributes['text:c'] ?? 1)));
+        break;
+      case 'text:tab':
+        pushText('\t');
+        break;
+      case 'text:line-break':
+        result.push({ type: 'break' });
+        break;
+      case 'text:span':
+        result.push(...formatInline(node, context));
+        break;
+      case 'text:a':
+        result.push({
+          type: 'link',
+          url: node.attributes['xlink:href'] ?? '',
+          children: convertInline(node.children, context),
+        });
+        break;
+      case 'draw:frame': {
+        const image = childElements(node, 'draw:image')[0];
+        const url = image && context.pictures.get(image.attributes['xlink:href'] ?? '');
+        if (url) {
+          const title = childElements(node, 'svg:title')[0];
+          const description = childElements(node, 'svg:desc')[0];
+          const alt = textContent(title ?? description ?? '') || node.attributes['draw:name'] || '';
+          result.push({ type: 'image', url, alt });
+        }
+        break;
+      }
+      case 'text:note':
+      case 'text:bookmark':
+      case 'text:bookmark-start':
+      case 'text:bookmark-end':
+      case 'text:soft-page-break':
+        break;
+      default:
+        // Fields (dates, page numbers, ...) keep their displayed text
+        result.push(...convertInline(node.children, context));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a span, wrapping its content in the formatting of its style
+ */
+function formatInline(span: XmlElement, context: OdtContext): PhrasingContent[] {
+  const format = resolveFormat(span.attributes['text:style-name'], context);
+  if (format.code) {
+    return [{ type: 'inlineCode', value: codeText(span) }];
+  }
+
+  let children = convertInline(span.children, context);
+  if (
+    children.length === 0 ||
+    children.every((child) => child.type === 'text' && !child.value.trim())
+  ) {
+    return children;
+  }
+  if (format.strike) children = [{ type: 'delete', children }];
+  if (format.italic) children = [{ type: 'emphasis', children }];
+  if (format.bold) children = [{ type: 'strong', children }];
+  return children;
+}
+
+/**
+ * Remove leading and trailing whitespace from phrasing content
+ */
+function trimPhrasing(children: PhrasingContent[]): PhrasingContent[] {
+  const first = children[0];
+  if (first?.type === 'text') {
+    first.value = first.value.trimStart();
+  }
+  const last = children[children.length - 1];
+  if (last?.type === 'text') {
+    last.value = last.value.trimEnd();
+  }
+  return children.filter((child) => child.type !== 'text' || child.value);
+}
+
+/**
+ * Read document metadata from meta.xml
+ */
+function parseMeta(document: XmlElement): DocumentMetadata {
+  const meta = findElement(document, 'office:meta');
+  if (!meta) {
+    return {};
+  }
+
+  const values = (name: string) =>
+    childElements(meta, name)
+      .map((element) => textContent(element).trim())
+      .filter(Boolean);
+  const first = (...names: string[]) => names.map((name) => values(name)[0]).find(Boolean);
+  const keywords = values('meta:keyword');
+
+  const metadata: DocumentMetadata = {
+    title: first('dc:title'),
+    author: first('dc:creator', 'meta:initial-creator'),
+    date: first('dc:date', 'meta:creation-date'),
+    description: first('dc:description'),
+    keywords: keywords.length > 0 ? keywords : undefined,
+    language: first('dc:language'),
+  };
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as DocumentMetadata;
+}
@@ -0,0 +1,903 @@
+import type { Root, RootContent, PhrasingContent, List, ListItem, Table, TableCell } from 'mdast';
+import type { DocumentMetadata } from '../types/index.js';
+import { ParseError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Signature every RTF document starts with
+ */
+export const RTF_SIGNATURE = '{\\rtf';
+
+/**
+ * RTF tokens: control words, hex escapes, control symbols, group delimiters and text
+ */
+const TOKEN_PATTERN =
+  /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z'])|([{}])|([^\\{}\r\n]+)|[\r\n]+/g;
+
+/**
+ * Font names treated as monospaced
+ */
+const MONOSPACE_FONT = /mono|courier|consol/i;
+
+/**
+ * Characters produced by symbol control words
+ */
+const SYMBOLS: Record<string, string> = {
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+/**
+ * Characters produced by control symbols (other than escaped delimiters)
+ */
+const CONTROL_SYMBOLS: Record<string, string> = {
+  '~': ' ',
+  _: '‑',
+  '-': '',
+};
+
+/**
+ * Destinations whose content is not document text
+ */
+const SKIPPED_DESTINATIONS = new Set([
+  'colortbl',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'generator',
+  'nonshppict',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+  'footnote',
+  'annotation',
+  'xmlnstbl',
+  'themedata',
+  'colorschememapping',
+  'latentstyles',
+  'datastore',
+  'pgdsctbl',
+]);
+
+/**
+ * Paragraph property control words, ignored outside the document body
+ */
+const PARAGRAPH_WORDS = new Set(['pard', 'intbl', 'ls', 'ilvl', 'pnlvlblt', 'pnlvlbody']);
+
+/**
+ * Info groups read into the document metadata
+ */
+type InfoField = 'title' | 'author' | 'doccomm' | 'keywords';
+
+/**
+ * Info fields copied into the document metadata
+ */
+const INFO_FIELDS: Record<InfoField, keyof DocumentMetadata> = {
+  title: 'title',
+  author: 'author',
+  doccomm: 'description',
+  keywords: 'keywords',
+};
+
+/**
+ * Where the text of a group goes
+ */
+type Destination =
+  | 'body'
+  | 'skip'
+  | 'fonttbl'
+  | 'stylesheet'
+  | 'info'
+  | 'fldinst'
+  | 'pict'
+  | 'listtext'
+  | InfoField
+  | 'creatim';
+
+/**
+ * Character formatting of a run of text
+ */
+interface CharFormat {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  font: number;
+  link?: string;
+}
+
+/**
+ * Piece of paragraph content
+ */
+type Run = { text: string; format: CharFormat } | { image: string };
+
+/**
+ * Field being read (e.g. a HYPERLINK)
+ */
+interface Field {
+  instruction: string;
+}
+
+/**
+ * State of an RTF group, inherited by nested groups
+ */
+interface GroupState {
+  destination: Destination;
+  format: CharFormat;
+  /** Number of fallback characters following a \u escape */
+  unicodeSkip: number;
+  field?: Field;
+}
+
+/**
+ * Finished paragraph, or a table row ready to be added to a table
+ */
+type ParsedBlock =
+  | {
+      kind: 'paragraph';
+      runs: Run[];
+      heading?: number;
+      listLevel?: number;
+      ordered?: boolean;
+      /** Number in the list marker of a numbered item */
+      number?: number;
+      code: boolean;
+    }
+  | { kind: 'row'; cells: Run[][] };
+
+/**
+ * Parse an RTF document into an mdast AST.
+ *
+ * Reads paragraphs, headings (outline levels or "heading N" styles), lists,
+ * tables, bold/italic/underline/strikethrough text, monospaced text as code,
+ * HYPERLINK fields and PNG/JPEG pictures. The `\info` group is returned on
+ * `ast.data.metadata`.
+ */
+export function parseRtf(rtf: string): Promise<Root> {
+  try {
+    logger.debug('Parsing RTF content');
+
+    if (!rtf || typeof rtf !== 'string') {
+      return Promise.resolve({ type: 'root', children: [] });
+    }
+    if (!rtf.trimStart().startsWith(RTF_SIGNATURE)) {
+      throw new Error('Missing {\\rtf header');
+    }
+
+    const reader = new RtfReader();
+    reader.read(rtf);
+    const children = buildBlocks(reader.records, reader.monospaceFonts);
+
+    logger.debug('RTF parsing complete', { blocks: children.length });
+    return Promise.resolve({ type: 'root', children, data: { metadata: reader.metadata } });
+  } catch (error) {
+    return Promise.reject(
+      new ParseError(
+        `Failed to parse RTF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    );
+  }
+}
+
+/**
+ * Check whether input starts with the RTF signature
+ */
+export function isRtf(input: string | Buffer): boolean {
+  const start = Buffer.isBuffer(input) ? input.toString('latin1', 0, 64) : input.slice(0, 64);
+  return start.trimStart().startsWith(RTF_SIGNATURE);
+}
+
+/**
+ * Tokenizer state machine that collects paragraphs, fonts, styles and metadata
+ */
+class RtfReader {
+  records: ParsedBlock[] = [];
+  metadata: DocumentMetadata = {};
+  monospaceFonts = new Set<number>();
+
+  private stack: GroupState[] = [];
+  private state: GroupState = {
+    destination: 'body',
+    format: { bold: false, italic: false, underline: false, strike: false, font: 0 },
+    unicodeSkip: 1,
+  };
+  private decoder = new TextDecoder('windows-1252');
+  private pendingBytes: number[] = [];
+  private skipChars = 0;
+  private ignorable = false;
+  private groupStart = false;
+
+  // Current paragraph
+  private runs: Run[] = [];
+  private headingLevel?: number;
+  private listLevel?: number;
+  private inList = false;
+  private inTable = false;
+  private listMarker = '';
+  private row: Run[][] = [];
+  private cell: Run[] = [];
+
+  // Font table, stylesheet, picture and info being read
+  private definition = { number: 0, name: '', monospace: false };
+  private headingStyles = new Map<number, number>();
+  private styleLevel?: number;
+  private picture = { type: '', hex: '' };
+  private infoText = '';
+  private created = { yr: 0, mo: 0, dy: 0 };
+
+  /**
+   * Read a whole document
+   */
+  read(rtf: string): void {
+    for (const match of rtf.matchAll(TOKEN_PATTERN)) {
+      const [, word, param, hex, symbol, delimiter, text] = match;
+
+      if (hex !== undefined) {
+        if (this.consumeSkip()) continue;
+        this.pendingBytes.push(parseInt(hex, 16));
+        continue;
+      }
+      this.flushBytes();
+
+      if (delimiter === '{') {
+        this.stack.push(this.state);
+        this.state = { ...this.state, format: { ...this.state.format } };
+        this.groupStart = true;
+        this.skipChars = 0;
+        continue;
+      }
+      if (delimiter === '}') {
+        this.endGroup();
+        continue;
+      }
+
+      if (word !== undefined) {
+        if (this.skipChars > 0 && this.consumeSkip()) continue;
+        this.controlWord(word, param === undefined ? undefined : Number(param));
+      } else if (symbol === '*') {
+        // Marks an ignorable destination; the next control word still opens the group
+        this.ignorable = true;
+        continue;
+      } else if (symbol !== undefined) {
+        if (this.consumeSkip()) continue;
+        this.controlSymbol(symbol);
+      } else if (text !== undefined) {
+        let value = text;
+        while (this.skipChars > 0 && value) {
+          value = value.slice(1);
+          this.skipChars--;
+        }
+        this.appendText(value);
+      }
+      this.groupStart = false;
+    }
+
+    this.flushBytes();
+    this.endParagraph();
+    this.endRow();
+  }
+
+  /**
+   * Consume one fallback character after a \u escape
+   */
+  private consumeSkip(): boolean {
+    if (this.skipChars > 0) {
+      this.skipChars--;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Decode pending \'hh bytes in the document code page
+   */
+  private flushBytes(): void {
+    if (this.pendingBytes.length > 0) {
+      const bytes = this.pendingBytes;
+      this.pendingBytes = [];
+      this.appendText(this.decoder.decode(Uint8Array.from(bytes)));
+    }
+  }
+
+  /**
+   * Handle a control word
+   */
+  private controlWord(word: string, param?: number): void {
+    const state = this.state;
+    const on = param !== 0;
+
+    // The first control word of a group can make it a destination
+    if (this.groupStart && this.startDestination(word)) {
+      this.ignorable = false;
+      return;
+    }
+    if (this.ignorable && this.groupStart) {
+      // Unknown \* destinations are skipped
+      state.destination = 'skip';
+      this.ignorable = false;
+      return;
+    }
+
+    // Paragraph properties only count in the document body (list markers reset them)
+    if (state.destination !== 'body' && PARAGRAPH_WORDS.has(word)) {
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        this.decoder = createDecoder(param);
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'u':
+        if (param !== undefined) {
+          this.appendText(String.fromCharCode(param < 0 ? param + 65536 : param));
+          this.skipChars = state.unicodeSkip;
+        }
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+        if (state.destination === 'body') this.endParagraph();
+        break;
+      case 'line':
+        this.appendText('\n');
+        break;
+      case 'cell':
+        this.endCell();
+        break;
+      case 'row':
+        this.endRow();
+        break;
+      case 'pard':
+        this.headingLevel = undefined;
+        this.listLevel = undefined;
+        this.inList = false;
+        this.inTable = false;
+        break;
+      case 'intbl':
+        this.inTable = true;
+        break;
+      case 'outlinelevel':
+        if (state.destination === 'stylesheet') {
+          this.styleLevel = (param ?? 0) + 1;
+        } else if (param !== undefined && param < 9) {
+          this.headingLevel = param + 1;
+        }
+        break;
+      case 's':
+        if (state.destination === 'stylesheet') {
+          this.definition = { number: param ?? 0, name: '', monospace: false };
+          this.styleLevel = undefined;
+        } else if (this.headingStyles.has(param ?? 0)) {
+          this.headingLevel = this.headingStyles.get(param ?? 0);
+        }
+        break;
+      case 'ls':
+        this.inList = true;
+        this.listLevel ??= 0;
+        break;
+      case 'ilvl':
+        this.listLevel = param ?? 0;
+        break;
+      case 'pnlvlblt':
+      case 'pnlvlbody':
+        this.inList = true;
+        this.listLevel ??= 0;
+        break;
+      case 'plain':
+        state.format = {
+          ...state.format,
+          bold: false,
+          italic: false,
+          underline: false,
+          strike: false,
+          font: 0,
+        };
+        break;
+      case 'b':
+        state.format.bold = on;
+        break;
+      case 'i':
+        state.format.italic = on;
+        break;
+      case 'ul':
+        state.format.underline = on;
+        break;
+      case 'ulnone':
+        state.format.underline = false;
+        break;
+      case 'strike':
+      case 'striked':
+        state.format.strike = on;
+        break;
+      case 'f':
+        if (state.destination === 'fonttbl') {
+          this.definition = { number: param ?? 0, name: '', monospace: false };
+        } else {
+          state.format.font = param ?? 0;
+        }
+        break;
+      case 'fmodern':
+        this.definition.monospace = true;
+        break;
+      case 'pngblip':
+        this.picture.type = 'image/png';
+        break;
+      case 'jpegblip':
+        this.picture.type = 'image/jpeg';
+        break;
+      case 'yr':
+      case 'mo':
+      case 'dy':
+        if (state.destination === 'creatim') this.created[word] = param ?? 0;
+        break;
+      default:
+        if (hasKey(SYMBOLS, word)) {
+          this.appendText(SYMBOLS[word]);
+        }
+    }
+  }
+
+  /**
+   * Start a destination group, returning false when the word is not a destination
+   */
+  private startDestination(word: string): boolean {
+    const state = this.state;
+    if (state.destination === 'skip') {
+      return true;
+    }
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.destination = 'skip';
+    } else if (word === 'fonttbl' || word === 'stylesheet' || word === 'info') {
+      state.destination = word;
+    } else if (state.destination === 'info' && (hasKey(INFO_FIELDS, word) || word === 'creatim')) {
+      state.destination = word as Destination;
+      this.infoText = '';
+    } else if (state.destination === 'info') {
+      state.destination = 'skip';
+    } else if (word === 'field') {
+      state.field = { instruction: '' };
+    } else if (word === 'fldinst') {
+      state.destination = 'fldinst';
+    } else if (word === 'fldrslt') {
+      const url = hyperlinkTarget(state.field?.instruction ?? '');
+      if (url) state.format.link = url;
+    } else if (word === 'pict') {
+      state.destination = 'pict';
+      this.picture = { type: '', hex: '' };
+    } else if (word === 'listtext' || word === 'pntext') {
+      state.destination = 'listtext';
+      this.listMarker = '';
+    } else if (word === 'shppict') {
+      // Container for the picture itself; its \pict group follows
+    } else {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Handle a control symbol
+   */
+  private controlSymbol(symbol: string): void {
+    if (symbol === '\n' || symbol === '\r') {
+      if (this.state.destination === 'body') this.endParagraph();
+      return;
+    }
+    if (symbol === '\\' || symbol === '{' || symbol === '}') {
+      this.appendText(symbol);
+      return;
+    }
+    if (hasKey(CONTROL_SYMBOLS, symbol)) {
+      this.appendText(CONTROL_SYMBOLS[symbol]);
+    }
+  }
+
+  /**
+   * Route text to the current destination
+   */
+  private appendText(text: string): void {
+    if (!text) return;
+    const state = this.state;
+
+    switch (state.destination) {
+      case 'body': {
+        const last = this.runs[this.runs.length - 1];
+        if (last && 'text' in last && sameFormat(last.format, state.format)) {
+          last.text += text;
+        } else {
+          this.runs.push({ text, format: { ...state.format } });
+        }
+        break;
+      }
+      case 'fonttbl':
+      case 'stylesheet':
+        this.definition.name += text;
+        if (this.definition.name.includes(';')) {
+          this.endDefinition();
+        }
+        break;
+      case 'fldinst':
+        if (state.field) state.field.instruction += text;
+        break;
+      case 'pict':
+        this.picture.hex += text.replace(/[^0-9a-fA-F]/g, '');
+        break;
+      case 'listtext':
+        this.listMarker += text;
+        break;
+      case 'skip':
+      case 'info':
+      case 'creatim':
+        break;
+      default:
+        this.infoText += text;
+    }
+  }
+
+  /**
+   * Finish a font or style definition at its terminating semicolon
+   */
+  private endDefinition(): void {
+    const name = this.definition.name.replace(/;.*$/, '').trim();
+    if (this.state.destination === 'fonttbl') {
+      if (this.definition.monospace || MONOSPACE_FONT.test(name)) {
+        this.monospaceFonts.add(this.definition.number);
+      }
+    } else {
+      const heading = /^heading\s*(\d)$/i.exec(name);
+      const level = heading ? Number(heading[1]) : this.styleLevel;
+      if (level) this.headingStyles.set(this.definition.number, level);
+    }
+    this.definition.name = '';
+  }
+
+  /**
+   * Close the current group
+   */
+  private endGroup(): void {
+    const state = this.state;
+    this.state = this.stack.pop() ?? state;
+    this.groupStart = false;
+    this.ignorable = false;
+
+    if (state.destination === 'pict' && this.state.destination !== 'pict') {
+      if (this.picture.type && this.picture.hex) {
+        const data = Buffer.from(this.picture.hex, 'hex').toString('base64');
+        this.runs.push({ image: `data:${this.picture.type};base64,${data}` });
+      }
+    } else if (hasKey(INFO_FIELDS, state.destination) && this.state.destination === 'info') {
+      const key = INFO_FIELDS[state.destination as InfoField];
+      const value = this.infoText.trim();
+      if (value) {
+        this.metadata[key] =
+          key === 'keywords' ? value.split(/\s*[,;]\s*|\s+/).filter(Boolean) : value;
+      }
+    } else if (state.destination === 'creatim' && this.created.yr) {
+      const { yr, mo, dy } = this.created;
+      this.metadata.date = [yr, mo || 1, dy || 1]
+        .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+        .join('-');
+    }
+  }
+
+  /**
+   * Finish the current paragraph
+   */
+  private endParagraph(): void {
+    if (this.inTable) {
+      // Paragraphs inside a cell are joined with line breaks
+      if (this.cell.length > 0) this.cell.push({ text: '\n', format: { ...this.state.format } });
+      this.cell.push(...this.runs);
+      this.runs = [];
+      return;
+    }
+
+    this.endRow();
+    const runs = this.runs;
+    this.runs = [];
+
+    const isList = this.inList || this.listMarker !== '';
+    const textRuns = runs.filter(
+      (run): run is { text: string; format: CharFormat } => 'text' in run
+    );
+    const code =
+      textRuns.some((run) => run.text.trim()) &&
+      textRuns.every((run) => !run.text.trim() || this.monospaceFonts.has(run.format.font));
+
+    this.records.push({
+      kind: 'paragraph',
+      runs,
+      heading: this.headingLevel,
+      listLevel: isList ? (this.listLevel ?? 0) : undefined,
+      ordered: isList ? /\d/.test(this.listMarker) : undefined,
+      number: isList ? Number(/\d+/.exec(this.listMarker)?.[0] ?? NaN) || undefined : undefined,
+      code: code || (runs.length === 0 && this.monospaceFonts.has(this.state.format.font)),
+    });
+    this.listMarker = '';
+  }
+
+  /**
+   * Finish a table cell
+   */
+  private endCell(): void {
+    this.inTable = true;
+    this.endParagraph();
+    this.row.push(this.cell);
+    this.cell = [];
+  }
+
+  /**
+   * Finish a table row
+   */
+  private endRow(): void {
+    if (this.cell.length > 0) {
+      this.row.push(this.cell);
+      this.cell = [];
+    }
+    if (this.row.length > 0) {
+      this.records.push({ kind: 'row', cells: this.row });
+      this.row = [];
+    }
+  }
+}
+
+/**
+ * Turn paragraph and row records into mdast blocks: consecutive code
+ * paragraphs become one code block, list paragraphs nested lists and rows tables
+ */
+function buildBlocks(records: ParsedBlock[], monospaceFonts: Set<number>): RootContent[] {
+  const blocks: RootContent[] = [];
+  const lists: { list: List; level: number }[] = [];
+  let code: { type: 'code'; value: string } | undefined;
+  let table: Table | undefined;
+
+  for (const record of records) {
+    if (record.kind === 'row') {
+      lists.length = 0;
+      code = undefined;
+      let cells = record.cells;
+      if (!table) {
+        table = { type: 'table', children: [] };
+        blocks.push(table);
+        // A header row set in bold is the table header, not strong text
+        if (
+          cells.every((cell) =>
+            cell.every((run) => !('text' in run) || run.format.bold || !run.text.trim())
+          )
+        ) {
+          cells = cells.map(withoutBold);
+        }
+      }
+      table.children.push({
+        type: 'tableRow',
+        children: cells.map(
+          (cell): TableCell => ({ type: 'tableCell', children: convertRuns(cell, monospaceFonts) })
+        ),
+      });
+      continue;
+    }
+    table = undefined;
+
+    if (record.code && record.listLevel === undefined && record.heading === undefined) {
+      lists.length = 0;
+      const line = record.runs.map((run) => ('text' in run ? run.text : '')).join('');
+      if (code) {
+        code.value += `\n${line}`;
+      } else {
+        code = { type: 'code', value: line };
+        blocks.push(code);
+      }
+      continue;
+    }
+    code = undefined;
+
+    // Headings are bold by their style, so bold runs in them are not strong text
+    const children = convertRuns(
+      record.heading !== undefined ? withoutBold(record.runs) : record.runs,
+      monospaceFonts
+    );
+
+    if (record.listLevel !== undefined) {
+      const level = record.listLevel;
+      while (lists.length > 0 && lists[lists.length - 1].level > level) {
+        lists.pop();
+      }
+
+      // A change between bullets and numbers at the same level starts a new list
+      if (lists.length > 0 && lists[lists.length - 1].level === level) {
+        if (lists[lists.length - 1].list.ordered !== record.ordered) {
+          lists.pop();
+        }
+      }
+
+      let current = lists[lists.length - 1];
+      if (!current || current.level < level) {
+        const list: List = { type: 'list', ordered: record.ordered, spread: false, children: [] };
+        if (record.ordered && record.number !== undefined && record.number !== 1) {
+          list.start = record.number;
+        }
+        const parentItem = current?.list.children[current.list.children.length - 1];
+        if (parentItem) {
+          parentItem.children.push(list);
+        } else {
+          blocks.push(list);
+        }
+        current = { list, level };
+        lists.push(current);
+      }
+
+      const item: ListItem = { type: 'listItem', spread: false, children: [] };
+      if (children.length > 0) {
+        item.children.push({ type: 'paragraph', children });
+      }
+      current.list.children.push(item);
+      continue;
+    }
+    lists.length = 0;
+
+    if (children.length === 0) {
+      continue;
+    }
+    if (record.heading !== undefined) {
+      const depth = Math.min(Math.max(record.heading, 1), 6) as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: 'heading', depth, children });
+    } else {
+      blocks.push({ type: 'paragraph', children });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Copy of runs with bold switched off
+ */
+function withoutBold(runs: Run[]): Run[] {
+  return runs.map((run) =>
+    'text' in run ? { ...run, format: { ...run.format, bold: false } } : run
+  );
+}
+
+/**
+ * Convert runs to mdast phrasing content, grouping runs that share a link
+ */
+function convertRuns(runs: Run[], monospaceFonts: Set<number>): PhrasingContent[] {
+  const result: PhrasingContent[] = [];
+
+  for (const run of runs) {
+    if ('image' in run) {
+      result.push({ type: 'image', url: run.image, alt: '' });
+      continue;
+    }
+
+    const nodes = formatRun(run.text, run.format, monospaceFonts);
+    const link = run.format.link;
+    const last = result[result.length - 1];
+
+    if (link && last?.type === 'link' && last.url === link) {
+      last.children.push(...nodes);
+    } else if (link) {
+      result.push({ type: 'link', url: link, children: nodes });
+    } else {
+      result.push(...nodes);
+    }
+  }
+
+  return trimPhrasing(result);
+}
+
+/**
+ * Wrap text in the mdast nodes for its formatting. Monospaced text becomes
+ * inline code; underlined text outside links is treated as emphasis.
+ */
+function formatRun(
+  text: string,
+  format: CharFormat,
+  monospaceFonts: Set<number>
+): PhrasingContent[] {
+  const parts = text.split('\n');
+  const nodes: PhrasingContent[] = [];
+
+  parts.forEach((part, index) => {
+    if (index > 0) nodes.push({ type: 'break' });
+    if (!part) return;
+
+    if (monospaceFonts.has(format.font) && part.trim()) {
+      nodes.push({ type: 'inlineCode', value: part });
+      return;
+    }
+
+    let node: PhrasingContent = { type: 'text', value: part };
+    if (part.trim()) {
+      if (format.strike) node = { type: 'delete', children: [node] };
+      if (format.italic || (format.underline && !format.link)) {
+        node = { type: 'emphasis', children: [node] };
+      }
+      if (format.bold) node = { type: 'strong', children: [node] };
+    }
+    nodes.push(node);
+  });
+
+  return nodes;
+}
+
+/**
+ * Remove leading and trailing whitespace from phrasing content
+ */
+function trimPhrasing(children: PhrasingContent[]): PhrasingContent[] {
+  const first = children[0];
+  if (first?.type === 'text') {
+    first.value = first.value.trimStart();
+  }
+  const last = children[children.length - 1];
+  if (last?.type === 'text') {
+    last.value = last.value.trimEnd();
+  }
+  return children.filter((child) => child.type !== 'text' || child.value);
+}
+
+/**
+ * Whether two runs have the same formatting
+ */
+function sameFormat(a: CharFormat, b: CharFormat): boolean {
+  return (
+    a.bold === b.bold &&
+    a.italic === b.italic &&
+    a.underline === b.underline &&
+    a.strike === b.strike &&
+    a.font === b.font &&
+    a.link === b.link
+  );
+}
+
+/**
+ * Target of a HYPERLINK field instruction (`\l` links to a bookmark)
+ */
+function hyperlinkTarget(instruction: string): string | undefined {
+  const match = /HYPERLINK\s+(\\l\s+)?"([^"]*)"/i.exec(instruction);
+  if (!match) return undefined;
+  return match[1] ? `#${match[2]}` : match[2];
+}
+
+/**
+ * Decoder for a Windows code page, falling back to Windows-1252
+ */
+function createDecoder(codePage?: number): TextDecoder {
+  try {
+    return new TextDecoder(codePage === 65001 ? 'utf-8' : `windows-${codePage}`);
+  } catch {
+    try {
+      return new TextDecoder(codePage === 932 ? 'shift_jis' : `cp${codePage}`);
+    } catch {
+      return new TextDecoder('windows-1252');
+    }
+  }
+}
+
+/**
+ * Whether an object has its own property with the given key
+ */
+function hasKey(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -0,0 +1,342 @@
+import JSZip from 'jszip';
+
+/**
+ * Package parts shared by generated and reference documents
+ */
+const DOCUMENT_PART = 'word/document.xml';
+const DOCUMENT_RELS_PART = 'word/_rels/document.xml.rels';
+const STYLES_PART = 'word/styles.xml';
+const NUMBERING_PART = 'word/numbering.xml';
+const CONTENT_TYPES_PART = '[Content_Types].xml';
+const CORE_PROPERTIES_PART = 'docProps/core.xml';
+const SETTINGS_PART = 'word/settings.xml';
+
+/**
+ * Settings elements that follow w:updateFields in the schema's element order
+ */
+const SETTINGS_AFTER_UPDATE_FIELDS =
+  /<(w:hdrShapeDefaults|w:footnotePr|w:endnotePr|w:compat|w:docVars|w:rsids|m:mathPr|w:attachedSchema|w:themeFontLang|w:clrSchemeMapping|w:doNotIncludeSubdocsInStats|w:doNotAutoCompressPictures|w:forceUpgrade|w:captions|w:readModeInkLockDown|w:smartTagType|w:schemaLibrary|w:shapeDefaults|w:doNotEmbedSmartTags|w:decimalSymbol|w:listSeparator)\b|<\/w:settings>/;
+
+/**
+ * Relationship and content types used while merging
+ */
+const RELATIONSHIP_TYPES = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NUMBERING_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml';
+const TEMPLATE_MAIN_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.template.main+xml';
+const DOCUMENT_MAIN_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml';
+
+/**
+ * Image content types registered for embedded media
+ */
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+/**
+ * Parsed package relationship
+ */
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Place a generated document's body inside a reference .docx/.dotx.
+ * The reference keeps its styles, numbering, page setup, headers and footers;
+ * the generated body, its lists, images and links are merged in, and styles
+ * the reference lacks are copied over from the generated document.
+ */
+export async function applyReferenceDocx(generated: Buffer, reference: Buffer): Promise<Buffer> {
+  const [source, target] = await Promise.all([
+    JSZip.loadAsync(generated),
+    JSZip.loadAsync(reference),
+  ]);
+
+  const sourceDocument = await readPart(source, DOCUMENT_PART);
+  const targetDocument = await readPart(target, DOCUMENT_PART);
+  let body = extractBody(sourceDocument);
+
+  body = await mergeRelationships(source, target, body);
+  body = await mergeNumbering(source, target, body);
+  await mergeStyles(source, target);
+  await mergeSettings(source, target);
+
+  target.file(DOCUMENT_PART, buildDocument(sourceDocument, targetDocument, body));
+
+  // Document properties (title, author, ...) come from the generated document
+  if (target.file(CORE_PROPERTIES_PART) && source.file(CORE_PROPERTIES_PART)) {
+    target.file(CORE_PROPERTIES_PART, await readPart(source, CORE_PROPERTIES_PART));
+  }
+
+  await updateContentTypes(target);
+
+  return target.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Read a package part as text
+ */
+async function readPart(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing ${path}`);
+  }
+  return file.async('string');
+}
+
+/**
+ * Get the body content of document.xml without its final section properties
+ */
+function extractBody(documentXml: string): string {
+  const match = /<w:body>([\s\S]*)<\/w:body>/.exec(documentXml);
+  if (!match) {
+    throw new Error('Document has no body');
+  }
+  return match[1].replace(/(<w:sectPr\b[^>]*\/>|<w:sectPr\b[\s\S]*?<\/w:sectPr>)\s*$/, '');
+}
+
+/**
+ * Build document.xml from the generated root element, the merged body and the
+ * reference's final section properties (page size, margins, header/footer references)
+ */
+function buildDocument(sourceXml: string, targetXml: string, body: string): string {
+  const targetBody = /<w:body>([\s\S]*)<\/w:body>/.exec(targetXml)?.[1] ?? '';
+  const sections = targetBody.match(/<w:sectPr\b[^>]*\/>|<w:sectPr\b[\s\S]*?<\/w:sectPr>/g);
+  const sectionProperties =
+    sections?.[sections.length - 1] ??
+    /<w:sectPr\b[\s\S]*?<\/w:sectPr>\s*<\/w:body>/.exec(sourceXml)?.[0].replace('</w:body>', '') ??
+    '';
+
+  // Keep namespace declarations from both roots so reference section properties stay valid
+  const sourceRoot = /<w:document\b[^>]*>/.exec(sourceXml)?.[0] ?? '<w:document>';
+  const targetRoot = /<w:document\b[^>]*>/.exec(targetXml)?.[0] ?? '';
+  const declared = new Set(Array.from(sourceRoot.matchAll(/xmlns:(\w+)=/g), (m) => m[1]));
+  const extra = Array.from(targetRoot.matchAll(/\s(xmlns:(\w+)="[^"]*")/g))
+    .filter((m) => !declared.has(m[2]))
+    .map((m) => ` ${m[1]}`)
+    .join('');
+  const root = sourceRoot.replace(/>$/, `${extra}>`);
+
+  const prolog = /^<\?xml[^>]*\?>/.exec(sourceXml)?.[0] ?? '';
+  return `${prolog}${root}<w:body>${body}${sectionProperties}</w:body></w:document>`;
+}
+
+/**
+ * Copy image and hyperlink relationships (and the media they point to) into the
+ * reference, renaming them to avoid clashes, and update references in the body
+ */
+async function mergeRelationships(source: JSZip, target: JSZip, body: string): Promise<string> {
+  const sourceRels = parseRelationships(await readPart(source, DOCUMENT_RELS_PART));
+  let targetRelsXml = await readPart(target, DOCUMENT_RELS_PART);
+  const renamed = new Map<string, string>();
+  const additions: string[] = [];
+
+  for (const rel of sourceRels) {
+    const isImage = rel.type.endsWith('/image');
+    const isLink = rel.type.endsWith('/hyperlink');
+    if (!isImage && !isLink) continue;
+
+    const id = `rIdConvatile${renamed.size + 1}`;
+    let relTarget = rel.target;
+
+    if (isImage && !rel.external) {
+      const media = source.file(`word/${rel.target}`);
+      if (!media) continue;
+      const extension = rel.target.slice(rel.target.lastIndexOf('.'));
+      relTarget = `media/convatile-${renamed.size + 1}${extension}`;
+      target.file(`word/${relTarget}`, await media.async('nodebuffer'));
+    }
+
+    renamed.set(rel.id, id);
+    additions.push(
+      `<Relationship Id="${id}" Type="${rel.type}" Target="${escapeAttribute(relTarget)}"${
+        rel.external ? ' TargetMode="External"' : ''
+      }/>`
+    );
+  }
+
+  if (additions.length > 0) {
+    targetRelsXml = targetRelsXml.replace(
+      '</Relationships>',
+      `${additions.join('')}</Relationships>`
+    );
+    target.file(DOCUMENT_RELS_PART, targetRelsXml);
+  }
+
+  return body.replace(/(r:(?:id|embed|link)=")([^"]+)"/g, (match, prefix: string, id: string) =>
+    renamed.has(id) ? `${prefix}${renamed.get(id)}"` : match
+  );
+}
+
+/**
+ * Merge the generated list numbering into the reference numbering part,
+ * offsetting IDs past the reference's own definitions
+ */
+async function mergeNumbering(source: JSZip, target: JSZip, body: string): Promise<string> {
+  if (!source.file(NUMBERING_PART) || !/<w:numId\b/.test(body)) {
+    return body;
+  }
+
+  const sourceXml = await readPart(source, NUMBERING_PART);
+  const targetRels = parseRelationships(await readPart(target, DOCUMENT_RELS_PART));
+  const numberingRel = targetRels.find((rel) => rel.type.endsWith('/numbering'));
+
+  if (!numberingRel) {
+    // The reference has no lists of its own: use the generated numbering as-is
+    target.file(NUMBERING_PART, sourceXml);
+    const relsXml = (await readPart(target, DOCUMENT_RELS_PART)).replace(
+      '</Relationships>',
+      `<Relationship Id="rIdConvatileNumbering" Type="${RELATIONSHIP_TYPES}/numbering" Target="numbering.xml"/></Relationships>`
+    );
+    target.file(DOCUMENT_RELS_PART, relsXml);
+    return body;
+  }
+
+  const numberingPath = `word/${numberingRel.target.replace(/^\/?word\//, '')}`;
+  const targetXml = await readPart(target, numberingPath);
+
+  const abstractOffset = maxId(targetXml, /<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"/g) + 1;
+  const numOffset = maxId(targetXml, /<w:num\b[^>]*w:numId="(\d+)"/g) + 1;
+  const shift = (offset: number) => (_match: string, prefix: string, id: string) =>
+    `${prefix}${Number(id) + offset}"`;
+
+  const abstracts = (sourceXml.match(/<w:abstractNum\b[\s\S]*?<\/w:abstractNum>/g) ?? []).map(
+    (xml) =>
+      stripExtensionAttributes(xml).replace(/(w:abstractNumId=")(\d+)"/, shift(abstractOffset))
+  );
+  const nums = (sourceXml.match(/<w:num\b[^>]*>[\s\S]*?<\/w:num>/g) ?? []).map((xml) =>
+    stripExtensionAttributes(xml)
+      .replace(/(<w:num\b[^>]*w:numId=")(\d+)"/, shift(numOffset))
+      .replace(/(<w:abstractNumId w:val=")(\d+)"/, shift(abstractOffset))
+  );
+
+  // Schema order: abstractNum definitions come before num instances
+  const numStart = targetXml.search(/<w:num\b|<w:numIdMacAtCleanup\b|<\/w:numbering>/);
+  const withAbstracts =
+    targetXml.slice(0, numStart) + abstracts.join('') + targetXml.slice(numStart);
+  const numEnd = withAbstracts.search(/<w:numIdMacAtCleanup\b|<\/w:numbering>/);
+  const merged = withAbstracts.slice(0, numEnd) + nums.join('') + withAbstracts.slice(numEnd);
+
+  target.file(numberingPath, merged);
+  return body.replace(/(<w:numId w:val=")(\d+)"/g, shift(numOffset));
+}
+
+/**
+ * Add styles the reference does not define (e.g. code or quote styles)
+ */
+async function mergeStyles(source: JSZip, target: JSZip): Promise<void> {
+  const sourceXml = await readPart(source, STYLES_PART);
+  const targetXml = await readPart(target, STYLES_PART);
+  const existing = new Set(
+    Array.from(targetXml.matchAll(/<w:style\b[^>]*w:styleId="([^"]+)"/g), (m) => m[1])
+  );
+
+  const missing = (sourceXml.match(/<w:style\b[\s\S]*?<\/w:style>/g) ?? []).filter((xml) => {
+    const id = /w:styleId="([^"]+)"/.exec(xml)?.[1];
+    return id !== undefined && !existing.has(id);
+  });
+
+  if (missing.length > 0) {
+    target.file(
+      STYLES_PART,
+      targetXml.replace(
+        '</w:styles>',
+        `${missing.map(stripExtensionAttributes).join('')}</w:styles>`
+      )
+    );
+  }
+}
+
+/**
+ * Carry over the request to update fields (e.g. a table of contents) on open
+ */
+async function mergeSettings(source: JSZip, target: JSZip): Promise<void> {
+  if (!source.file(SETTINGS_PART) || !target.file(SETTINGS_PART)) {
+    return;
+  }
+
+  const sourceXml = await readPart(source, SETTINGS_PART);
+  const targetXml = await readPart(target, SETTINGS_PART);
+  if (!/<w:updateFields\b/.test(sourceXml) || /<w:updateFields\b/.test(targetXml)) {
+    return;
+  }
+
+  const index = targetXml.search(SETTINGS_AFTER_UPDATE_FIELDS);
+  if (index !== -1) {
+    target.file(
+      SETTINGS_PART,
+      `${targetXml.slice(0, index)}<w:updateFields/>${targetXml.slice(index)}`
+    );
+  }
+}
+
+/**
+ * Register image and numbering content types, and turn a .dotx template into a document
+ */
+async function updateContentTypes(target: JSZip): Promise<void> {
+  let xml = await readPart(target, CONTENT_TYPES_PART);
+
+  xml = xml.replace(TEMPLATE_MAIN_CONTENT_TYPE, DOCUMENT_MAIN_CONTENT_TYPE);
+
+  const defaults = new Set(
+    Array.from(xml.matchAll(/<Default\b[^>]*Extension="([^"]+)"/gi), (m) => m[1].toLowerCase())
+  );
+  const additions = Object.entries(IMAGE_CONTENT_TYPES)
+    .filter(([extension]) => !defaults.has(extension))
+    .map(([extension, type]) => `<Default Extension="${extension}" ContentType="${type}"/>`);
+
+  if (target.file(NUMBERING_PART) && !xml.includes('PartName="/word/numbering.xml"')) {
+    additions.push(
+      `<Override PartName="/word/numbering.xml" ContentType="${NUMBERING_CONTENT_TYPE}"/>`
+    );
+  }
+
+  target.file(CONTENT_TYPES_PART, xml.replace('</Types>', `${additions.join('')}</Types>`));
+}
+
+/**
+ * Parse a relationships part
+ */
+function parseRelationships(xml: string): Relationship[] {
+  return Array.from(xml.matchAll(/<Relationship\b([^>]*?)\/?>/g), (match) => {
+    const attributes = Object.fromEntries(
+      Array.from(match[1].matchAll(/(\w+)="([^"]*)"/g), (m) => [m[1], m[2]])
+    );
+    return {
+      id: attributes.Id ?? '',
+      type: attributes.Type ?? '',
+      target: attributes.Target ?? '',
+      external: attributes.TargetMode === 'External',
+    };
+  });
+}
+
+/**
+ * Find the largest numeric ID captured by a pattern (-1 when there are none)
+ */
+function maxId(xml: string, pattern: RegExp): number {
+  return Math.max(-1, ...Array.from(xml.matchAll(pattern), (m) => Number(m[1])));
+}
+
+/**
+ * Remove Word 2010+ extension attributes whose namespaces the reference may not declare
+ */
+function stripExtensionAttributes(xml: string): string {
+  return xml.replace(/\s(w14|w15|w16\w*):\w+="[^"]*"/g, '');
+}
+
+/**
+ * Escape a value for use in an XML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&(?!amp;|lt;|gt;|quot;|apos;)/g, '&amp;').replace(/"/g, '&quot;');
+}
@@ -3,15 +3,63 @@ import {
   Packer,
   Paragraph,
   TextRun,
+  ExternalHyperlink,
   HeadingLevel,
   AlignmentType,
   BorderStyle,
   convertInchesToTwip,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  ImageRun,
+  LevelFormat,
+  TableOfContents,
+  Header,
+  Footer,
+  PageNumber,
+  Tab,
+  TabStopType,
+  type ILevelsOptions,
+  type INumberingOptions,
+  type IStylesOptions,
+  type IBaseParagraphStyleOptions,
+  type IRunStylePropertiesOptions,
+  type ParagraphChild,
 } from 'docx';
 import type { Root } from 'mdast';
-import type { RenderOptions, DocumentMetadata } from '../types/index.js';
+import type {
+  RenderOptions,
+  DocumentMetadata,
+  DocxStyles,
+  DocxPageMarks,
+  TocOptions,
+} from '../types/index.js';
 import { ConversionError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { deepMerge } from '../utils/merge.js';
+import { resolveImages, splitImages, type ResolvedImage } from '../utils/images.js';
+import { documentPlaceholders, fillPlaceholders, splitPlaceholders } from '../utils/page-marks.js';
+import { PAGE_SIZE } from '../utils/page-size.js';
+import { resolveTocOptions } from '../core/toc.js';
+import { resolveHighlightOptions, highlightLines, tokenColor } from '../core/highlight.js';
+import { applyReferenceDocx } from './docx-reference.js';
+
+/**
+ * Default DOCX styles
+ */
+const DEFAULT_STYLES: DocxStyles = {
+  margins: {
+    top: 1,
+    bottom: 1,
+    left: 1,
+    right: 1,
+  },
+  codeFontFamily: 'Courier New',
+  fontSize: {
+    code: 20, // 10pt in half-points
+  },
+};
 
 /**
  * Heading level mapping
@@ -25,6 +73,172 @@ const HEADING_LEVELS: Record<number, (typeof HeadingLevel)[keyof typeof HeadingL
   6: HeadingLevel.HEADING_6,
 };
 
+/**
+ * Block-level element that can be placed in a section
+ */
+type DocxBlock = Paragraph | Table | TableOfContents;
+
+/**
+ * Table cell alignment mapping (mdast `align` values)
+ */
+const CELL_ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+/**
+ * Page width in twips (the docx library's default page size)
+ */
+const PAGE_WIDTH_TWIPS = Math.round(PAGE_SIZE.width * 1440);
+
+/**
+ * Heading run styles built into the docx library. The library replaces the whole
+ * run style when one is supplied, so these are kept when overriding fonts or sizes.
+ */
+const HEADING_RUN_DEFAULTS: Record<number, IRunStylePropertiesOptions> = {
+  1: { color: '2E74B5', size: 32 },
+  2: { color: '2E74B5', size: 26 },
+  3: { color: '1F4D78', size: 24 },
+  4: { color: '2E74B5', italics: true },
+  5: { color: '2E74B5' },
+  6: { color: '1F4D78' },
+};
+
+/**
+ * Images resolved for the document, keyed by URL
+ */
+type ImageMap = Map<string, ResolvedImage>;
+
+/**
+ * Twips per CSS pixel (images are sized at 96 DPI)
+ */
+const TWIPS_PER_PX = 15;
+
+/**
+ * Paragraph style IDs for code blocks and blockquotes
+ */
+const CODE_STYLE_ID = 'SourceCode';
+const QUOTE_STYLE_ID = 'Quote';
+
+/**
+ * Number of list levels defined in each numbering config (Word supports 9)
+ */
+const LIST_LEVEL_COUNT = 9;
+
+/**
+ * Indentation per list level, in twips
+ */
+const LIST_INDENT_TWIPS = 720;
+
+/**
+ * Bullet characters, cycled per nesting level
+ */
+const BULLET_SYMBOLS = ['\u25CF', '\u25CB', '\u25A0'];
+
+/**
+ * Ordered list number formats, cycled per nesting level
+ */
+const ORDERED_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+/**
+ * Numbering assigned to a single list
+ */
+interface ListNumberingRef {
+  reference: string;
+  instance: number;
+}
+
+/**
+ * Hands out Word numbering instances to lists and builds the matching
+ * numbering definitions. Every list gets its own instance so numbering
+ * restarts, except an ordered list whose start follows on from the previous
+ * top-level ordered list, which continues it.
+ */
+class ListNumbering {
+  private nextInstance = 1;
+  /** Start numbers of the ordered configs handed out, keyed by reference */
+  private readonly orderedStarts = new Map<string, { start: number; level: number }>();
+  private usesBullets = false;
+  private lastOrdered?: ListNumberingRef & { next: number };
+
+  /**
+   * Allocate numbering for a list
+   */
+  allocate(
+    list: { ordered?: boolean | null; start?: number | null; children?: unknown[] },
+    level: number
+  ): ListNumberingRef {
+    if (!list.ordered) {
+      this.usesBullets = true;
+      return { reference: 'bullet', instance: this.nextInstance++ };
+    }
+
+    const start = typeof list.start === 'number' ? list.start : 1;
+    const itemCount = list.children?.length ?? 0;
+
+    if (level > 0) {
+      return { reference: this.orderedReference(start, level), instance: this.nextInstance++ };
+    }
+
+    if (this.lastOrdered && start > 1 && start === this.lastOrdered.next) {
+      this.lastOrdered.next += itemCount;
+      return { reference: this.lastOrdered.reference, instance: this.lastOrdered.instance };
+    }
+
+    const ref = { reference: this.orderedReference(start, 0), instance: this.nextInstance++ };
+    this.lastOrdered = { ...ref, next: start + itemCount };
+    return ref;
+  }
+
+  /**
+   * Build numbering definitions for every reference handed out
+   */
+  toOptions(): INumberingOptions {
+    const config: { reference: string; levels: ILevelsOptions[] }[] = [];
+
+    if (this.usesBullets) {
+      config.push({ reference: 'bullet', levels: buildListLevels(false, 1, 0) });
+    }
+    for (const [reference, { start, level }] of this.orderedStarts) {
+      config.push({ reference, levels: buildListLevels(true, start, level) });
+    }
+
+    return { config };
+  }
+
+  /**
+   * Reference of the ordered config that starts at `start` on the given level;
+   * every other level starts at 1
+   */
+  private orderedReference(start: number, level: number): string {
+    const startLevel = start === 1 ? 0 : level;
+    const reference =
+      start === 1 ? 'ordered' : `ordered-${start}${startLevel > 0 ? `-${startLevel}` : ''}`;
+    this.orderedStarts.set(reference, { start, level: startLevel });
+    return reference;
+  }
+}
+
+/**
+ * Build the level definitions for a bullet or ordered numbering config,
+ * numbering `startLevel` from `start`
+ */
+function buildListLevels(ordered: boolean, start: number, startLevel: number): ILevelsOptions[] {
+  return Array.from({ length: LIST_LEVEL_COUNT }, (_, level) => ({
+    level,
+    format: ordered ? ORDERED_FORMATS[level % ORDERED_FORMATS.length] : LevelFormat.BULLET,
+    text: ordered ? `%${level + 1}.` : BULLET_SYMBOLS[level % BULLET_SYMBOLS.length],
+    alignment: AlignmentType.LEFT,
+    start: level === startLevel ? start : 1,
+    style: {
+      paragraph: {
+        indent: { left: LIST_INDENT_TWIPS * (level + 1), hanging: 360 },
+      },
+    },
+  }));
+}
+
 /**
  * Render AST to DOCX buffer
  */
@@ -32,31 +246,73 @@ export async function renderDocx(ast: Root, options: RenderOptions = {}): Promis
   try {
     logger.debug('Rendering to DOCX');
 
-    const sections = renderAstToDocx(ast, options.metadata);
+    // Format-neutral page marks and highlighting sit beneath the DOCX styles
+    const shared: DocxStyles = {
+      header: options.header,
+      footer: options.footer,
+      highlight: options.highlight,
+    };
+    const styles = deepMerge(deepMerge(DEFAULT_STYLES, shared), options.styles?.docx);
+    const numbering = new ListNumbering();
+    const images = await resolveImages(ast, options);
+    const toc = resolveTocOptions(options.toc);
+    const sections = renderAstToDocx(ast, styles, numbering, images, options.metadata, toc);
+    // The title block is the first page; headers and footers can be left off it
+    const titlePage = Boolean(options.metadata?.title && (styles.header || styles.footer));
 
     const doc = new Document({
       creator: options.metadata?.author || 'Convatile-SDK',
       title: options.metadata?.title || 'Document',
       description: options.metadata?.description || '',
       keywords: options.metadata?.keywords?.join(', ') || '',
+      styles: buildDocumentStyles(styles),
+      numbering: numbering.toOptions(),
+      // The TOC field is filled in by Word when the document is opened
+      features: { updateFields: Boolean(toc) },
       sections: [
         {
           properties: {
             page: {
               margin: {
-                top: convertInchesToTwip(1),
-                right: convertInchesToTwip(1),
-                bottom: convertInchesToTwip(1),
-                left: convertInchesToTwip(1),
+                top: convertInchesToTwip(styles.margins?.top ?? 1),
+                right: convertInchesToTwip(styles.margins?.right ?? 1),
+                bottom: convertInchesToTwip(styles.margins?.bottom ?? 1),
+                left: convertInchesToTwip(styles.margins?.left ?? 1),
               },
             },
+            titlePage,
+          },
+          headers: styles.header && {
+            default: new Header({
+              children: [renderPageMarks(styles.header, styles, options.metadata)],
+            }),
+            ...(titlePage && {
+              first: new Header({
+                children: [renderPageMarks(styles.header, styles, options.metadata, true)],
+              }),
+            }),
+          },
+          footers: styles.footer && {
+            default: new Footer({
+              children: [renderPageMarks(styles.footer, styles, options.metadata)],
+            }),
+            ...(titlePage && {
+              first: new Footer({
+                children: [renderPageMarks(styles.footer, styles, options.metadata, true)],
+              }),
+            }),
           },
           children: sections,
         },
       ],
     });
 
-    const buffer = await Packer.toBuffer(doc);
+    let buffer = await Packer.toBuffer(doc);
+
+    // A reference document supplies styles, numbering, page setup, headers and footers
+    if (options.template?.type === 'docx' && options.template.data) {
+      buffer = await applyReferenceDocx(buffer, options.template.data);
+    }
 
     logger.debug('DOCX rendering complete', { size: buffer.length });
     return buffer;
@@ -69,11 +325,124 @@ export async function renderDocx(ast: Root, options: RenderOptions = {}): Promis
   }
 }
 
+/**
+ * Render header/footer text as one paragraph with left, centre and right tab stops.
+ * {page} and {pages} become Word fields; the title page gets an empty paragraph
+ * unless the marks opt in.
+ */
+function renderPageMarks(
+  marks: DocxPageMarks,
+  styles: DocxStyles,
+  metadata?: DocumentMetadata,
+  titlePage = false
+): Paragraph {
+  if (titlePage && !marks.showOnTitlePage) {
+    return new Paragraph({});
+  }
+
+  const contentWidth =
+    PAGE_WIDTH_TWIPS -
+    convertInchesToTwip(styles.margins?.left ?? 1) -
+    convertInchesToTwip(styles.margins?.right ?? 1);
+  const runStyle = {
+    font: styles.fontFamily,
+    size: marks.fontSize ?? 18,
+    color: marks.color ?? '6A737D',
+  };
+  const values = documentPlaceholders(metadata);
+  const slots = [marks.left, marks.center, marks.right];
+  const lastSlot = slots.reduce((last, text, index) => (text ? index : last), 0);
+
+  const children = slots.slice(0, lastSlot + 1).flatMap((text, index) => {
+    const runs = splitPlaceholders(fillPlaceholders(text ?? '', values), ['page', 'pages']).map(
+      (segment) =>
+        new TextRun({
+          ...runStyle,
+          children: [
+            'text' in segment
+              ? segment.text
+              : segment.placeholder === 'page'
+                ? PageNumber.CURRENT
+                : PageNumber.TOTAL_PAGES,
+          ],
+        })
+    );
+    return index > 0 ? [new TextRun({ ...runStyle, children: [new Tab()] }), ...runs] : runs;
+  });
+
+  return new Paragraph({
+    tabStops: [
+      { type: TabStopType.CENTER, position: Math.round(contentWidth / 2) },
+      { type: TabStopType.RIGHT, position: contentWidth },
+    ],
+    children,
+  });
+}
+
+/**
+ * Build document-level default styles (fonts and heading sizes)
+ */
+function buildDocumentStyles(styles: DocxStyles): IStylesOptions {
+  const fontSizes = styles.fontSize || {};
+
+  const headingStyle = (depth: number): IBaseParagraphStyleOptions => ({
+    run: {
+      ...HEADING_RUN_DEFAULTS[depth],
+      font: styles.fontFamily,
+      size: fontSizes[`h${depth}` as keyof typeof fontSizes] ?? HEADING_RUN_DEFAULTS[depth].size,
+    },
+    paragraph: {
+      spacing: { before: 240, after: 120 },
+    },
+  });
+
+  return {
+    default: {
+      document: {
+        run: {
+          font: styles.fontFamily,
+          size: fontSizes.body,
+        },
+      },
+      heading1: headingStyle(1),
+      heading2: headingStyle(2),
+      heading3: headingStyle(3),
+      heading4: headingStyle(4),
+      heading5: headingStyle(5),
+      heading6: headingStyle(6),
+    },
+    // Named styles so a reference document can restyle code and quotes
+    paragraphStyles: [
+      {
+        id: CODE_STYLE_ID,
+        name: 'Source Code',
+        basedOn: 'Normal',
+        run: { font: styles.codeFontFamily, size: fontSizes.code },
+        paragraph: { spacing: { after: 0 } },
+      },
+      {
+        id: QUOTE_STYLE_ID,
+        name: 'Quote',
+        basedOn: 'Normal',
+        run: { italics: true, color: '6A737D' },
+        paragraph: { indent: { left: convertInchesToTwip(0.5) }, spacing: { after: 200 } },
+      },
+    ],
+  };
+}
+
 /**
  * Render AST to DOCX paragraph array
  */
-function renderAstToDocx(ast: Root, metadata?: DocumentMetadata): Paragraph[] {
-  const paragraphs: Paragraph[] = [];
+function renderAstToDocx(
+  ast: Root,
+  styles: DocxStyles,
+  numbering: ListNumbering,
+  images: ImageMap,
+  metadata?: DocumentMetadata,
+  toc?: Required<TocOptions>
+): DocxBlock[] {
+  const paragraphs: DocxBlock[] = [];
 
   // Add title if provided
   if (metadata?.title) {
@@ -112,44 +481,83 @@ function renderAstToDocx(ast: Root, metadata?: DocumentMetadata): Paragraph[] {
     }
   }
 
+  if (toc) {
+    paragraphs.push(...renderToc(toc));
+  }
+
   // Render each node
   for (const node of ast.children) {
-    const nodeParagraphs = renderNodeToDocx(node);
+    const nodeParagraphs = renderNodeToDocx(node, styles, numbering, images);
     paragraphs.push(...nodeParagraphs);
   }
 
   return paragraphs;
 }
 
+/**
+ * Render a native Word TOC field over the heading styles up to the configured depth
+ */
+function renderToc(toc: Required<TocOptions>): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+
+  if (toc.title) {
+    blocks.push(
+      new Paragraph({
+        children: [new TextRun({ text: toc.title, bold: true, size: 28 })],
+        spacing: { before: 240, after: 120 },
+      })
+    );
+  }
+
+  blocks.push(
+    new TableOfContents(toc.title || 'Contents', {
+      hyperlink: true,
+      headingStyleRange: `1-${toc.depth}`,
+    }),
+    new Paragraph({ spacing: { after: 200 } })
+  );
+
+  return blocks;
+}
+
 /**
  * Render a single AST node to DOCX paragraphs
  */
-function renderNodeToDocx(node: unknown): Paragraph[] {
+function renderNodeToDocx(
+  node: unknown,
+  styles: DocxStyles,
+  numbering: ListNumbering,
+  images: ImageMap
+): DocxBlock[] {
   const n = node as {
     type: string;
     depth?: number;
     value?: string;
     children?: unknown[];
     ordered?: boolean;
+    start?: number | null;
     lang?: string;
     url?: string;
   };
 
   switch (n.type) {
     case 'heading':
-      return renderHeading(n);
+      return renderHeading(n, styles);
 
     case 'paragraph':
-      return renderParagraph(n);
+      return renderParagraph(n, styles, images);
 
     case 'list':
-      return renderList(n);
+      return renderList(n, styles, numbering, images);
 
     case 'code':
-      return renderCodeBlock(n);
+      return renderCodeBlock(n, styles);
 
     case 'blockquote':
-      return renderBlockquote(n);
+      return renderBlockquote(n, styles, numbering, images);
+
+    case 'table':
+      return renderTable(n, styles);
 
     case 'thematicBreak':
       return renderHorizontalRule();
@@ -162,83 +570,200 @@ function renderNodeToDocx(node: unknown): Paragraph[] {
 /**
  * Render a heading
  */
-function renderHeading(node: { depth?: number; children?: unknown[] }): Paragraph[] {
+function renderHeading(
+  node: { depth?: number; children?: unknown[] },
+  styles: DocxStyles
+): Paragraph[] {
   const depth = Math.min(node.depth || 1, 6);
-  const textRuns = extractTextRunsAsDocx(node);
+  const textRuns = extractTextRunsAsDocx(node, styles);
 
   return [
     new Paragraph({
       children: textRuns,
       heading: HEADING_LEVELS[depth],
-      spacing: { before: 240, after: 120 },
     }),
   ];
 }
 
 /**
- * Render a paragraph
+ * Render a paragraph, placing any images in their own paragraphs
  */
-function renderParagraph(node: { children?: unknown[] }): Paragraph[] {
-  const textRuns = extractTextRunsAsDocx(node);
+function renderParagraph(
+  node: { children?: unknown[] },
+  styles: DocxStyles,
+  images: ImageMap
+): Paragraph[] {
+  const blocks = splitImages(node.children || []);
 
-  return [
-    new Paragraph({
-      children: textRuns,
-      spacing: { after: 200 },
-    }),
-  ];
+  if (!blocks.some((block) => 'image' in block)) {
+    return [
+      new Paragraph({ children: extractTextRunsAsDocx(node, styles), spacing: { after: 200 } }),
+    ];
+  }
+
+  const paragraphs: Paragraph[] = [];
+  for (const block of blocks) {
+    if ('image' in block) {
+      paragraphs.push(renderImage(block.image, styles, images));
+      continue;
+    }
+
+    const textRuns = extractTextRunsAsDocx({ children: block.inline }, styles);
+    if (textRuns.length > 0) {
+      paragraphs.push(new Paragraph({ children: textRuns, spacing: { after: 200 } }));
+    }
+  }
+
+  return paragraphs;
 }
 
 /**
- * Render a list
+ * Render an image scaled to the page width, falling back to its alt text
  */
-function renderList(node: { ordered?: boolean; children?: unknown[] }): Paragraph[] {
-  const paragraphs: Paragraph[] = [];
-  const items = node.children || [];
-  const isOrdered = node.ordered || false;
+function renderImage(
+  node: { url: string; alt?: string | null; title?: string | null },
+  styles: DocxStyles,
+  images: ImageMap
+): Paragraph {
+  const image = images.get(node.url);
+  const alt = node.alt || '';
 
-  items.forEach((item, index) => {
-    const textRuns = extractTextRunsAsDocx(item);
-    const bullet = isOrdered ? `${index + 1}.` : '•';
+  if (!image) {
+    return new Paragraph({
+      children: [new TextRun({ text: alt || node.url, italics: true, color: '6A737D' })],
+      spacing: { after: 200 },
+    });
+  }
 
-    paragraphs.push(
-      new Paragraph({
-        children: [new TextRun({ text: `${bullet} ` }), ...textRuns],
-        indent: { left: convertInchesToTwip(0.5) },
-        spacing: { after: 100 },
-      })
-    );
+  const contentWidth =
+    (PAGE_WIDTH_TWIPS -
+      convertInchesToTwip(styles.margins?.left ?? 1) -
+      convertInchesToTwip(styles.margins?.right ?? 1)) /
+    TWIPS_PER_PX;
+  const scale = Math.min(1, contentWidth / image.width);
+
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        data: image.data,
+        transformation: {
+          width: Math.round(image.width * scale),
+          height: Math.round(image.height * scale),
+        },
+        altText: { name: alt, title: node.title || alt, description: alt },
+      }),
+    ],
+    spacing: { after: 200 },
   });
+}
 
-  return paragraphs;
+/**
+ * Render a list as native Word numbered/bulleted paragraphs, recursing into nested lists
+ */
+function renderList(
+  node: { ordered?: boolean; start?: number | null; children?: unknown[] },
+  styles: DocxStyles,
+  numbering: ListNumbering,
+  images: ImageMap,
+  level = 0
+): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  const ref = numbering.allocate(node, level);
+  const indent = { left: LIST_INDENT_TWIPS * (level + 1) };
+
+  for (const item of node.children || []) {
+    const { checked, children = [] } = item as {
+      checked?: boolean | null;
+      children?: { type: string; children?: unknown[] }[];
+    };
+    const isTask = typeof checked === 'boolean';
+    let marked = false;
+
+    for (const child of children) {
+      if (child.type === 'list') {
+        blocks.push(...renderList(child, styles, numbering, images, level + 1));
+      } else if (child.type === 'paragraph') {
+        const textRuns = extractTextRunsAsDocx(child, styles);
+
+        if (marked) {
+          blocks.push(new Paragraph({ children: textRuns, indent, spacing: { after: 100 } }));
+        } else if (isTask) {
+          // Task items carry a checkbox instead of a bullet
+          blocks.push(
+            new Paragraph({
+              children: [new TextRun({ text: `${checked ? '☑' : '☐'} ` }), ...textRuns],
+              indent,
+              spacing: { after: 100 },
+            })
+          );
+        } else {
+          blocks.push(
+            new Paragraph({
+              children: textRuns,
+              numbering: { ...ref, level },
+              spacing: { after: 100 },
+            })
+          );
+        }
+        marked = true;
+      } else {
+        blocks.push(...renderNodeToDocx(child, styles, numbering, images));
+      }
+    }
+
+    if (!marked && !isTask) {
+      blocks.push(new Paragraph({ numbering: { ...ref, level }, spacing: { after: 100 } }));
+    }
+  }
+
+  return blocks;
 }
 
 /**
- * Render a code block
+ * Render a code block, one paragraph per line, with coloured runs when highlighting is enabled
  */
-function renderCodeBlock(node: { value?: string }): Paragraph[] {
+function renderCodeBlock(node: { value?: string; lang?: string }, styles: DocxStyles): Paragraph[] {
   const code = node.value || '';
-  const lines = code.split('\n');
+  const highlight = resolveHighlightOptions(styles.highlight);
+  const lines = highlight
+    ? highlightLines(code, node.lang)
+    : code.split('\n').map((line) => (line ? [{ text: line, scopes: [] }] : []));
+  const numberWidth = String(lines.length).length;
 
   const paragraphs: Paragraph[] = [];
 
-  for (const line of lines) {
+  lines.forEach((tokens, index) => {
+    const children: TextRun[] = [];
+
+    if (highlight?.lineNumbers) {
+      children.push(
+        new TextRun({
+          text: `${String(index + 1).padStart(numberWidth)}  `,
+          color: hexColor(highlight.theme.lineNumber),
+        })
+      );
+    }
+
+    for (const token of tokens) {
+      children.push(
+        new TextRun({
+          text: token.text,
+          color: highlight ? hexColor(tokenColor(token, highlight.theme)) : undefined,
+        })
+      );
+    }
+
     paragraphs.push(
       new Paragraph({
-        children: [
-          new TextRun({
-            text: line || ' ', // Empty lines need a space
-            font: 'Courier New',
-            size: 20, // 10pt in half-points
-          }),
-        ],
+        // Empty lines need a space
+        children: children.length > 0 ? children : [new TextRun({ text: ' ' })],
+        style: CODE_STYLE_ID,
         shading: {
-          fill: 'F6F8FA',
+          fill: highlight ? hexColor(highlight.theme.background) : 'F6F8FA',
         },
-        spacing: { after: 0 },
       })
     );
-  }
+  });
 
   // Add spacing after code block
   if (paragraphs.length > 0) {
@@ -249,26 +774,36 @@ function renderCodeBlock(node: { value?: string }): Paragraph[] {
 }
 
 /**
- * Render a blockquote
+ * Convert a #rrggbb colour to the bare hex form Word expects
  */
-function renderBlockquote(node: { children?: unknown[] }): Paragraph[] {
-  const paragraphs: Paragraph[] = [];
+function hexColor(color: string): string {
+  return color.replace(/^#/, '').toUpperCase();
+}
+
+/**
+ * Render a blockquote; paragraphs keep their inline formatting and links,
+ * other blocks render as they would outside the quote
+ */
+function renderBlockquote(
+  node: { children?: unknown[] },
+  styles: DocxStyles,
+  numbering: ListNumbering,
+  images: ImageMap
+): DocxBlock[] {
+  const paragraphs: DocxBlock[] = [];
 
   // Process children of blockquote
   const children = node.children || [];
   for (const child of children) {
-    const textRuns = extractTextRuns(child);
+    if ((child as { type?: string }).type !== 'paragraph') {
+      paragraphs.push(...renderNodeToDocx(child, styles, numbering, images));
+      continue;
+    }
+
     paragraphs.push(
       new Paragraph({
-        children: textRuns.map(
-          (run) =>
-            new TextRun({
-              text: run.text,
-              italics: true,
-              color: '6A737D',
-            })
-        ),
-        indent: { left: convertInchesToTwip(0.5) },
+        children: extractTextRunsAsDocx(child, styles),
+        style: QUOTE_STYLE_ID,
         border: {
           left: {
             style: BorderStyle.SINGLE,
@@ -284,6 +819,67 @@ function renderBlockquote(node: { children?: unknown[] }): Paragraph[] {
   return paragraphs;
 }
 
+/**
+ * Render a table as a native Word table with a repeating header row
+ */
+function renderTable(
+  node: { align?: (string | null)[]; children?: unknown[] },
+  styles: DocxStyles
+): DocxBlock[] {
+  const rows = (node.children || []).map((row) => (row as { children?: unknown[] }).children || []);
+  const columnCount = Math.max(0, ...rows.map((cells) => cells.length));
+
+  if (columnCount === 0) {
+    return [];
+  }
+
+  const align = node.align || [];
+  const contentWidth =
+    PAGE_WIDTH_TWIPS -
+    convertInchesToTwip(styles.margins?.left ?? 1) -
+    convertInchesToTwip(styles.margins?.right ?? 1);
+  const columnWidth = Math.floor(contentWidth / columnCount);
+  const border = { style: BorderStyle.SINGLE, size: 4, color: 'DFE2E5' };
+
+  const table = new Table({
+    width: { size: columnWidth * columnCount, type: WidthType.DXA },
+    columnWidths: new Array<number>(columnCount).fill(columnWidth),
+    borders: {
+      top: border,
+      bottom: border,
+      left: border,
+      right: border,
+      insideHorizontal: border,
+      insideVertical: border,
+    },
+    rows: rows.map((cells, rowIndex) => {
+      const isHeader = rowIndex === 0;
+
+      return new TableRow({
+        tableHeader: isHeader,
+        children: Array.from(
+          { length: columnCount },
+          (_, cellIndex) =>
+            new TableCell({
+              width: { size: columnWidth, type: WidthType.DXA },
+              shading: isHeader ? { fill: 'F6F8FA' } : undefined,
+              margins: { top: 60, bottom: 60, left: 100, right: 100 },
+              children: [
+                new Paragraph({
+                  children: extractTextRunsAsDocx(cells[cellIndex] ?? {}, styles, isHeader),
+                  alignment: CELL_ALIGNMENTS[align[cellIndex] ?? ''],
+                }),
+              ],
+            })
+        ),
+      });
+    }),
+  });
+
+  // Spacing after the table (also keeps consecutive tables from merging)
+  return [table, new Paragraph({ spacing: { after: 200 } })];
+}
+
 /**
  * Render a horizontal rule
  */
@@ -302,12 +898,25 @@ function renderHorizontalRule(): Paragraph[] {
   ];
 }
 
+/**
+ * Inline text run with formatting flags
+ */
+interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  /** Target of the link the run belongs to */
+  link?: string;
+  /** Hard line break before the run's text */
+  lineBreak?: boolean;
+}
+
 /**
  * Extract text runs from a node, handling inline formatting
  */
-function extractTextRuns(
-  node: unknown
-): { text: string; bold?: boolean; italic?: boolean; code?: boolean }[] {
+function extractTextRuns(node: unknown): InlineRun[] {
   const n = node as {
     type?: string;
     value?: string;
@@ -323,12 +932,14 @@ function extractTextRuns(
     return [];
   }
 
-  const runs: { text: string; bold?: boolean; italic?: boolean; code?: boolean }[] = [];
+  const runs: InlineRun[] = [];
 
   for (const child of n.children) {
     const c = child as {
       type?: string;
       value?: string;
+      alt?: string | null;
+      url?: string;
       children?: unknown[];
     };
 
@@ -349,13 +960,30 @@ function extractTextRuns(
         }
         break;
 
+      case 'delete':
+        for (const subRun of extractTextRuns(c)) {
+          runs.push({ ...subRun, strike: true });
+        }
+        break;
+
       case 'inlineCode':
         runs.push({ text: c.value || '', code: true });
         break;
 
+      case 'break':
+        runs.push({ text: '', lineBreak: true });
+        break;
+
       case 'link':
         for (const subRun of extractTextRuns(c)) {
-          runs.push(subRun);
+          runs.push({ ...subRun, link: c.url });
+        }
+        break;
+
+      case 'image':
+        // Inline images inside lists and table cells are represented by their alt text
+        if (c.alt) {
+          runs.push({ text: c.alt, italic: true });
         }
         break;
 
@@ -369,18 +997,46 @@ function extractTextRuns(
 }
 
 /**
- * Convert extracted runs to TextRun objects
+ * Convert extracted runs to TextRun objects, grouping runs of the same
+ * external link into a hyperlink
  */
-function extractTextRunsAsDocx(node: unknown): TextRun[] {
-  const runs = extractTextRuns(node);
-  return runs.map(
-    (run) =>
-      new TextRun({
-        text: run.text,
-        bold: run.bold,
-        italics: run.italic,
-        font: run.code ? 'Courier New' : undefined,
-        size: run.code ? 20 : undefined,
-      })
-  );
+function extractTextRunsAsDocx(node: unknown, styles: DocxStyles, bold = false): ParagraphChild[] {
+  const children: ParagraphChild[] = [];
+  let hyperlink: { link: string; runs: TextRun[] } | undefined;
+
+  const flush = (): void => {
+    if (hyperlink) {
+      children.push(new ExternalHyperlink({ link: hyperlink.link, children: hyperlink.runs }));
+      hyperlink = undefined;
+    }
+  };
+
+  for (const run of extractTextRuns(node)) {
+    const external = run.link && !run.link.startsWith('#') ? run.link : undefined;
+    const textRun = new TextRun({
+      text: run.text,
+      break: run.lineBreak ? 1 : undefined,
+      bold: run.bold || bold || undefined,
+      italics: run.italic,
+      strike: run.strike,
+      font: run.code ? styles.codeFontFamily : undefined,
+      size: run.code ? styles.fontSize?.code : undefined,
+      style: external ? 'Hyperlink' : undefined,
+    });
+
+    if (external && hyperlink?.link === external) {
+      hyperlink.runs.push(textRun);
+      continue;
+    }
+
+    flush();
+    if (external) {
+      hyperlink = { link: external, runs: [textRun] };
+    } else {
+      children.push(textRun);
+    }
+  }
+  flush();
+
+  return children;
 }
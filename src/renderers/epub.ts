@@ -0,0 +1,435 @@
+import JSZip from 'jszip';
+import { randomUUID } from 'crypto';
+import type { Root, Content } from 'mdast';
+import type { RenderOptions, DocumentMetadata, EpubStyles, TocEntry } from '../types/index.js';
+import { extractTitle, extractNodeText } from '../core/ast.js';
+import { resolveTocOptions, collectHeadings, buildTocTree, type TocTreeNode } from '../core/toc.js';
+import { resolveHighlightOptions } from '../core/highlight.js';
+import { escapeHtml as escapeXml } from '../templates/engine.js';
+import { renderHtmlFragments, buildHtmlStyles } from './html.js';
+import { ConversionError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { resolveImages, type ImageType } from '../utils/images.js';
+
+/**
+ * Default heading level that starts a new chapter
+ */
+const DEFAULT_CHAPTER_DEPTH = 1;
+
+/**
+ * Default depth of the navigation table of contents
+ */
+const DEFAULT_NAV_DEPTH = 3;
+
+/**
+ * Adjustments to the HTML styles for reading systems
+ */
+const EPUB_STYLES = `
+  body {
+    max-width: none;
+    margin: 0;
+    padding: 0 0.5em;
+  }
+  pre {
+    white-space: pre-wrap;
+  }
+  nav ol {
+    list-style: none;
+  }
+`;
+
+/**
+ * Media types of the image formats reading systems support
+ */
+const IMAGE_MEDIA_TYPES: Partial<Record<ImageType, string>> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+};
+
+/**
+ * Container file pointing reading systems at the package document
+ */
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+/**
+ * A chapter of the book, written as one XHTML file
+ */
+interface Chapter {
+  file: string;
+  title: string;
+  nodes: Content[];
+}
+
+/**
+ * Entry in the navigation document and NCX
+ */
+interface NavPoint {
+  label: string;
+  href: string;
+  children: NavPoint[];
+}
+
+/**
+ * Image packaged in the book
+ */
+interface BookImage {
+  href: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+/**
+ * Render AST to EPUB 3 buffer
+ */
+export async function renderEpub(ast: Root, options: RenderOptions = {}): Promise<Buffer> {
+  try {
+    logger.debug('Rendering to EPUB');
+
+    const styles = options.styles?.epub ?? {};
+    const metadata = options.metadata ?? {};
+    const title = metadata.title || extractTitle(ast) || 'Document';
+    const language = typeof metadata.language === 'string' ? metadata.language : 'en';
+    const identifier =
+      typeof metadata.identifier === 'string' ? metadata.identifier : `urn:uuid:${randomUUID()}`;
+
+    const headings = collectHeadings(ast);
+    const chapters = splitChapters(ast, chapterDepth(styles), title);
+    const images = await packageImages(ast, options);
+
+    const content = renderHtmlFragments(
+      ast,
+      chapters.map((chapter) => chapter.nodes),
+      {
+        xhtml: true,
+        headingIds: new Map(Array.from(headings, ([node, entry]) => [node, entry.id])),
+        highlight: resolveHighlightOptions(options.highlight),
+        imageSources: new Map(Array.from(images, ([url, image]) => [url, image.href])),
+        linkTargets: buildLinkTargets(chapters, headings),
+      }
+    );
+
+    const toc = resolveTocOptions(options.toc);
+    const navPoints = buildNavPoints(chapters, headings, toc?.depth ?? DEFAULT_NAV_DEPTH);
+    const navTitle = toc?.title || 'Contents';
+
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+    zip.file(
+      'OEBPS/content.opf',
+      buildPackage(metadata, title, language, identifier, chapters, images, Boolean(toc))
+    );
+    zip.file('OEBPS/nav.xhtml', buildNav(navPoints, navTitle, language));
+    zip.file('OEBPS/toc.ncx', buildNcx(navPoints, title, identifier));
+    zip.file('OEBPS/styles.css', buildStylesheet(styles));
+
+    chapters.forEach((chapter, index) => {
+      zip.file(
+        `OEBPS/${chapter.file}`,
+        xhtmlDocument(chapter.title, language, `<section>\n${content[index]}\n</section>`)
+      );
+    });
+    for (const image of images.values()) {
+      zip.file(`OEBPS/${image.href}`, image.data);
+    }
+
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    logger.debug('EPUB rendering complete', { size: buffer.length, chapters: chapters.length });
+    return buffer;
+  } catch (error) {
+    throw new ConversionError(
+      `Failed to render EPUB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'epub',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Validate and resolve the chapter heading level
+ */
+function chapterDepth(styles: EpubStyles): number {
+  const depth = styles.chapterDepth ?? DEFAULT_CHAPTER_DEPTH;
+  if (!Number.isInteger(depth) || depth < 1 || depth > 6) {
+    throw new ValidationError('EPUB chapterDepth must be an integer from 1 to 6', 'styles');
+  }
+  return depth;
+}
+
+/**
+ * Split the top-level nodes into chapters, starting a new chapter at each
+ * heading of the chapter level or above
+ */
+function splitChapters(ast: Root, depth: number, bookTitle: string): Chapter[] {
+  const groups: Content[][] = [];
+
+  for (const node of ast.children) {
+    const startsChapter = node.type === 'heading' && node.depth <= depth;
+    if (groups.length === 0 || (startsChapter && groups[groups.length - 1].length > 0)) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(node);
+  }
+
+  if (groups.length === 0) {
+    groups.push([]);
+  }
+
+  return groups.map((nodes, index) => {
+    const first = nodes[0];
+    const heading = first?.type === 'heading' && first.depth <= depth ? first : undefined;
+    return {
+      file: `chapter-${index + 1}.xhtml`,
+      title: heading ? extractNodeText(heading).trim() || bookTitle : bookTitle,
+      nodes,
+    };
+  });
+}
+
+/**
+ * Map each heading ID to its location in the chapter files, so `#id` links
+ * still reach headings that end up in another chapter
+ */
+function buildLinkTargets(
+  chapters: Chapter[],
+  headings: Map<Content, TocEntry>
+): Map<string, string> {
+  const targets = new Map<string, string>();
+
+  for (const chapter of chapters) {
+    for (const node of chapter.nodes) {
+      const entry = headings.get(node);
+      if (entry) {
+        targets.set(entry.id, `${chapter.file}#${entry.id}`);
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Load the document's images, keeping those in formats reading systems support
+ */
+async function packageImages(ast: Root, options: RenderOptions): Promise<Map<string, BookImage>> {
+  const resolved = await resolveImages(ast, options);
+  const images = new Map<string, BookImage>();
+
+  for (const [url, image] of resolved) {
+    const mediaType = IMAGE_MEDIA_TYPES[image.type];
+    if (!mediaType) {
+      logger.warn(`Skipping ${image.type} image not supported in EPUB: ${url}`);
+      continue;
+    }
+    images.set(url, {
+      href: `images/image-${images.size + 1}.${image.type}`,
+      mediaType,
+      data: image.data,
+    });
+  }
+
+  return images;
+}
+
+/**
+ * Build the navigation entries: headings up to the given depth, linked into
+ * their chapter files, preceded by any chapter that has no heading
+ */
+function buildNavPoints(
+  chapters: Chapter[],
+  headings: Map<Content, TocEntry>,
+  depth: number
+): NavPoint[] {
+  const files = new Map<string, string>();
+  const entries: TocEntry[] = [];
+  const untitled: NavPoint[] = [];
+
+  for (const chapter of chapters) {
+    let listed = false;
+    for (const node of chapter.nodes) {
+      const entry = headings.get(node);
+      if (entry && entry.depth <= depth && entry.text) {
+        files.set(entry.id, chapter.file);
+        entries.push(entry);
+        listed = true;
+      }
+    }
+    if (!listed) {
+      untitled.push({ label: chapter.title, href: chapter.file, children: [] });
+    }
+  }
+
+  const toNavPoints = (nodes: TocTreeNode[]): NavPoint[] =>
+    nodes.map(({ entry, children }) => ({
+      label: entry.text,
+      href: `${files.get(entry.id)}#${entry.id}`,
+      children: toNavPoints(children),
+    }));
+
+  return [...untitled, ...toNavPoints(buildTocTree(entries))];
+}
+
+/**
+ * Build the OPF package document: Dublin Core metadata, manifest and spine
+ */
+function buildPackage(
+  metadata: DocumentMetadata,
+  title: string,
+  language: string,
+  identifier: string,
+  chapters: Chapter[],
+  images: Map<string, BookImage>,
+  navInSpine: boolean
+): string {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const dc = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    metadata.author && `<dc:creator>${escapeXml(metadata.author)}</dc:creator>`,
+    typeof metadata.publisher === 'string' &&
+      `<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`,
+    metadata.date && `<dc:date>${escapeXml(metadata.date)}</dc:date>`,
+    metadata.description && `<dc:description>${escapeXml(metadata.description)}</dc:description>`,
+    ...(metadata.keywords ?? []).map((keyword) => `<dc:subject>${escapeXml(keyword)}</dc:subject>`),
+    `<meta property="dcterms:modified">${modified}</meta>`,
+  ].filter(Boolean);
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...chapters.map(
+      (chapter, index) =>
+        `<item id="chapter-${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"/>`
+    ),
+    ...Array.from(images.values()).map(
+      (image, index) =>
+        `<item id="image-${index + 1}" href="${image.href}" media-type="${image.mediaType}"/>`
+    ),
+  ];
+
+  const spine = [
+    ...(navInSpine ? ['<itemref idref="nav"/>'] : []),
+    ...chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${dc.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+}
+
+/**
+ * Build the EPUB 3 navigation document
+ */
+function buildNav(points: NavPoint[], title: string, language: string): string {
+  const renderLevel = (nodes: NavPoint[]): string => {
+    const items = nodes.map((point) => {
+      const link = `<a href="${escapeXml(point.href)}">${escapeXml(point.label)}</a>`;
+      const children = point.children.length > 0 ? `\n${renderLevel(point.children)}\n` : '';
+      return `<li>${link}${children}</li>`;
+    });
+    return `<ol>\n${items.join('\n')}\n</ol>`;
+  };
+
+  return xhtmlDocument(
+    title,
+    language,
+    `<nav epub:type="toc" id="toc">\n<h1>${escapeXml(title)}</h1>\n${renderLevel(points)}\n</nav>`
+  );
+}
+
+/**
+ * Build the NCX table of contents for EPUB 2 reading systems
+ */
+function buildNcx(points: NavPoint[], title: string, identifier: string): string {
+  let playOrder = 0;
+  let maxDepth = 1;
+
+  const renderLevel = (nodes: NavPoint[], level: number): string[] => {
+    if (nodes.length > 0) {
+      maxDepth = Math.max(maxDepth, level);
+    }
+    return nodes.flatMap((point) => {
+      playOrder++;
+      const indent = '  '.repeat(level + 1);
+      return [
+        `${indent}<navPoint id="navpoint-${playOrder}" playOrder="${playOrder}">`,
+        `${indent}  <navLabel><text>${escapeXml(point.label)}</text></navLabel>`,
+        `${indent}  <content src="${escapeXml(point.href)}"/>`,
+        ...renderLevel(point.children, level + 1),
+        `${indent}</navPoint>`,
+      ];
+    });
+  };
+
+  const navMap = renderLevel(points, 1);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="${maxDepth}"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${navMap.join('\n')}
+  </navMap>
+</ncx>
+`;
+}
+
+/**
+ * Build the stylesheet shared by every content document
+ */
+function buildStylesheet(styles: EpubStyles): string {
+  const parts: string[] = [];
+
+  if (styles.includeDefaultStyles !== false) {
+    parts.push(buildHtmlStyles(), EPUB_STYLES);
+  }
+  if (styles.css) {
+    parts.push(styles.css);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Wrap body content in an XHTML content document
+ */
+function xhtmlDocument(title: string, language: string, body: string): string {
+  const lang = escapeXml(language);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -1,5 +1,20 @@
-import type { Root } from 'mdast';
-import type { RenderOptions, DocumentMetadata } from '../types/index.js';
+import type { Root, Content } from 'mdast';
+import type { RenderOptions, DocumentMetadata, HtmlStyles, TocOptions } from '../types/index.js';
+import { walkAst } from '../core/ast.js';
+import { renderTemplate, raw, escapeHtml } from '../templates/engine.js';
+import {
+  resolveTocOptions,
+  collectHeadings,
+  collectToc,
+  buildTocTree,
+  type TocTreeNode,
+} from '../core/toc.js';
+import {
+  resolveHighlightOptions,
+  highlightLines,
+  tokenColor,
+  type ResolvedHighlight,
+} from '../core/highlight.js';
 import { ConversionError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -117,215 +132,490 @@ const DEFAULT_STYLES = `
     max-width: 100%;
     height: auto;
   }
+  .toc ul {
+    list-style: none;
+    padding-left: 1.5em;
+  }
+  .toc > ul {
+    padding-left: 0;
+  }
+  .toc-title {
+    font-weight: 600;
+  }
+  .line-number {
+    display: inline-block;
+    margin-right: 1em;
+    user-select: none;
+  }
 `;
 
 /**
  * Render AST to HTML string
  */
-export async function renderHtml(ast: Root, options: RenderOptions = {}): Promise<string> {
+export function renderHtml(ast: Root, options: RenderOptions = {}): Promise<string> {
   try {
     logger.debug('Rendering to HTML');
 
     // Convert AST to HTML content
-    const htmlContent = await astToHtml(ast);
+    const htmlContent = astToHtml(
+      ast,
+      resolveTocOptions(options.toc),
+      resolveHighlightOptions(options.highlight)
+    );
 
     // Apply template
     const template = options.template?.content || DEFAULT_TEMPLATE;
-    const html = applyTemplate(template, htmlContent, options.metadata);
+    const html = applyTemplate(template, htmlContent, options.metadata, options.styles?.html);
 
     logger.debug('HTML rendering complete', { length: html.length });
-    return html;
+    return Promise.resolve(html);
   } catch (error) {
-    throw new ConversionError(
-      `Failed to render HTML: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'html',
-      error instanceof Error ? error : undefined
+    return Promise.reject(
+      new ConversionError(
+        `Failed to render HTML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'html',
+        error instanceof Error ? error : undefined
+      )
     );
   }
 }
 
 /**
- * Convert AST to HTML content string
+ * State shared while serializing a document
  */
-async function astToHtml(ast: Root): Promise<string> {
-  // Use a processor that goes directly from mdast to html
-  const { visit } = await import('unist-util-visit');
-
-  const htmlParts: string[] = [];
-
-  visit(ast, (node) => {
-    switch (node.type) {
-      case 'heading': {
-        const level = (node as { depth: number }).depth;
-        const text = extractText(node);
-        htmlParts.push(`<h${level}>${escapeHtml(text)}</h${level}>`);
-        break;
-      }
-      case 'paragraph': {
-        const text = extractText(node);
-        htmlParts.push(`<p>${escapeHtml(text)}</p>`);
-        break;
-      }
-      case 'list': {
-        const listNode = node as { ordered?: boolean; children: unknown[] };
-        const tag = listNode.ordered ? 'ol' : 'ul';
-        const items = listNode.children
-          .map((child) => `<li>${escapeHtml(extractText(child))}</li>`)
-          .join('\n');
-        htmlParts.push(`<${tag}>\n${items}\n</${tag}>`);
-        break;
-      }
-      case 'code': {
-        const codeNode = node as { value: string; lang?: string };
-        const lang = codeNode.lang ? ` class="language-${codeNode.lang}"` : '';
-        htmlParts.push(`<pre><code${lang}>${escapeHtml(codeNode.value)}</code></pre>`);
-        break;
-      }
-      case 'blockquote': {
-        const text = extractText(node);
-        htmlParts.push(`<blockquote>${escapeHtml(text)}</blockquote>`);
-        break;
-      }
-      case 'thematicBreak': {
-        htmlParts.push('<hr>');
-        break;
-      }
+interface SerializeContext {
+  /** Link/image reference definitions, keyed by normalized identifier */
+  definitions: Map<string, { url: string; title?: string | null }>;
+  /** Anchor IDs for headings, set when a table of contents is generated */
+  headingIds?: Map<unknown, string>;
+  /** Syntax highlighting settings, set when code blocks are highlighted */
+  highlight?: ResolvedHighlight;
+  /** Emit well-formed XHTML */
+  xhtml?: boolean;
+  /** Rewritten image sources keyed by URL */
+  imageSources?: Map<string, string>;
+  /** Rewritten targets of in-document links keyed by fragment ID */
+  linkTargets?: Map<string, string>;
+}
+
+/**
+ * Loosely typed mdast node used while serializing
+ */
+interface HtmlNode {
+  type: string;
+  children?: HtmlNode[];
+  value?: string;
+  depth?: number;
+  ordered?: boolean | null;
+  start?: number | null;
+  spread?: boolean | null;
+  checked?: boolean | null;
+  lang?: string | null;
+  url?: string;
+  title?: string | null;
+  alt?: string | null;
+  identifier?: string;
+  label?: string | null;
+  align?: (string | null)[] | null;
+}
+
+/**
+ * Options for serializing parts of a document as HTML fragments
+ */
+export interface HtmlFragmentOptions {
+  /** Anchor IDs for headings */
+  headingIds?: Map<unknown, string>;
+  /** Syntax highlighting settings */
+  highlight?: ResolvedHighlight;
+  /** Emit well-formed XHTML (self-closed void elements, valued attributes) */
+  xhtml?: boolean;
+  /** Rewritten image sources keyed by URL; images missing from the map render as their alt text */
+  imageSources?: Map<string, string>;
+  /** Targets for `#id` links keyed by ID, for fragments split across files */
+  linkTargets?: Map<string, string>;
+}
+
+/**
+ * Serialize groups of top-level nodes from a document as separate HTML fragments.
+ * References in any fragment resolve against definitions anywhere in the document.
+ */
+export function renderHtmlFragments(
+  ast: Root,
+  parts: Content[][],
+  options: HtmlFragmentOptions = {}
+): string[] {
+  const context = createSerializeContext(ast, options);
+  return parts.map((nodes) => renderBlocks(nodes as HtmlNode[], context));
+}
+
+/**
+ * Create the serialization state for a document
+ */
+function createSerializeContext(ast: Root, options: HtmlFragmentOptions): SerializeContext {
+  const context: SerializeContext = { definitions: new Map(), ...options };
+
+  // Collect definitions up front so references can be resolved anywhere in the tree
+  walkAst(ast, (node) => {
+    if (node.type === 'definition') {
+      context.definitions.set(normalizeIdentifier(node.identifier), {
+        url: node.url,
+        title: node.title,
+      });
     }
   });
 
-  // If no content was generated, try a simple fallback
-  if (htmlParts.length === 0) {
-    return renderAstSimple(ast);
+  return context;
+}
+
+/**
+ * Convert AST to HTML content string
+ */
+function astToHtml(ast: Root, toc?: Required<TocOptions>, highlight?: ResolvedHighlight): string {
+  const context = createSerializeContext(ast, {
+    highlight,
+    // Headings get anchor IDs for the table of contents to link to
+    headingIds: toc
+      ? new Map(Array.from(collectHeadings(ast), ([node, entry]) => [node, entry.id]))
+      : undefined,
+  });
+
+  const content = renderBlocks(ast.children as HtmlNode[], context);
+  if (!toc) {
+    return content;
   }
 
-  return htmlParts.join('\n');
+  const entries = collectToc(ast, toc);
+  return entries.length > 0
+    ? `${renderToc(buildTocTree(entries), toc.title)}\n${content}`
+    : content;
 }
 
 /**
- * Simple AST to HTML renderer (fallback)
+ * Render a table of contents as nested lists of links to the headings
  */
-function renderAstSimple(ast: Root): string {
-  const parts: string[] = [];
+function renderToc(tree: TocTreeNode[], title: string): string {
+  const renderLevel = (nodes: TocTreeNode[]): string => {
+    const items = nodes.map(({ entry, children }) => {
+      const link = `<a href="#${escapeHtml(entry.id)}">${escapeHtml(entry.text)}</a>`;
+      return `<li>${link}${children.length > 0 ? `\n${renderLevel(children)}\n` : ''}</li>`;
+    });
+    return `<ul>\n${items.join('\n')}\n</ul>`;
+  };
+
+  const heading = title ? `<p class="toc-title">${escapeHtml(title)}</p>\n` : '';
+  return `<nav class="toc">\n${heading}${renderLevel(tree)}\n</nav>`;
+}
 
-  for (const node of ast.children) {
-    parts.push(renderNode(node));
+/**
+ * Render a code block, as coloured token spans when highlighting is enabled
+ */
+function renderCodeBlock(node: HtmlNode, context: SerializeContext): string {
+  const lang = node.lang ? ` class="language-${escapeHtml(node.lang)}"` : '';
+  const highlight = context.highlight;
+  if (!highlight) {
+    return `<pre><code${lang}>${escapeHtml(node.value || '')}</code></pre>`;
   }
 
-  return parts.join('\n');
+  const { theme, lineNumbers } = highlight;
+  const lines = highlightLines(node.value || '', node.lang);
+  const numberWidth = String(lines.length).length;
+
+  const html = lines.map((tokens, index) => {
+    const code = tokens
+      .map((token) => {
+        const scope = token.scopes[token.scopes.length - 1];
+        if (!scope) {
+          return escapeHtml(token.text);
+        }
+        const color = tokenColor(token, theme);
+        return `<span class="hljs-${escapeHtml(scope)}" style="color: ${color}">${escapeHtml(token.text)}</span>`;
+      })
+      .join('');
+
+    if (!lineNumbers) {
+      return code;
+    }
+    const number = String(index + 1).padStart(numberWidth);
+    return `<span class="line-number" style="color: ${theme.lineNumber}">${number}</span>${code}`;
+  });
+
+  const style = `background-color: ${theme.background}; color: ${theme.foreground}`;
+  return `<pre class="highlight" style="${style}"><code${lang}>${html.join('\n')}</code></pre>`;
 }
 
 /**
- * Render a single AST node to HTML
+ * Render block-level nodes, one per line
  */
-function renderNode(node: unknown): string {
-  const n = node as { type: string; children?: unknown[]; value?: string; depth?: number; ordered?: boolean; lang?: string };
+function renderBlocks(nodes: HtmlNode[], context: SerializeContext): string {
+  return nodes
+    .map((node) => renderNode(node, context))
+    .filter((html) => html !== '')
+    .join('\n');
+}
 
-  switch (n.type) {
+/**
+ * Render the children of a node inline
+ */
+function renderChildren(node: HtmlNode, context: SerializeContext): string {
+  return (node.children || []).map((child) => renderNode(child, context)).join('');
+}
+
+/**
+ * Render a single AST node to HTML
+ */
+function renderNode(node: HtmlNode, context: SerializeContext): string {
+  switch (node.type) {
     case 'heading': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      return `<h${n.depth}>${text}</h${n.depth}>`;
-    }
-    case 'paragraph': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      return `<p>${text}</p>`;
+      const depth = Math.min(Math.max(node.depth || 1, 1), 6);
+      const id = context.headingIds?.get(node);
+      const idAttr = id ? ` id="${escapeHtml(id)}"` : '';
+      return `<h${depth}${idAttr}>${renderChildren(node, context)}</h${depth}>`;
     }
+    case 'paragraph':
+      return `<p>${renderChildren(node, context)}</p>`;
     case 'text':
-      return escapeHtml(n.value || '');
-    case 'strong': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      return `<strong>${text}</strong>`;
-    }
-    case 'emphasis': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      return `<em>${text}</em>`;
-    }
+    case 'html':
+      // Raw HTML is escaped rather than passed through
+      return escapeHtml(node.value || '');
+    case 'strong':
+      return `<strong>${renderChildren(node, context)}</strong>`;
+    case 'emphasis':
+      return `<em>${renderChildren(node, context)}</em>`;
+    case 'delete':
+      return `<del>${renderChildren(node, context)}</del>`;
     case 'inlineCode':
-      return `<code>${escapeHtml(n.value || '')}</code>`;
+      return `<code>${escapeHtml(node.value || '')}</code>`;
+    case 'break':
+      return `<br${voidEnd(context)}>\n`;
     case 'code':
-      return `<pre><code${n.lang ? ` class="language-${n.lang}"` : ''}>${escapeHtml(n.value || '')}</code></pre>`;
-    case 'list': {
-      const tag = n.ordered ? 'ol' : 'ul';
-      const items = n.children ? n.children.map((c) => renderNode(c)).join('\n') : '';
-      return `<${tag}>\n${items}\n</${tag}>`;
-    }
-    case 'listItem': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      // Remove wrapping <p> tags from list items
-      const cleanText = text.replace(/^<p>/, '').replace(/<\/p>$/, '');
-      return `<li>${cleanText}</li>`;
+      return renderCodeBlock(node, context);
+    case 'blockquote':
+      return `<blockquote>\n${renderBlocks(node.children || [], context)}\n</blockquote>`;
+    case 'list':
+      return renderList(node, context);
+    case 'listItem':
+      return renderListItem(node, !node.spread, context);
+    case 'table':
+      return renderTable(node, context);
+    case 'link':
+      return renderLink(node.url || '', node.title, renderChildren(node, context), context);
+    case 'image':
+      return renderImage(node.url || '', node.alt, node.title, context);
+    case 'linkReference': {
+      const definition = context.definitions.get(normalizeIdentifier(node.identifier));
+      const content = renderChildren(node, context);
+      return definition ? renderLink(definition.url, definition.title, content, context) : content;
     }
-    case 'blockquote': {
-      const text = n.children ? n.children.map((c) => renderNode(c)).join('') : '';
-      return `<blockquote>${text}</blockquote>`;
+    case 'imageReference': {
+      const definition = context.definitions.get(normalizeIdentifier(node.identifier));
+      return definition
+        ? renderImage(definition.url, node.alt, definition.title, context)
+        : escapeHtml(node.alt || '');
     }
-    case 'link': {
-      const linkNode = n as { url?: string; children?: unknown[] };
-      const text = linkNode.children ? linkNode.children.map((c) => renderNode(c)).join('') : '';
-      return `<a href="${escapeHtml(linkNode.url || '')}">${text}</a>`;
+    case 'footnoteReference': {
+      const id = escapeHtml(normalizeIdentifier(node.identifier));
+      return `<sup><a href="#fn-${id}" id="fnref-${id}">${escapeHtml(node.label || node.identifier || '')}</a></sup>`;
     }
-    case 'image': {
-      const imgNode = n as { url?: string; alt?: string };
-      return `<img src="${escapeHtml(imgNode.url || '')}" alt="${escapeHtml(imgNode.alt || '')}">`;
+    case 'footnoteDefinition': {
+      const id = escapeHtml(normalizeIdentifier(node.identifier));
+      return `<div class="footnote" id="fn-${id}">\n${renderBlocks(node.children || [], context)}\n</div>`;
     }
     case 'thematicBreak':
-      return '<hr>';
-    case 'break':
-      return '<br>';
-    default:
+      return `<hr${voidEnd(context)}>`;
+    case 'definition':
+    case 'yaml':
       return '';
+    default:
+      // Unknown nodes: keep their content rather than dropping it
+      if (node.children) {
+        return renderChildren(node, context);
+      }
+      return node.value ? escapeHtml(node.value) : '';
+  }
+}
+
+/**
+ * Render an ordered or unordered list
+ */
+function renderList(node: HtmlNode, context: SerializeContext): string {
+  const tag = node.ordered ? 'ol' : 'ul';
+  const start =
+    node.ordered && typeof node.start === 'number' && node.start !== 1
+      ? ` start="${node.start}"`
+      : '';
+  const items = node.children || [];
+
+  // A list is loose if it or any of its items is spread
+  const tight = !node.spread && !items.some((item) => item.spread);
+  const html = items.map((item) => renderListItem(item, tight, context)).join('\n');
+
+  return `<${tag}${start}>\n${html}\n</${tag}>`;
+}
+
+/**
+ * Render a list item; paragraphs in tight lists are unwrapped
+ */
+function renderListItem(node: HtmlNode, tight: boolean, context: SerializeContext): string {
+  const parts = (node.children || []).map((child) => {
+    const inline = tight && child.type === 'paragraph';
+    return {
+      html: inline ? renderChildren(child, context) : renderNode(child, context),
+      block: !inline,
+    };
+  });
+
+  // Separate block-level content with newlines
+  const content = parts
+    .map((part, index) =>
+      index > 0 && (part.block || parts[index - 1].block) ? `\n${part.html}` : part.html
+    )
+    .join('');
+
+  return `<li>${renderTaskCheckbox(node, context)}${content}</li>`;
+}
+
+/**
+ * Render a link
+ */
+function renderLink(
+  url: string,
+  title: string | null | undefined,
+  content: string,
+  context: SerializeContext
+): string {
+  const target = url.startsWith('#') ? context.linkTargets?.get(url.slice(1)) : undefined;
+  const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+  return `<a href="${escapeHtml(sanitizeUrl(target ?? url))}"${titleAttr}>${content}</a>`;
+}
+
+/**
+ * Render an image
+ */
+function renderImage(
+  url: string,
+  alt: string | null | undefined,
+  title: string | null | undefined,
+  context: SerializeContext
+): string {
+  const src = context.imageSources ? context.imageSources.get(url) : url;
+  if (src === undefined) {
+    return escapeHtml(alt || '');
   }
+
+  const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+  return `<img src="${escapeHtml(sanitizeUrl(src))}" alt="${escapeHtml(alt || '')}"${titleAttr}${voidEnd(context)}>`;
 }
 
 /**
- * Extract text content from a node and its children
+ * Closing slash for void elements in XHTML
  */
-function extractText(node: unknown): string {
-  const n = node as { value?: string; children?: unknown[] };
+function voidEnd(context: SerializeContext): string {
+  return context.xhtml ? ' /' : '';
+}
 
-  if (n.value) {
-    return n.value;
+/**
+ * Render a GFM table with its first row as the header
+ */
+function renderTable(node: HtmlNode, context: SerializeContext): string {
+  const rows = node.children || [];
+  const align = node.align || [];
+
+  const renderRow = (row: HtmlNode, cellTag: 'th' | 'td'): string => {
+    const cells = (row.children || []).map((cell, index) => {
+      const alignAttr = align[index] ? ` style="text-align: ${align[index]}"` : '';
+      return `<${cellTag}${alignAttr}>${renderChildren(cell, context)}</${cellTag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  };
+
+  const [head, ...body] = rows;
+  const parts: string[] = ['<table>'];
+
+  if (head) {
+    parts.push(`<thead>\n${renderRow(head, 'th')}\n</thead>`);
   }
 
-  if (n.children && Array.isArray(n.children)) {
-    return n.children.map((child) => extractText(child)).join('');
+  if (body.length > 0) {
+    parts.push(`<tbody>\n${body.map((row) => renderRow(row, 'td')).join('\n')}\n</tbody>`);
   }
 
-  return '';
+  parts.push('</table>');
+  return parts.join('\n');
 }
 
 /**
- * Escape HTML special characters
+ * Render a disabled checkbox for GFM task list items
  */
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
+function renderTaskCheckbox(node: HtmlNode, context: SerializeContext): string {
+  if (typeof node.checked !== 'boolean') {
+    return '';
+  }
+
+  if (context.xhtml) {
+    const checked = node.checked ? ' checked="checked"' : '';
+    return `<input type="checkbox" disabled="disabled"${checked} /> `;
+  }
+  return `<input type="checkbox" disabled${node.checked ? ' checked' : ''}> `;
 }
 
 /**
- * Apply template with content and metadata
+ * Normalize a definition/reference identifier for lookup
  */
-function applyTemplate(template: string, content: string, metadata?: DocumentMetadata): string {
-  let result = template;
+function normalizeIdentifier(identifier: string | undefined): string {
+  return (identifier || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
 
-  // Replace content placeholder
-  result = result.replace('{{CONTENT}}', content);
+/**
+ * Neutralize script URLs in links and images
+ */
+function sanitizeUrl(url: string): string {
+  return /^\s*(javascript|vbscript):/i.test(url) ? '#' : url;
+}
 
-  // Replace title
+/**
+ * Apply template with content and metadata.
+ * Content, styles and meta tags are inserted unescaped; everything else is escaped.
+ */
+function applyTemplate(
+  template: string,
+  content: string,
+  metadata?: DocumentMetadata,
+  styles?: HtmlStyles
+): string {
   const title = metadata?.title || 'Document';
-  result = result.replace('{{TITLE}}', escapeHtml(title));
+  const css = buildHtmlStyles(styles);
+  const metaTags = generateMetaTags(metadata);
 
-  // Replace styles
-  result = result.replace('{{STYLES}}', DEFAULT_STYLES);
+  return renderTemplate(template, {
+    ...metadata,
+    metadata: metadata ?? {},
+    title,
+    content: raw(content),
+    styles: raw(css),
+    meta: raw(metaTags),
+    // Placeholders from the original template format
+    TITLE: title,
+    CONTENT: raw(content),
+    STYLES: raw(css),
+    META: raw(metaTags),
+  });
+}
 
-  // Generate meta tags
-  const metaTags = generateMetaTags(metadata);
-  result = result.replace('{{META}}', metaTags);
+/**
+ * Build the CSS injected into the template from the default styles and custom CSS
+ */
+export function buildHtmlStyles(styles?: HtmlStyles): string {
+  const parts: string[] = [];
+
+  if (styles?.includeDefaultStyles !== false) {
+    parts.push(DEFAULT_STYLES);
+  }
 
-  return result;
+  if (styles?.css) {
+    parts.push(styles.css);
+  }
+
+  return parts.join('\n');
 }
 
 /**
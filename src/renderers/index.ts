@@ -2,3 +2,7 @@ export { renderMarkdown } from './markdown.js';
 export { renderHtml } from './html.js';
 export { renderPdf } from './pdf.js';
 export { renderDocx } from './docx.js';
+export { renderEpub } from './epub.js';
+export { renderOdt } from './odt.js';
+export { renderRtf } from './rtf.js';
+export { renderLatex, escapeLatex } from './latex.js';
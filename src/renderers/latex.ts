@@ -0,0 +1,542 @@
+import type { Root, Content, PhrasingContent, List, Table, Heading } from 'mdast';
+import type { RenderOptions, DocumentMetadata, LatexStyles, TocOptions } from '../types/index.js';
+import { walkAst } from '../core/ast.js';
+import { resolveTocOptions, collectHeadings, slugify } from '../core/toc.js';
+import { renderTemplate, raw } from '../templates/engine.js';
+import { ConversionError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { deepMerge } from '../utils/merge.js';
+
+/**
+ * Default LaTeX template.
+ * `{{{preamble}}}` holds the document class, packages and title commands.
+ */
+const DEFAULT_TEMPLATE = `{{{preamble}}}
+
+\\begin{document}
+{{#if title}}
+\\maketitle
+{{/if}}
+{{{toc}}}
+{{{content}}}
+\\end{document}
+`;
+
+/**
+ * Default LaTeX styles
+ */
+const DEFAULT_STYLES: LatexStyles = {
+  documentClass: 'article',
+  classOptions: ['11pt', 'letterpaper'],
+  margins: {
+    top: 1,
+    bottom: 1,
+    left: 1,
+    right: 1,
+  },
+  codeBlocks: 'verbatim',
+};
+
+/**
+ * Sectioning commands from the highest level down
+ */
+const DIVISIONS = [
+  'part',
+  'chapter',
+  'section',
+  'subsection',
+  'subsubsection',
+  'paragraph',
+  'subparagraph',
+];
+
+/**
+ * Counters of the enumerate nesting levels
+ */
+const ENUM_COUNTERS = ['enumi', 'enumii', 'enumiii', 'enumiv'];
+
+/**
+ * Code block languages known to the listings package, keyed by fence info
+ */
+const LISTINGS_LANGUAGES: Record<string, string> = {
+  c: 'C',
+  cpp: 'C++',
+  'c++': 'C++',
+  java: 'Java',
+  python: 'Python',
+  py: 'Python',
+  ruby: 'Ruby',
+  rb: 'Ruby',
+  perl: 'Perl',
+  php: 'PHP',
+  sql: 'SQL',
+  html: 'HTML',
+  xml: 'XML',
+  bash: 'bash',
+  sh: 'sh',
+  shell: 'bash',
+  make: 'make',
+  makefile: 'make',
+  haskell: 'Haskell',
+  lisp: 'Lisp',
+  tex: 'TeX',
+  latex: '[LaTeX]TeX',
+  r: 'R',
+  go: 'Go',
+  matlab: 'Matlab',
+};
+
+/**
+ * Characters with a special meaning in LaTeX text
+ */
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  $: '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  _: '\\_',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+};
+
+/**
+ * State shared while rendering the document body
+ */
+interface LatexContext {
+  styles: LatexStyles;
+  /** Index in DIVISIONS of the command used for level-1 headings */
+  topLevel: number;
+  /** Labels of top-level headings, targets of in-document links */
+  labels: Map<Heading, string>;
+  /** Link and image reference definitions, keyed by normalized identifier */
+  definitions: Map<string, string>;
+  /** Footnote definitions, keyed by normalized identifier */
+  footnotes: Map<string, Content[]>;
+  /** Nesting depth of enumerate environments */
+  enumDepth: number;
+  /** Whether blocks are rendered inside a command argument such as \footnote */
+  inArgument: boolean;
+}
+
+/**
+ * Render AST to a LaTeX document, or to the document body when
+ * `styles.latex.bodyOnly` is set
+ */
+export function renderLatex(ast: Root, options: RenderOptions = {}): Promise<string> {
+  try {
+    logger.debug('Rendering to LaTeX');
+
+    const styles = deepMerge(DEFAULT_STYLES, options.styles?.latex);
+    const context: LatexContext = {
+      styles,
+      topLevel: resolveTopLevel(styles),
+      labels: new Map(
+        Array.from(collectHeadings(ast), ([heading, entry]) => [heading, entry.id] as const)
+      ),
+      definitions: new Map(),
+      footnotes: new Map(),
+      enumDepth: 0,
+      inArgument: false,
+    };
+
+    // Collect definitions up front so references resolve anywhere in the document
+    walkAst(ast, (node) => {
+      if (node.type === 'definition') {
+        context.definitions.set(normalizeIdentifier(node.identifier), node.url);
+      } else if (node.type === 'footnoteDefinition') {
+        context.footnotes.set(normalizeIdentifier(node.identifier), node.children);
+      }
+    });
+
+    const content = renderBlocks(ast.children, context);
+    if (styles.bodyOnly) {
+      logger.debug('LaTeX rendering complete', { length: content.length });
+      return Promise.resolve(content);
+    }
+
+    const metadata = options.metadata ?? {};
+    const template = options.template?.content || DEFAULT_TEMPLATE;
+    // Template values are escaped for LaTeX instead of HTML
+    const latex = renderTemplate(
+      template,
+      {
+        ...metadata,
+        metadata,
+        preamble: raw(buildPreamble(styles, metadata)),
+        toc: raw(buildToc(resolveTocOptions(options.toc), context.topLevel)),
+        content: raw(content),
+      },
+      { escape: escapeLatex }
+    );
+
+    logger.debug('LaTeX rendering complete', { length: latex.length });
+    return Promise.resolve(latex);
+  } catch (error) {
+    return Promise.reject(
+      new ConversionError(
+        `Failed to render LaTeX: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'latex',
+        error instanceof Error ? error : undefined
+      )
+    );
+  }
+}
+
+/**
+ * Escape text for LaTeX
+ */
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\{}$&#%_^~]/g, (char) => SPECIAL_CHARACTERS[char]);
+}
+
+/**
+ * Index in DIVISIONS of the level-1 heading command: chapters in book and
+ * report classes, sections otherwise
+ */
+function resolveTopLevel(styles: LatexStyles): number {
+  if (styles.topLevelDivision) {
+    return DIVISIONS.indexOf(styles.topLevelDivision);
+  }
+  return ['book', 'report', 'memoir', 'scrbook', 'scrreprt'].includes(styles.documentClass ?? '')
+    ? 1
+    : 2;
+}
+
+/**
+ * Render block nodes separated by blank lines
+ */
+function renderBlocks(nodes: Content[], context: LatexContext): string {
+  return nodes
+    .map((node) => renderBlock(node, context))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Render a block node
+ */
+function renderBlock(node: Content, context: LatexContext): string {
+  switch (node.type) {
+    case 'heading': {
+      const command = DIVISIONS[Math.min(context.topLevel + node.depth - 1, DIVISIONS.length - 1)];
+      const label = context.labels.get(node);
+      return (
+        `\\${command}{${renderInline(node.children, context)}}` + (label ? `\\label{${label}}` : '')
+      );
+    }
+
+    case 'paragraph':
+      return renderParagraph(node.children, context);
+
+    case 'list':
+      return renderList(node, context);
+
+    case 'code':
+      return renderCode(node.value, node.lang, context);
+
+    case 'blockquote':
+      return `\\begin{quote}\n${renderBlocks(node.children, context)}\n\\end{quote}`;
+
+    case 'table':
+      return renderTable(node, context);
+
+    case 'thematicBreak':
+      return '\\begin{center}\n\\rule{0.5\\linewidth}{0.4pt}\n\\end{center}';
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render a paragraph; an image on its own becomes a centered figure
+ * captioned with its alt text, except inside a command argument where
+ * floats are not allowed
+ */
+function renderParagraph(children: PhrasingContent[], context: LatexContext): string {
+  const [only] = children;
+  if (
+    children.length === 1 &&
+    only.type === 'image' &&
+    isLocalPath(only.url) &&
+    !context.inArgument
+  ) {
+    return [
+      '\\begin{figure}[htbp]',
+      '\\centering',
+      `\\includegraphics{${escapeGraphicsPath(only.url)}}`,
+      ...(only.alt ? [`\\caption{${escapeLatex(only.alt)}}`] : []),
+      '\\end{figure}',
+    ].join('\n');
+  }
+  return renderInline(children, context);
+}
+
+/**
+ * Render a list as an itemize or enumerate environment
+ */
+function renderList(node: List, context: LatexContext): string {
+  const environment = node.ordered ? 'enumerate' : 'itemize';
+  const nested = { ...context, enumDepth: context.enumDepth + (node.ordered ? 1 : 0) };
+  const lines = [`\\begin{${environment}}`];
+
+  const counter = ENUM_COUNTERS[context.enumDepth];
+  if (node.ordered && counter && node.start != null && node.start !== 1) {
+    lines.push(`\\setcounter{${counter}}{${node.start - 1}}`);
+  }
+
+  for (const item of node.children) {
+    const marker =
+      typeof item.checked === 'boolean' ? `[${item.checked ? '$\\boxtimes$' : '$\\square$'}]` : '';
+    const content = renderBlocks(item.children, nested);
+    // An item starting with "[" would be read as the optional label
+    const separator = !marker && content.startsWith('[') ? '{} ' : ' ';
+    lines.push(`\\item${marker}${separator}${content}`.trimEnd());
+  }
+
+  lines.push(`\\end{${environment}}`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a code block as a verbatim or lstlisting environment. Code that
+ * contains the environment's end marker, or that sits in a command argument
+ * where verbatim text cannot be read, is written as \texttt lines instead.
+ */
+function renderCode(value: string, lang: string | null | undefined, context: LatexContext): string {
+  const environment = context.styles.codeBlocks === 'listings' ? 'lstlisting' : 'verbatim';
+  if (context.inArgument || value.includes(`\\end{${environment}}`)) {
+    return renderCodeLines(value);
+  }
+
+  if (environment === 'lstlisting') {
+    const language = LISTINGS_LANGUAGES[(lang ?? '').toLowerCase()];
+    const option = language ? `[language={${language}}]` : '';
+    return `\\begin{lstlisting}${option}\n${value}\n\\end{lstlisting}`;
+  }
+  return `\\begin{verbatim}\n${value}\n\\end{verbatim}`;
+}
+
+/**
+ * Render code as escaped \texttt lines, keeping runs of spaces and blank lines
+ */
+function renderCodeLines(value: string): string {
+  const lines = value
+    .split('\n')
+    .map((line) => `\\texttt{${escapeLatex(line).replace(/ /g, '~') || '~'}}`);
+  return `\\noindent${lines.join('\\\\\n')}`;
+}
+
+/**
+ * Render a table as a booktabs tabular with the column alignments
+ */
+function renderTable(node: Table, context: LatexContext): string {
+  const columns = Math.max(1, ...node.children.map((row) => row.children.length));
+  const spec = Array.from({ length: columns }, (_, index) => {
+    const align = node.align?.[index];
+    return align === 'center' ? 'c' : align === 'right' ? 'r' : 'l';
+  }).join('');
+
+  const rows = node.children.map((row) => {
+    const cells = Array.from({ length: columns }, (_, index) => {
+      const cell = row.children[index];
+      return cell ? renderInline(cell.children, context) : '';
+    });
+    return `${cells.join(' & ')} \\\\`;
+  });
+
+  return [
+    '\\begin{center}',
+    `\\begin{tabular}{${spec}}`,
+    '\\toprule',
+    rows[0],
+    '\\midrule',
+    ...rows.slice(1),
+    '\\bottomrule',
+    '\\end{tabular}',
+    '\\end{center}',
+  ].join('\n');
+}
+
+/**
+ * Render phrasing content as LaTeX text
+ */
+function renderInline(nodes: PhrasingContent[], context: LatexContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeLatex(node.value);
+        case 'strong':
+          return `\\textbf{${renderInline(node.children, context)}}`;
+        case 'emphasis':
+          return `\\emph{${renderInline(node.children, context)}}`;
+        case 'delete':
+          return `\\sout{${renderInline(node.children, context)}}`;
+        case 'inlineCode':
+          return `\\texttt{${escapeLatex(node.value)}}`;
+        case 'break':
+          return '\\newline\n';
+        case 'link':
+          return renderLink(node.url, renderInline(node.children, context));
+        case 'linkReference': {
+          const url = context.definitions.get(normalizeIdentifier(node.identifier));
+          const content = renderInline(node.children, context);
+          return url ? renderLink(url, content) : content;
+        }
+        case 'image':
+          return renderImage(node.url, node.alt);
+        case 'imageReference': {
+          const url = context.definitions.get(normalizeIdentifier(node.identifier));
+          return url ? renderImage(url, node.alt) : escapeLatex(node.alt || '');
+        }
+        case 'footnoteReference': {
+          const footnote = context.footnotes.get(normalizeIdentifier(node.identifier));
+          return footnote
+            ? `\\footnote{${renderBlocks(footnote, { ...context, inArgument: true })}}`
+            : '';
+        }
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a link: in-document anchors as \hyperref to the label built from
+ * the fragment the same way as heading labels, anything else as \href
+ */
+function renderLink(url: string, content: string): string {
+  if (url.startsWith('#')) {
+    const label = slugify(url.slice(1));
+    return label ? `\\hyperref[${label}]{${content}}` : content;
+  }
+  return `\\href{${escapeUrl(url)}}{${content}}`;
+}
+
+/**
+ * Render an image from a local path, falling back to its alt text for remote
+ * and inline images that LaTeX cannot include
+ */
+function renderImage(url: string, alt?: string | null): string {
+  return isLocalPath(url)
+    ? `\\includegraphics{${escapeGraphicsPath(url)}}`
+    : escapeLatex(alt || url);
+}
+
+/**
+ * Pass an image path to \includegraphics as plain characters, so `_`, `&`
+ * and the like are not read as commands
+ */
+function escapeGraphicsPath(url: string): string {
+  return /[^\w./-]/.test(url) ? `\\detokenize{${url}}` : url;
+}
+
+/**
+ * Whether an image URL is a local file path
+ */
+function isLocalPath(url: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(url) && !/[{}%#\\]/.test(url);
+}
+
+/**
+ * Escape a URL for \href: braces and backslashes are percent-encoded, and
+ * `%` and `#` are escaped
+ */
+function escapeUrl(url: string): string {
+  return url
+    .replace(/\\/g, '%5C')
+    .replace(/\{/g, '%7B')
+    .replace(/\}/g, '%7D')
+    .replace(/([%#])/g, '\\$1');
+}
+
+/**
+ * Normalize a reference identifier for lookup
+ */
+function normalizeIdentifier(identifier: string | undefined): string {
+  return (identifier || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Build the table of contents commands, limited to the configured heading depth
+ */
+function buildToc(toc: Required<TocOptions> | undefined, topLevel: number): string {
+  if (!toc) {
+    return '';
+  }
+  // LaTeX numbers the levels from -1 (part)
+  return [
+    `\\renewcommand{\\contentsname}{${escapeLatex(toc.title)}}`,
+    `\\setcounter{tocdepth}{${topLevel + toc.depth - 2}}`,
+    '\\tableofcontents',
+  ].join('\n');
+}
+
+/**
+ * Build the preamble: document class, packages, PDF metadata and title commands
+ */
+function buildPreamble(styles: LatexStyles, metadata: DocumentMetadata): string {
+  const classOptions = styles.classOptions?.length ? `[${styles.classOptions.join(',')}]` : '';
+  const margins = styles.margins ?? {};
+  const geometry = (['top', 'bottom', 'left', 'right'] as const)
+    .map((side) => `${side}=${margins[side] ?? 1}in`)
+    .join(',');
+
+  const lines = [
+    `\\documentclass${classOptions}{${styles.documentClass ?? 'article'}}`,
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage{lmodern}',
+    '\\usepackage{amssymb}',
+    '\\usepackage{graphicx}',
+    '\\usepackage{booktabs}',
+    '\\usepackage[normalem]{ulem}',
+    `\\usepackage[${geometry}]{geometry}`,
+    // Scale images down to the line width, but never up
+    '\\makeatletter',
+    '\\def\\maxwidth{\\ifdim\\Gin@nat@width>\\linewidth\\linewidth\\else\\Gin@nat@width\\fi}',
+    '\\makeatother',
+    '\\setkeys{Gin}{width=\\maxwidth,keepaspectratio}',
+  ];
+
+  if (styles.codeBlocks === 'listings') {
+    lines.push(
+      '\\usepackage{listings}',
+      '\\lstset{basicstyle=\\ttfamily\\small,breaklines=true,columns=fullflexible}'
+    );
+  }
+  if (styles.preamble) {
+    lines.push(styles.preamble);
+  }
+
+  // hyperref goes last so it can patch the packages loaded before it
+  const pdfInfo = [
+    metadata.title && `pdftitle={${escapeLatex(metadata.title)}}`,
+    metadata.author && `pdfauthor={${escapeLatex(metadata.author)}}`,
+    metadata.description && `pdfsubject={${escapeLatex(metadata.description)}}`,
+    metadata.keywords?.length
+      ? `pdfkeywords={${escapeLatex(metadata.keywords.join(', '))}}`
+      : undefined,
+    typeof metadata.language === 'string' && `pdflang={${escapeLatex(metadata.language)}}`,
+  ].filter((entry): entry is string => Boolean(entry));
+  lines.push(
+    '\\usepackage{hyperref}',
+    `\\hypersetup{${['colorlinks=true', 'linkcolor=blue', 'urlcolor=blue', ...pdfInfo].join(',')}}`
+  );
+
+  if (metadata.title) {
+    lines.push(
+      `\\title{${escapeLatex(metadata.title)}}`,
+      `\\author{${escapeLatex(metadata.author ?? '')}}`,
+      // An empty date keeps \maketitle from printing today's date
+      `\\date{${escapeLatex(metadata.date ?? '')}}`
+    );
+  }
+
+  return lines.join('\n');
+}
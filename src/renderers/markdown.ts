@@ -1,7 +1,9 @@
 import { unified } from 'unified';
 import remarkStringify from 'remark-stringify';
-import type { Root } from 'mdast';
-import type { RenderOptions, DocumentMetadata } from '../types/index.js';
+import remarkGfm from 'remark-gfm';
+import type { Root, List, Content } from 'mdast';
+import type { RenderOptions, DocumentMetadata, TocOptions } from '../types/index.js';
+import { resolveTocOptions, collectToc, buildTocTree, type TocTreeNode } from '../core/toc.js';
 import { ConversionError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -12,14 +14,17 @@ export async function renderMarkdown(ast: Root, options: RenderOptions = {}): Pr
   try {
     logger.debug('Rendering to Markdown');
 
-    const processor = unified().use(remarkStringify, {
-      bullet: '-',
-      emphasis: '_',
-      strong: '*',
-      listItemIndent: 'one',
-    });
+    const processor = unified()
+      .use(remarkStringify, {
+        bullet: '-',
+        emphasis: '_',
+        strong: '*',
+        listItemIndent: 'one',
+      })
+      .use(remarkGfm);
 
-    const markdown = processor.stringify(ast);
+    const toc = resolveTocOptions(options.toc);
+    const markdown = processor.stringify(toc ? withToc(ast, toc) : ast);
 
     // Add frontmatter if metadata is provided
     const frontmatter = options.metadata ? generateFrontmatter(options.metadata) : '';
@@ -37,6 +42,46 @@ export async function renderMarkdown(ast: Root, options: RenderOptions = {}): Pr
   }
 }
 
+/**
+ * Prepend a bullet-list table of contents linking to the heading anchors
+ */
+function withToc(ast: Root, toc: Required<TocOptions>): Root {
+  const entries = collectToc(ast, toc);
+  if (entries.length === 0) {
+    return ast;
+  }
+
+  const toList = (nodes: TocTreeNode[]): List => ({
+    type: 'list',
+    ordered: false,
+    spread: false,
+    children: nodes.map(({ entry, children }) => ({
+      type: 'listItem',
+      spread: false,
+      children: [
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'link', url: `#${entry.id}`, children: [{ type: 'text', value: entry.text }] },
+          ],
+        },
+        ...(children.length > 0 ? [toList(children)] : []),
+      ],
+    })),
+  });
+
+  const title: Content[] = toc.title
+    ? [
+        {
+          type: 'paragraph',
+          children: [{ type: 'strong', children: [{ type: 'text', value: toc.title }] }],
+        },
+      ]
+    : [];
+
+  return { ...ast, children: [...title, toList(buildTocTree(entries)), ...ast.children] };
+}
+
 /**
  * Generate YAML frontmatter from metadata
  */
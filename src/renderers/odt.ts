@@ -0,0 +1,458 @@
+import JSZip from 'jszip';
+import type { Root, Content, PhrasingContent, List, Table } from 'mdast';
+import type { RenderOptions, OdtStyles, DocumentMetadata } from '../types/index.js';
+import { ConversionError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { deepMerge } from '../utils/merge.js';
+import { PAGE_SIZE } from '../utils/page-size.js';
+import { resolveImages } from '../utils/images.js';
+import type { ResolvedImage, ImageType } from '../utils/images.js';
+import { escapeHtml as escapeXml } from '../templates/engine.js';
+import { ODT_MIMETYPE } from '../parsers/odt.js';
+
+/**
+ * Default ODT styles
+ */
+const DEFAULT_STYLES: OdtStyles = {
+  margins: {
+    top: 1,
+    bottom: 1,
+    left: 1,
+    right: 1,
+  },
+  fontFamily: 'Liberation Serif',
+  codeFontFamily: 'Liberation Mono',
+  fontSize: {
+    body: 12,
+    code: 10,
+  },
+};
+
+/**
+ * Image pixels per inch
+ */
+const PIXELS_PER_INCH = 96;
+
+/**
+ * Heading font sizes relative to the body text
+ */
+const HEADING_SCALES = [1.3, 1.15, 1.01, 0.95, 0.85, 0.85];
+
+/**
+ * Media types of embedded pictures
+ */
+const IMAGE_MEDIA_TYPES: Record<ImageType, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+/**
+ * Namespace declarations used by the content, styles and meta documents
+ */
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+].join(' ');
+
+/**
+ * Picture stored in the package
+ */
+interface PackagedImage extends ResolvedImage {
+  path: string;
+}
+
+/**
+ * State shared while rendering the document body
+ */
+interface OdtContext {
+  styles: OdtStyles;
+  images: Map<string, PackagedImage>;
+  tables: number;
+  frames: number;
+}
+
+/**
+ * Render AST to an OpenDocument text (.odt) buffer
+ */
+export async function renderOdt(ast: Root, options: RenderOptions = {}): Promise<Buffer> {
+  try {
+    logger.debug('Rendering to ODT');
+
+    const styles = deepMerge(DEFAULT_STYLES, options.styles?.odt);
+    const images = new Map<string, PackagedImage>();
+    for (const [url, image] of await resolveImages(ast, options)) {
+      images.set(url, { ...image, path: `Pictures/image-${images.size + 1}.${image.type}` });
+    }
+
+    const context: OdtContext = { styles, images, tables: 0, frames: 0 };
+    const body = [
+      ...renderTitleBlock(options.metadata),
+      ...ast.children.map((node) => renderBlock(node, context)),
+    ].join('');
+
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', ODT_MIMETYPE, { compression: 'STORE' });
+    zip.file('META-INF/manifest.xml', buildManifest(images));
+    zip.file('content.xml', buildContent(body, styles));
+    zip.file('styles.xml', buildStyles(styles));
+    zip.file('meta.xml', buildMeta(options.metadata));
+    for (const image of images.values()) {
+      zip.file(image.path, image.data);
+    }
+
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    logger.debug('ODT rendering complete', { size: buffer.length });
+    return buffer;
+  } catch (error) {
+    throw new ConversionError(
+      `Failed to render ODT: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'odt',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Render the title, author and date at the top of the document
+ */
+function renderTitleBlock(metadata?: DocumentMetadata): string[] {
+  if (!metadata?.title) {
+    return [];
+  }
+
+  return [
+    `<text:p text:style-name="Title">${encodeText(metadata.title)}</text:p>`,
+    ...[metadata.author && `By ${metadata.author}`, metadata.date]
+      .filter((line): line is string => Boolean(line))
+      .map((line) => `<text:p text:style-name="Subtitle">${encodeText(line)}</text:p>`),
+  ];
+}
+
+/**
+ * Render a block node
+ */
+function renderBlock(node: Content, context: OdtContext): string {
+  switch (node.type) {
+    case 'heading':
+      return (
+        `<text:h text:style-name="Heading_20_${node.depth}" text:outline-level="${node.depth}">` +
+        `${renderInline(node.children, context)}</text:h>`
+      );
+
+    case 'paragraph':
+      return `<text:p text:style-name="Text_20_body">${renderInline(node.children, context)}</text:p>`;
+
+    case 'list':
+      return renderList(node, context);
+
+    case 'code':
+      return node.value
+        .split('\n')
+        .map(
+          (line) =>
+            `<text:p text:style-name="Preformatted_20_Text">${encodeText(line, true)}</text:p>`
+        )
+        .join('');
+
+    case 'blockquote':
+      return node.children
+        .map((child) =>
+          child.type === 'paragraph'
+            ? `<text:p text:style-name="Quotations">${renderInline(child.children, context)}</text:p>`
+            : renderBlock(child, context)
+        )
+        .join('');
+
+    case 'table':
+      return renderTable(node, context);
+
+    case 'thematicBreak':
+      return '<text:p text:style-name="Horizontal_20_Line"/>';
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render a list with the bullet or numbering list style
+ */
+function renderList(node: List, context: OdtContext): string {
+  const style = node.ordered ? 'Numbering_20_123' : 'List_20_1';
+
+  const items = node.children.map((item, index) => {
+    // Only the first item of a list can restart its numbering
+    const start =
+      index === 0 && node.ordered && node.start != null && node.start !== 1
+        ? ` text:start-value="${node.start}"`
+        : '';
+    const checkbox = typeof item.checked === 'boolean' ? `${item.checked ? '☑' : '☐'} ` : '';
+
+    const content = item.children
+      .map((child, childIndex) => {
+        if (child.type === 'list') {
+          return renderList(child, context);
+        }
+        if (child.type === 'paragraph') {
+          const prefix = childIndex === 0 ? encodeText(checkbox) : '';
+          return `<text:p text:style-name="List_20_Contents">${prefix}${renderInline(child.children, context)}</text:p>`;
+        }
+        return renderBlock(child, context);
+      })
+      .join('');
+
+    return `<text:list-item${start}>${content || '<text:p/>'}</text:list-item>`;
+  });
+
+  return `<text:list text:style-name="${style}">${items.join('')}</text:list>`;
+}
+
+/**
+ * Render a table with a header row
+ */
+function renderTable(node: Table, context: OdtContext): string {
+  const columns = Math.max(1, ...node.children.map((row) => row.children.length));
+  const name = `Table${++context.tables}`;
+
+  const rows = node.children.map((row, rowIndex) => {
+    const paragraphStyle = rowIndex === 0 ? 'Table_20_Heading' : 'Table_20_Contents';
+    const cells = Array.from({ length: columns }, (_, index) => {
+      const cell = row.children[index];
+      const content = cell ? renderInline(cell.children, context) : '';
+      return (
+        '<table:table-cell table:style-name="TableCell" office:value-type="string">' +
+        `<text:p text:style-name="${paragraphStyle}">${content}</text:p></table:table-cell>`
+      );
+    });
+    const xml = `<table:table-row>${cells.join('')}</table:table-row>`;
+    return rowIndex === 0 ? `<table:table-header-rows>${xml}</table:table-header-rows>` : xml;
+  });
+
+  return (
+    `<table:table table:name="${name}" table:style-name="Table">` +
+    `<table:table-column table:number-columns-repeated="${columns}"/>${rows.join('')}</table:table>`
+  );
+}
+
+/**
+ * Render phrasing content as ODF paragraph content
+ */
+function renderInline(nodes: PhrasingContent[], context: OdtContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return encodeText(node.value);
+        case 'strong':
+          return span('Strong_20_Emphasis', renderInline(node.children, context));
+        case 'emphasis':
+          return span('Emphasis', renderInline(node.children, context));
+        case 'delete':
+          return span('Strikethrough', renderInline(node.children, context));
+        case 'inlineCode':
+          return span('Source_20_Text', encodeText(node.value, true));
+        case 'break':
+          return '<text:line-break/>';
+        case 'link':
+          return (
+            `<text:a xlink:type="simple" xlink:href="${escapeXml(node.url)}" text:style-name="Internet_20_link">` +
+            `${renderInline(node.children, context)}</text:a>`
+          );
+        case 'image':
+          return renderImage(node, context);
+        default:
+          return 'children' in node ? renderInline(node.children, context) : '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Wrap content in a character style
+ */
+function span(style: string, content: string): string {
+  return `<text:span text:style-name="${style}">${content}</text:span>`;
+}
+
+/**
+ * Render an image as a frame scaled to the page width, falling back to its alt text
+ */
+function renderImage(
+  node: { url: string; alt?: string | null; title?: string | null },
+  context: OdtContext
+): string {
+  const image = context.images.get(node.url);
+  const alt = node.alt || '';
+  if (!image) {
+    return span('Emphasis', encodeText(alt || node.url));
+  }
+
+  const margins = context.styles.margins ?? {};
+  const contentWidth = PAGE_SIZE.width - (margins.left ?? 1) - (margins.right ?? 1);
+  const scale = Math.min(1, (contentWidth * PIXELS_PER_INCH) / image.width);
+  const width = ((image.width * scale) / PIXELS_PER_INCH).toFixed(3);
+  const height = ((image.height * scale) / PIXELS_PER_INCH).toFixed(3);
+
+  return (
+    `<draw:frame draw:name="Image${++context.frames}" text:anchor-type="as-char" ` +
+    `svg:width="${width}in" svg:height="${height}in">` +
+    `<draw:image xlink:href="${image.path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>` +
+    (alt ? `<svg:title>${escapeXml(alt)}</svg:title>` : '') +
+    (node.title ? `<svg:desc>${escapeXml(node.title)}</svg:desc>` : '') +
+    '</draw:frame>'
+  );
+}
+
+/**
+ * Escape text for ODF paragraph content. ODF collapses runs of spaces, so
+ * extra spaces (and, in code, leading spaces) become `text:s` elements.
+ */
+function encodeText(text: string, preserveLeading = false): string {
+  return escapeXml(text)
+    .replace(preserveLeading ? /^ +| {2,}/g : / {2,}/g, (spaces, offset: number) => {
+      const keep = preserveLeading && offset === 0 ? 0 : 1;
+      const count = spaces.length - keep;
+      return ' '.repeat(keep) + (count === 1 ? '<text:s/>' : `<text:s text:c="${count}"/>`);
+    })
+    .replace(/\t/g, '<text:tab/>')
+    .replace(/\n/g, '<text:line-break/>');
+}
+
+/**
+ * Build content.xml around the rendered body
+ */
+function buildContent(body: string, styles: OdtStyles): string {
+  const margins = styles.margins ?? {};
+  const tableWidth = PAGE_SIZE.width - (margins.left ?? 1) - (margins.right ?? 1);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.3">
+<office:automatic-styles>
+<style:style style:name="Table" style:family="table"><style:table-properties style:width="${tableWidth.toFixed(2)}in" table:align="margins"/></style:style>
+<style:style style:name="TableCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.04in" fo:border="0.5pt solid #dfe2e5"/></style:style>
+</office:automatic-styles>
+<office:body><office:text>${body}</office:text></office:body>
+</office:document-content>`;
+}
+
+/**
+ * Build styles.xml: fonts, paragraph, character and list styles and the page layout
+ */
+function buildStyles(styles: OdtStyles): string {
+  const font = escapeXml(styles.fontFamily ?? 'Liberation Serif');
+  const codeFont = escapeXml(styles.codeFontFamily ?? 'Liberation Mono');
+  const body = styles.fontSize?.body ?? 12;
+  const code = styles.fontSize?.code ?? 10;
+  const margins = styles.margins ?? {};
+  const margin = (value?: number) => `${value ?? 1}in`;
+
+  const headings = HEADING_SCALES.map(
+    (scale, index) =>
+      `<style:style style:name="Heading_20_${index + 1}" style:display-name="Heading ${index + 1}" style:family="paragraph" style:parent-style-name="Heading" style:next-style-name="Text_20_body" style:default-outline-level="${index + 1}">` +
+      `<style:text-properties fo:font-size="${Math.round(body * scale * 10) / 10}pt" fo:font-weight="bold"/></style:style>`
+  ).join('\n');
+
+  const listLevels = (numbered: boolean) =>
+    Array.from({ length: 10 }, (_, index) => {
+      const level = index + 1;
+      const indent = `<style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.25in" fo:margin-left="${(0.25 * (level + 1)).toFixed(2)}in"/></style:list-level-properties>`;
+      return numbered
+        ? `<text:list-level-style-number text:level="${level}" style:num-suffix="." style:num-format="1">${indent}</text:list-level-style-number>`
+        : `<text:list-level-style-bullet text:level="${level}" text:bullet-char="${['•', '◦', '▪'][index % 3]}">${indent}</text:list-level-style-bullet>`;
+    }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES} office:version="1.3">
+<office:font-face-decls>
+<style:font-face style:name="${font}" svg:font-family="'${font}'"/>
+<style:font-face style:name="${codeFont}" svg:font-family="'${codeFont}'" style:font-pitch="fixed"/>
+</office:font-face-decls>
+<office:styles>
+<style:default-style style:family="paragraph"><style:text-properties style:font-name="${font}" fo:font-size="${body}pt"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph" style:class="text"/>
+<style:style style:name="Text_20_body" style:display-name="Text body" style:family="paragraph" style:parent-style-name="Standard" style:class="text"><style:paragraph-properties fo:margin-top="0in" fo:margin-bottom="0.1in" fo:line-height="115%"/></style:style>
+<style:style style:name="Title" style:family="paragraph" style:parent-style-name="Standard" style:class="chapter"><style:paragraph-properties fo:text-align="center" fo:margin-bottom="0.1in"/><style:text-properties fo:font-size="${body * 2}pt" fo:font-weight="bold"/></style:style>
+<style:style style:name="Subtitle" style:family="paragraph" style:parent-style-name="Standard" style:class="chapter"><style:paragraph-properties fo:text-align="center" fo:margin-bottom="0.1in"/><style:text-properties fo:font-style="italic"/></style:style>
+<style:style style:name="Heading" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:class="text"><style:paragraph-properties fo:margin-top="0.17in" fo:margin-bottom="0.08in" fo:keep-with-next="always"/></style:style>
+${headings}
+<style:style style:name="List_20_Contents" style:display-name="List Contents" style:family="paragraph" style:parent-style-name="Standard" style:class="list"><style:paragraph-properties fo:margin-bottom="0.04in"/></style:style>
+<style:style style:name="Preformatted_20_Text" style:display-name="Preformatted Text" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-top="0in" fo:margin-bottom="0in" fo:background-color="#f6f8fa"/><style:text-properties style:font-name="${codeFont}" fo:font-size="${code}pt"/></style:style>
+<style:style style:name="Quotations" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-left="0.4in" fo:margin-bottom="0.1in" fo:padding-left="0.1in" fo:border-left="2.25pt solid #dfe2e5" fo:border-right="none" fo:border-top="none" fo:border-bottom="none"/><style:text-properties fo:color="#6a737d"/></style:style>
+<style:style style:name="Horizontal_20_Line" style:display-name="Horizontal Line" style:family="paragraph" style:parent-style-name="Standard" style:class="html"><style:paragraph-properties fo:margin-bottom="0.1in" fo:padding="0in" fo:border-bottom="0.75pt solid #dfe2e5" fo:border-left="none" fo:border-right="none" fo:border-top="none"/></style:style>
+<style:style style:name="Table_20_Contents" style:display-name="Table Contents" style:family="paragraph" style:parent-style-name="Standard" style:class="extra"/>
+<style:style style:name="Table_20_Heading" style:display-name="Table Heading" style:family="paragraph" style:parent-style-name="Table_20_Contents" style:class="extra"><style:text-properties fo:font-weight="bold"/></style:style>
+<style:style style:name="Strong_20_Emphasis" style:display-name="Strong Emphasis" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>
+<style:style style:name="Emphasis" style:family="text"><style:text-properties fo:font-style="italic"/></style:style>
+<style:style style:name="Strikethrough" style:family="text"><style:text-properties style:text-line-through-style="solid" style:text-line-through-type="single"/></style:style>
+<style:style style:name="Source_20_Text" style:display-name="Source Text" style:family="text"><style:text-properties style:font-name="${codeFont}" fo:font-size="${code}pt"/></style:style>
+<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text"><style:text-properties fo:color="#0366d6" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>
+<text:list-style style:name="List_20_1" style:display-name="List 1">${listLevels(false)}</text:list-style>
+<text:list-style style:name="Numbering_20_123" style:display-name="Numbering 123">${listLevels(true)}</text:list-style>
+<text:outline-style style:name="Outline">${HEADING_SCALES.map((_, index) => `<text:outline-level-style text:level="${index + 1}" style:num-format=""/>`).join('')}</text:outline-style>
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="PageLayout"><style:page-layout-properties fo:page-width="${PAGE_SIZE.width.toFixed(4)}in" fo:page-height="${PAGE_SIZE.height.toFixed(4)}in" fo:margin-top="${margin(margins.top)}" fo:margin-bottom="${margin(margins.bottom)}" fo:margin-left="${margin(margins.left)}" fo:margin-right="${margin(margins.right)}"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles>
+<style:master-page style:name="Standard" style:page-layout-name="PageLayout"/>
+</office:master-styles>
+</office:document-styles>`;
+}
+
+/**
+ * Build meta.xml from the document metadata
+ */
+function buildMeta(metadata: DocumentMetadata = {}): string {
+  const fields = [
+    '<meta:generator>Convatile-SDK</meta:generator>',
+    metadata.title && `<dc:title>${escapeXml(metadata.title)}</dc:title>`,
+    metadata.author && `<meta:initial-creator>${escapeXml(metadata.author)}</meta:initial-creator>`,
+    metadata.author && `<dc:creator>${escapeXml(metadata.author)}</dc:creator>`,
+    metadata.date && `<dc:date>${escapeXml(metadata.date)}</dc:date>`,
+    metadata.description && `<dc:description>${escapeXml(metadata.description)}</dc:description>`,
+    ...(metadata.keywords ?? []).map(
+      (keyword) => `<meta:keyword>${escapeXml(keyword)}</meta:keyword>`
+    ),
+    typeof metadata.language === 'string' &&
+      `<dc:language>${escapeXml(metadata.language)}</dc:language>`,
+  ].filter(Boolean);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta ${NAMESPACES} office:version="1.3">
+<office:meta>${fields.join('')}</office:meta>
+</office:document-meta>`;
+}
+
+/**
+ * Build the package manifest listing every file and its media type
+ */
+function buildManifest(images: Map<string, PackagedImage>): string {
+  const entries = [
+    `<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${ODT_MIMETYPE}"/>`,
+    ...['content.xml', 'styles.xml', 'meta.xml'].map(
+      (path) => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="text/xml"/>`
+    ),
+    ...Array.from(
+      images.values(),
+      (image) =>
+        `<manifest:file-entry manifest:full-path="${image.path}" manifest:media-type="${IMAGE_MEDIA_TYPES[image.type]}"/>`
+    ),
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+${entries.join('\n')}
+</manifest:manifest>`;
+}
@@ -0,0 +1,465 @@
+/**
+ * Font handling for the PDF renderer
+ *
+ * Registers custom TrueType/OpenType families with PDFKit, resolves the
+ * bold/italic variant of a font, and splits text into segments so that
+ * characters missing from the primary font are drawn with the first
+ * fallback font that has them. Every piece of text the renderer draws goes
+ * through the split, either in flowing runs or via `drawText`.
+ */
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { create, openSync, type Font } from 'fontkit';
+import type { PdfFontFamily, PdfStyles } from '../types/index.js';
+import { ConversionError } from '../utils/errors.js';
+
+/**
+ * Names of a font family's style variants
+ */
+export interface PdfFontVariants {
+  regular: string;
+  bold: string;
+  italic: string;
+  boldItalic: string;
+}
+
+/**
+ * Text drawn with a single font
+ */
+export interface PdfFontSegment {
+  text: string;
+  font: string;
+}
+
+/**
+ * Reports whether a font has a glyph for a code point
+ */
+export type GlyphCoverage = (font: string, codePoint: number) => boolean;
+
+/**
+ * Font and size of text drawn with `drawText`
+ */
+export interface PdfTextStyle {
+  font: string;
+  fontSize: number;
+}
+
+/**
+ * Placement of text drawn with `drawText`
+ */
+export interface PdfTextOptions {
+  /** Width to wrap and align within */
+  width?: number;
+  /** Horizontal alignment within the width (default left) */
+  align?: 'left' | 'center' | 'right';
+  /** Wrap onto several lines (default true when a width is given) */
+  lineBreak?: boolean;
+  /** Shorten a single line that does not fit the width, ending it with an ellipsis */
+  ellipsis?: boolean;
+  /** Extra space between lines */
+  lineGap?: number;
+  /** Named destination the text links to */
+  goTo?: string;
+}
+
+/**
+ * Standard PDF font families and their style variants
+ */
+export const STANDARD_FONT_FAMILIES: PdfFontVariants[] = [
+  {
+    regular: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    italic: 'Helvetica-Oblique',
+    boldItalic: 'Helvetica-BoldOblique',
+  },
+  {
+    regular: 'Times-Roman',
+    bold: 'Times-Bold',
+    italic: 'Times-Italic',
+    boldItalic: 'Times-BoldItalic',
+  },
+  {
+    regular: 'Courier',
+    bold: 'Courier-Bold',
+    italic: 'Courier-Oblique',
+    boldItalic: 'Courier-BoldOblique',
+  },
+];
+
+/**
+ * Characters outside Latin-1 that the standard fonts encode (WinAnsiEncoding)
+ */
+const WIN_ANSI_EXTRAS = new Set([
+  0x0152, 0x0153, 0x0160, 0x0161, 0x0178, 0x017d, 0x017e, 0x0192, 0x02c6, 0x02dc, 0x2013, 0x2014,
+  0x2018, 0x2019, 0x201a, 0x201c, 0x201d, 0x201e, 0x2020, 0x2021, 0x2022, 0x2026, 0x2030, 0x2039,
+  0x203a, 0x20ac, 0x2122,
+]);
+
+/**
+ * Suffixes of the names each family variant is registered under
+ */
+const VARIANT_SUFFIXES: Record<keyof PdfFontFamily, string> = {
+  regular: '',
+  bold: '-Bold',
+  italic: '-Italic',
+  boldItalic: '-BoldItalic',
+};
+
+/**
+ * Fonts available to each document being rendered
+ */
+const documentFonts = new WeakMap<PDFKit.PDFDocument, PdfFontSet>();
+
+/**
+ * Fonts registered for one document, with variant resolution and glyph fallback
+ */
+export class PdfFontSet {
+  private families: PdfFontVariants[];
+  private fallback: string[];
+  private coverage: GlyphCoverage;
+
+  constructor(
+    customFamilies: PdfFontVariants[] = [],
+    fallback: string[] = [],
+    coverage: GlyphCoverage = (_font, codePoint) => hasStandardGlyph(codePoint)
+  ) {
+    this.families = [...STANDARD_FONT_FAMILIES, ...customFamilies];
+    this.fallback = fallback;
+    this.coverage = coverage;
+  }
+
+  /**
+   * Resolve the bold/italic variant of a font
+   */
+  resolve(font: string, bold?: boolean, italic?: boolean): string {
+    const family = this.families.find((f) => Object.values(f).includes(font));
+    if (!family) {
+      return font;
+    }
+
+    const isBold = Boolean(bold) || font === family.bold || font === family.boldItalic;
+    const isItalic = Boolean(italic) || font === family.italic || font === family.boldItalic;
+
+    if (isBold && isItalic) return family.boldItalic;
+    if (isBold) return family.bold;
+    if (isItalic) return family.italic;
+    return family.regular;
+  }
+
+  /**
+   * Split text into segments, drawing each character with the first of the
+   * font and the fallback fonts (in the same style) that has a glyph for it.
+   * Characters no font covers stay in the primary font.
+   */
+  split(text: string, font: string, bold?: boolean, italic?: boolean): PdfFontSegment[] {
+    const primary = this.resolve(font, bold, italic);
+    if (this.fallback.length === 0) {
+      return [{ text, font: primary }];
+    }
+
+    // Fallbacks take the style of the primary font, so 'Helvetica-Bold' falls back to bold
+    const family = this.families.find((f) => Object.values(f).includes(primary));
+    const isBold = primary === family?.bold || primary === family?.boldItalic;
+    const isItalic = primary === family?.italic || primary === family?.boldItalic;
+    const candidates = [
+      primary,
+      ...this.fallback.map((name) => this.resolve(name, isBold, isItalic)),
+    ];
+    const segments: PdfFontSegment[] = [];
+
+    for (const char of text) {
+      const codePoint = char.codePointAt(0) ?? 0;
+      const last = segments[segments.length - 1];
+
+      // Whitespace joins the current segment rather than forcing a font switch
+      const chosen =
+        last && /\s/.test(char)
+          ? last.font
+          : (candidates.find((name) => this.coverage(name, codePoint)) ?? primary);
+
+      if (last && last.font === chosen) {
+        last.text += char;
+      } else {
+        segments.push({ text: char, font: chosen });
+      }
+    }
+
+    return segments.length > 0 ? segments : [{ text, font: primary }];
+  }
+}
+
+/**
+ * Register the custom font families in the styles with a document and set
+ * up glyph fallback. Relative font paths are resolved against `baseDir`.
+ */
+export function registerPdfFonts(
+  doc: PDFKit.PDFDocument,
+  fonts: PdfStyles['fonts'],
+  baseDir: string = process.cwd()
+): PdfFontSet {
+  const families: PdfFontVariants[] = [];
+  const sources = new Map<string, string | Buffer>();
+
+  for (const [name, family] of Object.entries(fonts?.families ?? {})) {
+    if (!family.regular) {
+      throw new ConversionError(`Font family "${name}" has no regular font`, 'pdf');
+    }
+
+    const variants = {} as PdfFontVariants;
+    for (const [variant, suffix] of Object.entries(VARIANT_SUFFIXES)) {
+      const key = variant as keyof PdfFontFamily;
+      // Missing variants reuse the regular font
+      const source = family[key] ?? family.regular;
+      const fontName = `${name}${suffix}`;
+
+      const resolved = resolveFontSource(source, baseDir, name);
+      doc.registerFont(fontName, resolved);
+      variants[key] = fontName;
+      sources.set(fontName, resolved);
+    }
+    families.push(variants);
+  }
+
+  // Font files are opened with fontkit on first use, so unused fallbacks are never read
+  const programs = new Map<string, Font | null>();
+  const coverage: GlyphCoverage = (font, codePoint) => {
+    const source = sources.get(font);
+    if (source === undefined) {
+      return hasStandardGlyph(codePoint);
+    }
+    if (!programs.has(font)) {
+      programs.set(font, openFontProgram(source));
+    }
+    return programs.get(font)?.hasGlyphForCodePoint(codePoint) ?? true;
+  };
+
+  return usePdfFonts(doc, new PdfFontSet(families, fonts?.fallback ?? [], coverage));
+}
+
+/**
+ * Use a font set for the text drawn in a document
+ */
+export function usePdfFonts(doc: PDFKit.PDFDocument, fonts: PdfFontSet): PdfFontSet {
+  documentFonts.set(doc, fonts);
+  return fonts;
+}
+
+/**
+ * Fonts registered for a document (the standard fonts if none were registered)
+ */
+export function getPdfFonts(doc: PDFKit.PDFDocument): PdfFontSet {
+  return documentFonts.get(doc) ?? new PdfFontSet();
+}
+
+/**
+ * Width of a line of text, measuring each fallback segment in its own font
+ */
+export function measureText(doc: PDFKit.PDFDocument, text: string, style: PdfTextStyle): number {
+  return getPdfFonts(doc)
+    .split(text, style.font)
+    .reduce(
+      (width, segment) =>
+        width + doc.font(segment.font).fontSize(style.fontSize).widthOfString(segment.text),
+      0
+    );
+}
+
+/**
+ * Break text into lines that fit a width, between words where possible
+ */
+export function wrapText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  style: PdfTextStyle,
+  width: number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.match(/\s*\S+\s*|\s+/g) ?? ['']) {
+      if (line && measureText(doc, (line + word).trimEnd(), style) > width) {
+        lines.push(line.trimEnd());
+        line = '';
+      }
+
+      // A word wider than the whole line is broken between characters
+      if (!line && measureText(doc, word.trim(), style) > width) {
+        for (const char of word.trim()) {
+          if (line && measureText(doc, line + char, style) > width) {
+            lines.push(line);
+            line = '';
+          }
+          line += char;
+        }
+        line += ' ';
+        continue;
+      }
+
+      line += line ? word : word.trimStart();
+    }
+
+    lines.push(line.trimEnd());
+  }
+
+  return lines;
+}
+
+/**
+ * Height of text wrapped to a width
+ */
+export function heightOfText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  style: PdfTextStyle,
+  width: number,
+  lineGap = 0
+): number {
+  return wrapText(doc, text, style, width).length * lineHeight(doc, style, lineGap);
+}
+
+/**
+ * Draw text at a position, switching to a fallback font for characters the
+ * font lacks. Lines are aligned by their full width, since PDFKit aligns each
+ * continued fragment on its own. Returns the y position below the text.
+ */
+export function drawText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  style: PdfTextStyle,
+  options: PdfTextOptions = {}
+): number {
+  const { width, align = 'left', goTo } = options;
+  const wrap = width !== undefined && options.lineBreak !== false;
+  const lines = wrap ? wrapText(doc, text, style, width) : [text.replace(/\n/g, ' ')];
+  const height = lineHeight(doc, style, options.lineGap);
+
+  if (!wrap && options.ellipsis && width !== undefined) {
+    lines[0] = truncateText(doc, lines[0], style, width);
+  }
+
+  lines.forEach((line, index) => {
+    const lineWidth = measureText(doc, line, style);
+    const lineTop = y + index * height;
+    let left = x;
+    if (width !== undefined && align !== 'left') {
+      left += align === 'center' ? (width - lineWidth) / 2 : width - lineWidth;
+    }
+
+    // One link annotation covers the whole line rather than each segment
+    if (goTo && lineWidth > 0) {
+      doc.goTo(left, lineTop, lineWidth, height, goTo);
+    }
+
+    for (const segment of getPdfFonts(doc).split(line, style.font)) {
+      doc
+        .font(segment.font)
+        .fontSize(style.fontSize)
+        .text(segment.text, left, lineTop, { lineBreak: false });
+      left += doc.widthOfString(segment.text);
+    }
+  });
+
+  // Leave the base font selected for callers that keep writing in it
+  doc.font(style.font).fontSize(style.fontSize);
+  doc.x = x;
+  return y + lines.length * height;
+}
+
+/**
+ * Line height of a style, from its primary font
+ */
+function lineHeight(doc: PDFKit.PDFDocument, style: PdfTextStyle, lineGap = 0): number {
+  return doc.font(style.font).fontSize(style.fontSize).currentLineHeight(true) + lineGap;
+}
+
+/**
+ * Shorten a line to fit a width, ending it with an ellipsis
+ */
+function truncateText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  style: PdfTextStyle,
+  width: number
+): string {
+  if (measureText(doc, text, style) <= width) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  while (chars.length > 0 && measureText(doc, `${chars.join('').trimEnd()}…`, style) > width) {
+    chars.pop();
+  }
+  return `${chars.join('').trimEnd()}…`;
+}
+
+/**
+ * Resolve relative font family paths against a directory (used for template
+ * styles, whose font files sit next to the template)
+ */
+export function resolveFontPaths(styles: PdfStyles, dir: string): PdfStyles {
+  const families = styles.fonts?.families;
+  if (!families) {
+    return styles;
+  }
+
+  const resolved: Record<string, PdfFontFamily> = {};
+  for (const [name, family] of Object.entries(families)) {
+    const paths: PdfFontFamily = { ...family };
+    for (const variant of Object.keys(VARIANT_SUFFIXES) as (keyof PdfFontFamily)[]) {
+      const source = family[variant];
+      if (typeof source === 'string') {
+        paths[variant] = resolve(dir, source);
+      }
+    }
+    resolved[name] = paths;
+  }
+
+  return { ...styles, fonts: { ...styles.fonts, families: resolved } };
+}
+
+/**
+ * Check whether the standard fonts can encode a code point
+ */
+export function hasStandardGlyph(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x20 && codePoint <= 0x7e) ||
+    (codePoint >= 0xa0 && codePoint <= 0xff) ||
+    WIN_ANSI_EXTRAS.has(codePoint)
+  );
+}
+
+/**
+ * Open a font file with fontkit to look up its glyphs (the first font of a
+ * collection); null when fontkit cannot read it
+ */
+function openFontProgram(source: string | Buffer): Font | null {
+  try {
+    const font = typeof source === 'string' ? openSync(source) : create(source);
+    return 'fonts' in font ? (font.fonts[0] ?? null) : font;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a font file path, checking that it exists
+ */
+function resolveFontSource(
+  source: string | Buffer,
+  baseDir: string,
+  family: string
+): string | Buffer {
+  if (Buffer.isBuffer(source)) {
+    return source;
+  }
+
+  const path = resolve(baseDir, source);
+  if (!existsSync(path)) {
+    throw new ConversionError(`Font file for family "${family}" not found: ${path}`, 'pdf');
+  }
+  return path;
+}
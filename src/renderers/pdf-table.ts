@@ -0,0 +1,279 @@
+/**
+ * Table layout engine for the PDF renderer
+ *
+ * Lays out a grid of cells using PDFKit text measurement: column widths
+ * are derived from each column's minimum (longest word) and natural
+ * (unwrapped) widths, cells wrap within their column, and the header row
+ * is repeated when a table breaks across pages. Plain text cells are
+ * measured and drawn with the document's fallback fonts; formatted cells
+ * measure and draw themselves.
+ */
+import { drawText, heightOfText, measureText, type PdfTextStyle } from './pdf-fonts.js';
+
+/**
+ * Column alignment (mdast `align` values)
+ */
+export type PdfTableAlign = 'left' | 'right' | 'center' | null | undefined;
+
+/**
+ * Table styling options
+ */
+export interface PdfTableStyle {
+  /** Font for body cells */
+  font: string;
+  /** Font for header cells */
+  headerFont: string;
+  /** Font size in points */
+  fontSize: number;
+  /** Inner cell padding in points */
+  padding: number;
+  /** Border colour */
+  borderColor: string;
+  /** Header row background colour */
+  headerBackground: string;
+  /** Text colour */
+  textColor: string;
+}
+
+/**
+ * Formatted cell content, measured and drawn by the caller
+ */
+export interface PdfTableCell {
+  /** Width of the widest word (`min`) and of the longest unwrapped line (`natural`) */
+  widths(): { min: number; natural: number };
+  /** Height of the content wrapped to a width */
+  height(width: number): number;
+  /** Draw the content, returning the y position below it */
+  draw(x: number, y: number, width: number, align: PdfTableAlign): number;
+}
+
+/**
+ * Table content to lay out
+ */
+export interface PdfTableData {
+  /** Rows of cells; the first row is the header when `hasHeader` is set */
+  rows: (string | PdfTableCell)[][];
+  /** Column alignments */
+  align?: PdfTableAlign[];
+  /** Whether the first row is a header row */
+  hasHeader?: boolean;
+}
+
+/**
+ * Default table styles
+ */
+export const DEFAULT_TABLE_STYLE: PdfTableStyle = {
+  font: 'Helvetica',
+  headerFont: 'Helvetica-Bold',
+  fontSize: 10,
+  padding: 5,
+  borderColor: '#dfe2e5',
+  headerBackground: '#f6f8fa',
+  textColor: 'black',
+};
+
+/**
+ * Render a table at the current position, `offset` from the left margin,
+ * advancing doc.y past it
+ */
+export function renderPdfTable(
+  doc: PDFKit.PDFDocument,
+  table: PdfTableData,
+  style: PdfTableStyle = DEFAULT_TABLE_STYLE,
+  offset = 0
+): void {
+  const columnCount = Math.max(0, ...table.rows.map((row) => row.length));
+  if (columnCount === 0) {
+    return;
+  }
+
+  // Normalise ragged rows
+  const rows = table.rows.map((row) =>
+    Array.from({ length: columnCount }, (_, index) => row[index] ?? '')
+  );
+
+  const left = doc.page.margins.left + offset;
+  const availableWidth = doc.page.width - left - doc.page.margins.right;
+  const widths = calculateColumnWidths(doc, rows, availableWidth, style, table.hasHeader);
+
+  const header = table.hasHeader ? rows[0] : undefined;
+  let y = doc.y;
+
+  rows.forEach((row, rowIndex) => {
+    const isHeader = header !== undefined && rowIndex === 0;
+    const height = measureRow(doc, row, widths, style, isHeader);
+
+    // Break to a new page if the row doesn't fit, repeating the header row
+    if (y + height > pageBottom(doc) && y > doc.page.margins.top) {
+      doc.addPage();
+      y = doc.page.margins.top;
+
+      if (header && !isHeader) {
+        const headerHeight = measureRow(doc, header, widths, style, true);
+        y += drawRow(doc, header, widths, left, y, headerHeight, style, true, table.align);
+      }
+    }
+
+    y += drawRow(doc, row, widths, left, y, height, style, isHeader, table.align);
+  });
+
+  doc.x = doc.page.margins.left;
+  doc.y = y;
+}
+
+/**
+ * Calculate column widths that fit the available width
+ */
+export function calculateColumnWidths(
+  doc: PDFKit.PDFDocument,
+  rows: (string | PdfTableCell)[][],
+  availableWidth: number,
+  style: PdfTableStyle = DEFAULT_TABLE_STYLE,
+  hasHeader = false
+): number[] {
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const minWidths = new Array<number>(columnCount).fill(0);
+  const naturalWidths = new Array<number>(columnCount).fill(0);
+  const chrome = style.padding * 2;
+
+  rows.forEach((row, rowIndex) => {
+    const textStyle = cellStyle(style, hasHeader && rowIndex === 0);
+
+    row.forEach((cell, index) => {
+      const { min, natural } =
+        typeof cell === 'string' ? measureCellText(doc, cell, textStyle) : cell.widths();
+
+      minWidths[index] = Math.max(minWidths[index], min + chrome);
+      naturalWidths[index] = Math.max(naturalWidths[index], natural + chrome);
+    });
+  });
+
+  const totalNatural = sum(naturalWidths);
+  if (totalNatural <= availableWidth) {
+    return naturalWidths;
+  }
+
+  const totalMin = sum(minWidths);
+  if (totalMin >= availableWidth) {
+    // Even the longest words don't fit: scale down and break words between characters
+    return minWidths.map((width) => (width / totalMin) * availableWidth);
+  }
+
+  // Give every column its minimum, then share the rest in proportion to how much it wants
+  const extra = availableWidth - totalMin;
+  const wants = naturalWidths.map((width, index) => width - minWidths[index]);
+  const totalWants = sum(wants);
+
+  return minWidths.map((width, index) =>
+    totalWants > 0 ? width + (wants[index] / totalWants) * extra : width
+  );
+}
+
+/**
+ * Width of the widest word and of the longest line of plain cell text
+ */
+function measureCellText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  style: PdfTextStyle
+): { min: number; natural: number } {
+  return {
+    min: Math.max(0, ...text.split(/\s+/).map((word) => measureText(doc, word, style))),
+    natural: Math.max(0, ...text.split('\n').map((line) => measureText(doc, line, style))),
+  };
+}
+
+/**
+ * Measure the height of a row (tallest wrapped cell plus padding)
+ */
+function measureRow(
+  doc: PDFKit.PDFDocument,
+  row: (string | PdfTableCell)[],
+  widths: number[],
+  style: PdfTableStyle,
+  isHeader: boolean
+): number {
+  const textStyle = cellStyle(style, isHeader);
+  const heights = row.map((cell, index) => {
+    const width = Math.max(1, widths[index] - style.padding * 2);
+    return typeof cell === 'string'
+      ? heightOfText(doc, cell || ' ', textStyle, width)
+      : cell.height(width);
+  });
+
+  return Math.max(...heights) + style.padding * 2;
+}
+
+/**
+ * Draw a row's background, cell content and borders, returning the row's
+ * height: the measured height, or more if formatted content came out taller
+ */
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  row: (string | PdfTableCell)[],
+  widths: number[],
+  left: number,
+  y: number,
+  height: number,
+  style: PdfTableStyle,
+  isHeader: boolean,
+  align: PdfTableAlign[] = []
+): number {
+  const totalWidth = sum(widths);
+
+  if (isHeader) {
+    doc.rect(left, y, totalWidth, height).fill(style.headerBackground);
+  }
+
+  const textStyle = cellStyle(style, isHeader);
+
+  let x = left;
+  let bottom = y + height;
+  row.forEach((cell, index) => {
+    const innerWidth = Math.max(1, widths[index] - style.padding * 2);
+
+    doc.fillColor(style.textColor);
+    const textBottom =
+      typeof cell === 'string'
+        ? drawText(doc, cell, x + style.padding, y + style.padding, textStyle, {
+            width: innerWidth,
+            align: align[index] || 'left',
+          })
+        : cell.draw(x + style.padding, y + style.padding, innerWidth, align[index]);
+    bottom = Math.max(bottom, textBottom + style.padding);
+
+    x += widths[index];
+  });
+
+  x = left;
+  for (const width of widths) {
+    doc
+      .rect(x, y, width, bottom - y)
+      .lineWidth(0.5)
+      .stroke(style.borderColor);
+    x += width;
+  }
+
+  return bottom - y;
+}
+
+/**
+ * Font and size of a row's cell text
+ */
+function cellStyle(style: PdfTableStyle, isHeader: boolean): PdfTextStyle {
+  return { font: isHeader ? style.headerFont : style.font, fontSize: style.fontSize };
+}
+
+/**
+ * Bottom of the writable area of the current page
+ */
+function pageBottom(doc: PDFKit.PDFDocument): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+/**
+ * Sum an array of numbers
+ */
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -1,8 +1,42 @@
 import PDFDocument from 'pdfkit';
+import { dirname } from 'path';
 import type { Root } from 'mdast';
-import type { RenderOptions, DocumentMetadata, PdfStyles } from '../types/index.js';
+import type {
+  RenderOptions,
+  DocumentMetadata,
+  PdfStyles,
+  PdfPageMarks,
+  TocEntry,
+  TocOptions,
+} from '../types/index.js';
 import { ConversionError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { deepMerge } from '../utils/merge.js';
+import { parsePdfTemplate } from '../templates/pdf.js';
+import { resolveImages, splitImages, type ResolvedImage } from '../utils/images.js';
+import { documentPlaceholders, fillPlaceholders } from '../utils/page-marks.js';
+import { PAGE_SIZE } from '../utils/page-size.js';
+import { resolveTocOptions, collectHeadings, collectToc } from '../core/toc.js';
+import {
+  resolveHighlightOptions,
+  highlightLines,
+  tokenColor,
+  type HighlightToken,
+} from '../core/highlight.js';
+import {
+  registerPdfFonts,
+  getPdfFonts,
+  resolveFontPaths,
+  drawText,
+  measureText,
+  type PdfTextStyle,
+} from './pdf-fonts.js';
+import {
+  renderPdfTable,
+  DEFAULT_TABLE_STYLE,
+  type PdfTableAlign,
+  type PdfTableCell,
+} from './pdf-table.js';
 
 /**
  * Default PDF styles
@@ -30,8 +64,68 @@ const DEFAULT_STYLES: PdfStyles = {
     code: 10,
   },
   lineHeight: 1.5,
+  pageSize: PAGE_SIZE.name,
+  layout: 'portrait',
+  colors: {
+    text: 'black',
+    heading: 'black',
+    link: '#0366d6',
+    codeBackground: '#f6f8fa',
+    blockquote: '#6a737d',
+    border: '#dfe2e5',
+  },
+  outline: {
+    enabled: true,
+    depth: 6,
+  },
 };
 
+/**
+ * Images resolved for the document, keyed by URL
+ */
+type ImageMap = Map<string, ResolvedImage>;
+
+/**
+ * Points per CSS pixel (images are sized at 96 DPI)
+ */
+const PX_TO_PT = 0.75;
+
+/**
+ * Indentation per list nesting level, in points
+ */
+const LIST_INDENT = 18;
+
+/**
+ * Table of contents line height, as a multiple of the body font size
+ */
+const TOC_LINE_SPACING = 1.8;
+
+/**
+ * Marker drawn beside code rows continued from the previous row
+ */
+const WRAP_MARK = '\u00bb';
+
+/**
+ * Open outline item at a heading depth
+ */
+interface OutlineLevel {
+  depth: number;
+  item: PDFKit.PDFOutline;
+}
+
+/**
+ * PDFKit document with the named destination method its type definitions omit
+ */
+type DestinationDocument = PDFKit.PDFDocument & {
+  addNamedDestination(name: string, ...args: (string | number | null)[]): void;
+};
+
+/**
+ * Text options as PDFKit reads them: a null `goTo` clears the destination
+ * carried over from continued text, which the type definitions do not allow
+ */
+type RunTextOptions = Omit<PDFKit.Mixins.TextOptions, 'goTo'> & { goTo: string | null };
+
 /**
  * Render AST to PDF buffer
  */
@@ -39,11 +133,33 @@ export async function renderPdf(ast: Root, options: RenderOptions = {}): Promise
   try {
     logger.debug('Rendering to PDF');
 
-    const styles = DEFAULT_STYLES;
+    // Template styles sit between the defaults and per-call overrides
+    const templateStyles =
+      options.template?.type === 'pdf'
+        ? resolveFontPaths(
+            parsePdfTemplate(options.template.content, options.template.id),
+            dirname(options.template.path)
+          )
+        : undefined;
+    // Format-neutral page marks and highlighting sit between the template and PDF styles
+    const shared: PdfStyles = {
+      header: options.header,
+      footer: options.footer,
+      highlight: options.highlight,
+    };
+    const styles = deepMerge(
+      deepMerge(deepMerge(DEFAULT_STYLES, templateStyles), shared),
+      options.styles?.pdf
+    );
+    const toc = resolveTocOptions(options.toc);
     const chunks: Buffer[] = [];
 
     const doc = new PDFDocument({
-      size: 'A4',
+      size: styles.pageSize ?? PAGE_SIZE.name,
+      layout: styles.layout ?? 'portrait',
+      // Buffered pages can be revisited to fill in page marks, the table of contents
+      // and the borders of blocks that span pages
+      bufferPages: true,
       margins: {
         top: styles.margins?.top ?? 72,
         bottom: styles.margins?.bottom ?? 72,
@@ -59,11 +175,15 @@ export async function renderPdf(ast: Root, options: RenderOptions = {}): Promise
       },
     });
 
+    registerPdfFonts(doc, styles.fonts, options.baseDir);
+
     // Collect PDF chunks
     doc.on('data', (chunk: Buffer) => chunks.push(chunk));
 
     // Render the AST to PDF
-    await renderAstToPdf(doc, ast, styles, options.metadata);
+    const images = await resolveImages(ast, options);
+    await renderAstToPdf(doc, ast, styles, images, options.metadata, toc);
+    renderPageMarks(doc, styles, options.metadata, hasTitlePage(styles, options.metadata));
 
     // Finalize the PDF
     doc.end();
@@ -92,17 +212,190 @@ async function renderAstToPdf(
   doc: PDFKit.PDFDocument,
   ast: Root,
   styles: PdfStyles,
-  metadata?: DocumentMetadata
+  images: ImageMap,
+  metadata?: DocumentMetadata,
+  toc?: Required<TocOptions>
 ): Promise<void> {
   // Add title page if title is provided
-  if (metadata?.title) {
+  if (metadata && hasTitlePage(styles, metadata)) {
     renderTitlePage(doc, metadata, styles);
   }
 
+  // Reserve pages for the table of contents; it is drawn once page numbers are known
+  const tocEntries = toc ? collectToc(ast, toc) : [];
+  const tocStart = tocEntries.length > 0 ? reserveTocPages(doc, tocEntries.length, styles) : -1;
+  const headings = collectHeadings(ast);
+  const headingPages = new Map<string, number>();
+  const outlineDepth = styles.outline?.enabled === false ? 0 : (styles.outline?.depth ?? 6);
+  const outlineStack: OutlineLevel[] = [];
+
   // Render each node
   for (const node of ast.children) {
-    await renderNodeToPdf(doc, node, styles);
+    const entry = node.type === 'heading' ? headings.get(node) : undefined;
+    if (entry) {
+      keepHeadingWithContent(doc, entry, styles);
+
+      // Every heading is a destination for in-document links, not only the TOC
+      headingPages.set(entry.id, markHeading(doc, entry));
+      if (entry.depth <= outlineDepth && entry.text) {
+        addOutlineItem(doc, outlineStack, entry);
+      }
+    }
+
+    await renderNodeToPdf(doc, node, styles, images);
+  }
+
+  if (toc && tocStart !== -1) {
+    renderToc(doc, tocEntries, headingPages, tocStart, styles, toc.title);
+  }
+}
+
+/**
+ * Add empty pages for the table of contents, returning the index of the first
+ */
+function reserveTocPages(doc: PDFKit.PDFDocument, entryCount: number, styles: PdfStyles): number {
+  const lineHeight = (styles.fontSize?.body || 12) * TOC_LINE_SPACING;
+  const available = doc.page.height - doc.page.margins.top - doc.page.margins.bottom;
+  const perPage = Math.max(1, Math.floor(available / lineHeight));
+  // The title takes roughly two lines
+  const pageCount = Math.ceil((entryCount + 2) / perPage);
+  const start = currentPageIndex(doc);
+
+  for (let i = 0; i < pageCount; i++) {
+    doc.addPage();
+  }
+
+  return start;
+}
+
+/**
+ * Start a new page if a heading would be stranded at the bottom of the current one,
+ * so the outline and table of contents point at the page the heading appears on
+ */
+function keepHeadingWithContent(doc: PDFKit.PDFDocument, entry: TocEntry, styles: PdfStyles): void {
+  const fontSize = headingFontSize(styles, entry.depth);
+  if (doc.y + fontSize * 3 > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+/**
+ * Add a named destination for a heading, returning the heading's page index
+ */
+function markHeading(doc: PDFKit.PDFDocument, entry: TocEntry): number {
+  (doc as DestinationDocument).addNamedDestination(
+    entry.id,
+    'XYZ',
+    doc.page.margins.left,
+    doc.y,
+    null
+  );
+  return currentPageIndex(doc);
+}
+
+/**
+ * Add a heading to the outline on the current page, nested under the
+ * closest preceding heading of a lower level
+ */
+function addOutlineItem(doc: PDFKit.PDFDocument, stack: OutlineLevel[], entry: TocEntry): void {
+  while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
+    stack.pop();
   }
+
+  const parent = stack.length > 0 ? stack[stack.length - 1].item : doc.outline;
+  // Top-level entries start expanded so the hierarchy is visible
+  const item = parent.addItem(entry.text, { expanded: stack.length === 0 });
+  stack.push({ depth: entry.depth, item });
+}
+
+/**
+ * Draw the table of contents on the reserved pages, linking each entry to its heading
+ */
+function renderToc(
+  doc: PDFKit.PDFDocument,
+  entries: TocEntry[],
+  headingPages: Map<string, number>,
+  start: number,
+  styles: PdfStyles,
+  title: string
+): void {
+  const fontSize = styles.fontSize?.body || 12;
+  const lineHeight = fontSize * TOC_LINE_SPACING;
+  const minDepth = Math.min(...entries.map((entry) => entry.depth));
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  let page = start;
+
+  doc.switchToPage(page);
+  let y = doc.page.margins.top;
+
+  if (title) {
+    const titleSize = headingFontSize(styles, 2);
+    doc.fillColor(styles.colors?.heading || 'black');
+    drawText(
+      doc,
+      title,
+      left,
+      y,
+      { font: styles.fonts?.heading || 'Helvetica-Bold', fontSize: titleSize },
+      { width, lineBreak: false }
+    );
+    y += titleSize * 2;
+  }
+
+  const entryStyle: PdfTextStyle = { font: styles.fonts?.body || 'Helvetica', fontSize };
+  doc.fillColor(styles.colors?.text || 'black');
+
+  for (const entry of entries) {
+    if (y + lineHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.switchToPage(++page);
+      y = doc.page.margins.top;
+    }
+
+    const pageNumber = String((headingPages.get(entry.id) ?? start) + 1);
+    const numberWidth = measureText(doc, pageNumber, entryStyle) + 12;
+    const indent = (entry.depth - minDepth) * LIST_INDENT;
+
+    drawText(doc, entry.text, left + indent, y, entryStyle, {
+      width: width - indent - numberWidth,
+      lineBreak: false,
+      ellipsis: true,
+      goTo: entry.id,
+    });
+    drawText(doc, pageNumber, left, y, entryStyle, {
+      width,
+      align: 'right',
+      lineBreak: false,
+      goTo: entry.id,
+    });
+
+    y += lineHeight;
+  }
+
+  doc.fillColor('black');
+}
+
+/**
+ * Index of the page currently being written
+ */
+function currentPageIndex(doc: PDFKit.PDFDocument): number {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count - 1;
+}
+
+/**
+ * Font size for a heading level
+ */
+function headingFontSize(styles: PdfStyles, depth: number): number {
+  const fontSizes = styles.fontSize || {};
+  return fontSizes[`h${depth}` as keyof typeof fontSizes] || 16;
+}
+
+/**
+ * Check whether the document starts with a title page
+ */
+function hasTitlePage(styles: PdfStyles, metadata?: DocumentMetadata): boolean {
+  return Boolean(metadata?.title) && styles.titlePage?.enabled !== false;
 }
 
 /**
@@ -113,30 +406,54 @@ function renderTitlePage(
   metadata: DocumentMetadata,
   styles: PdfStyles
 ): void {
-  const pageHeight = doc.page.height;
+  const titlePage = styles.titlePage || {};
+  const subtitleSize = titlePage.subtitleSize ?? 16;
+  const left = doc.page.margins.left;
+  const body = styles.fonts?.body || 'Helvetica';
+  const options = {
+    width: contentWidth(doc),
+    align: titlePage.align ?? 'center',
+  };
 
-  // Center the title vertically
-  doc.y = pageHeight / 3;
+  // Position the title (a third of the way down by default)
+  doc.y = doc.page.height * (titlePage.top ?? 1 / 3);
 
   if (metadata.title) {
-    doc
-      .font(styles.fonts?.heading || 'Helvetica-Bold')
-      .fontSize(36)
-      .text(metadata.title, { align: 'center' });
+    doc.fillColor(titlePage.color || styles.colors?.heading || 'black');
+    doc.y = drawText(
+      doc,
+      metadata.title,
+      left,
+      doc.y,
+      { font: styles.fonts?.heading || 'Helvetica-Bold', fontSize: titlePage.titleSize ?? 36 },
+      options
+    );
   }
 
   doc.moveDown(2);
+  doc.fillColor(styles.colors?.text || 'black');
 
-  if (metadata.author) {
-    doc
-      .font(styles.fonts?.body || 'Helvetica')
-      .fontSize(16)
-      .text(`By ${metadata.author}`, { align: 'center' });
+  if (metadata.author && titlePage.showAuthor !== false) {
+    doc.y = drawText(
+      doc,
+      `By ${metadata.author}`,
+      left,
+      doc.y,
+      { font: body, fontSize: subtitleSize },
+      options
+    );
   }
 
-  if (metadata.date) {
+  if (metadata.date && titlePage.showDate !== false) {
     doc.moveDown();
-    doc.fontSize(12).text(metadata.date, { align: 'center' });
+    doc.y = drawText(
+      doc,
+      metadata.date,
+      left,
+      doc.y,
+      { font: body, fontSize: subtitleSize * 0.75 },
+      options
+    );
   }
 
   // Start new page for content
@@ -144,12 +461,92 @@ function renderTitlePage(
 }
 
 /**
- * Render a single AST node to PDF
+ * Draw the running header and footer on every page
+ */
+function renderPageMarks(
+  doc: PDFKit.PDFDocument,
+  styles: PdfStyles,
+  metadata: DocumentMetadata | undefined,
+  titlePage: boolean
+): void {
+  if (!styles.header && !styles.footer) {
+    return;
+  }
+
+  const range = doc.bufferedPageRange();
+  const documentValues = documentPlaceholders(metadata);
+
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+
+    const values: Record<string, string> = {
+      ...documentValues,
+      page: String(index + 1),
+      pages: String(range.count),
+    };
+    const onTitlePage = titlePage && index === 0;
+
+    if (styles.header && (!onTitlePage || styles.header.showOnTitlePage)) {
+      const fontSize = styles.header.fontSize ?? 9;
+      drawPageMarks(doc, styles.header, (doc.page.margins.top - fontSize) / 2, values, styles);
+    }
+
+    if (styles.footer && (!onTitlePage || styles.footer.showOnTitlePage)) {
+      const fontSize = styles.footer.fontSize ?? 9;
+      const y = doc.page.height - (doc.page.margins.bottom + fontSize) / 2;
+      drawPageMarks(doc, styles.footer, y, values, styles);
+    }
+  }
+}
+
+/**
+ * Draw left/center/right header or footer text at a vertical position
+ */
+function drawPageMarks(
+  doc: PDFKit.PDFDocument,
+  marks: PdfPageMarks,
+  y: number,
+  values: Record<string, string>,
+  styles: PdfStyles
+): void {
+  const slots = [
+    [marks.left, 'left'],
+    [marks.center, 'center'],
+    [marks.right, 'right'],
+  ] as const;
+
+  // Text in the margins would otherwise trigger an automatic page break
+  const bottomMargin = doc.page.margins.bottom;
+  doc.page.margins.bottom = 0;
+
+  for (const [text, align] of slots) {
+    if (!text) continue;
+
+    doc.fillColor(marks.color || '#6a737d');
+    drawText(
+      doc,
+      fillPlaceholders(text, values),
+      doc.page.margins.left,
+      y,
+      { font: styles.fonts?.body || 'Helvetica', fontSize: marks.fontSize ?? 9 },
+      { width: contentWidth(doc), align, lineBreak: false }
+    );
+  }
+
+  doc.page.margins.bottom = bottomMargin;
+  doc.fillColor(styles.colors?.text || 'black');
+}
+
+/**
+ * Render a single AST node to PDF. `offset` indents the node from the left
+ * margin (inside list items and blockquotes).
  */
 async function renderNodeToPdf(
   doc: PDFKit.PDFDocument,
   node: unknown,
-  styles: PdfStyles
+  styles: PdfStyles,
+  images: ImageMap,
+  offset = 0
 ): Promise<void> {
   const n = node as {
     type: string;
@@ -157,32 +554,37 @@ async function renderNodeToPdf(
     value?: string;
     children?: unknown[];
     ordered?: boolean;
+    start?: number | null;
     lang?: string;
   };
 
   switch (n.type) {
     case 'heading':
-      renderHeading(doc, n, styles);
+      renderHeading(doc, n, styles, offset);
       break;
 
     case 'paragraph':
-      renderParagraph(doc, n, styles);
+      renderParagraph(doc, n, styles, images, offset);
       break;
 
     case 'list':
-      renderList(doc, n, styles);
+      await renderList(doc, n, styles, images, 0, offset);
       break;
 
     case 'code':
-      renderCodeBlock(doc, n, styles);
+      renderCodeBlock(doc, n, styles, offset);
       break;
 
     case 'blockquote':
-      renderBlockquote(doc, n, styles);
+      await renderBlockquote(doc, n, styles, images, offset);
+      break;
+
+    case 'table':
+      renderTable(doc, n, styles, offset);
       break;
 
     case 'thematicBreak':
-      renderHorizontalRule(doc);
+      renderHorizontalRule(doc, offset);
       break;
   }
 }
@@ -193,20 +595,19 @@ async function renderNodeToPdf(
 function renderHeading(
   doc: PDFKit.PDFDocument,
   node: { depth?: number; children?: unknown[] },
-  styles: PdfStyles
+  styles: PdfStyles,
+  offset = 0
 ): void {
-  const depth = node.depth || 1;
-  const text = extractText(node);
-  const fontSizes = styles.fontSize || {};
-
-  const sizeKey = `h${depth}` as keyof typeof fontSizes;
-  const fontSize = fontSizes[sizeKey] || 16;
+  const fontSize = headingFontSize(styles, node.depth || 1);
 
   doc.moveDown(0.5);
-  doc
-    .font(styles.fonts?.heading || 'Helvetica-Bold')
-    .fontSize(fontSize)
-    .text(text);
+  renderRuns(doc, extractRuns(node), styles, {
+    x: doc.page.margins.left + offset,
+    width: contentWidth(doc) - offset,
+    font: styles.fonts?.heading || 'Helvetica-Bold',
+    fontSize,
+    color: styles.colors?.heading,
+  });
   doc.moveDown(0.3);
 
   // Reset to body font
@@ -214,83 +615,376 @@ function renderHeading(
 }
 
 /**
- * Render a paragraph
+ * Render a paragraph, placing any images as blocks between its text
  */
 function renderParagraph(
   doc: PDFKit.PDFDocument,
   node: { children?: unknown[] },
-  styles: PdfStyles
+  styles: PdfStyles,
+  images: ImageMap,
+  offset = 0
 ): void {
-  const text = extractText(node);
+  const layout = {
+    x: doc.page.margins.left + offset,
+    width: contentWidth(doc) - offset,
+    font: styles.fonts?.body || 'Helvetica',
+    fontSize: styles.fontSize?.body || 12,
+    lineGap: (styles.lineHeight || 1.5) * 2,
+  };
+  const blocks = splitImages(node.children || []);
 
-  doc
-    .font(styles.fonts?.body || 'Helvetica')
-    .fontSize(styles.fontSize?.body || 12)
-    .text(text, {
-      lineGap: (styles.lineHeight || 1.5) * 2,
-      align: 'left',
+  if (!blocks.some((block) => 'image' in block)) {
+    renderRuns(doc, extractRuns(node), styles, layout);
+    doc.moveDown(0.5);
+    return;
+  }
+
+  for (const block of blocks) {
+    if ('image' in block) {
+      renderImage(doc, block.image, styles, images, offset);
+      continue;
+    }
+
+    const runs = extractRuns({ children: block.inline });
+    if (runs.some((run) => run.text.trim())) {
+      renderRuns(doc, runs, styles, layout);
+      doc.moveDown(0.5);
+    }
+  }
+}
+
+/**
+ * Render an image scaled to fit the page, falling back to its alt text
+ */
+function renderImage(
+  doc: PDFKit.PDFDocument,
+  node: { url: string; alt?: string | null },
+  styles: PdfStyles,
+  images: ImageMap,
+  offset = 0
+): void {
+  const image = images.get(node.url);
+  const left = doc.page.margins.left + offset;
+  const available = contentWidth(doc) - offset;
+
+  // PDFKit can only embed PNG and JPEG images
+  if (!image || (image.type !== 'png' && image.type !== 'jpg')) {
+    renderRuns(doc, [{ text: node.alt || node.url, italic: true }], styles, {
+      x: left,
+      width: available,
+      font: styles.fonts?.body || 'Helvetica',
+      fontSize: styles.fontSize?.body || 12,
+      color: styles.colors?.blockquote,
     });
+    doc.moveDown(0.5);
+    return;
+  }
+
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const maxHeight = bottom - doc.page.margins.top;
+  const scale = Math.min(PX_TO_PT, available / image.width, maxHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  if (doc.y + height > bottom) {
+    doc.addPage();
+  }
+
+  const top = doc.y;
+  doc.image(image.data, left, top, { width, height });
+
+  doc.x = doc.page.margins.left;
+  doc.y = top + height;
   doc.moveDown(0.5);
 }
 
 /**
- * Render a list
+ * Render a list, recursing into nested lists with increasing indentation
  */
-function renderList(
+async function renderList(
   doc: PDFKit.PDFDocument,
-  node: { ordered?: boolean; children?: unknown[] },
-  styles: PdfStyles
-): void {
-  const items = node.children || [];
-  const isOrdered = node.ordered || false;
+  node: { ordered?: boolean; start?: number | null; children?: unknown[] },
+  styles: PdfStyles,
+  images: ImageMap,
+  level = 0,
+  offset = 0
+): Promise<void> {
+  const items = (node.children || []) as {
+    checked?: boolean | null;
+    children?: { type: string; children?: unknown[] }[];
+  }[];
+  const start = typeof node.start === 'number' ? node.start : 1;
+  const font = styles.fonts?.body || 'Helvetica';
+  const fontSize = styles.fontSize?.body || 12;
 
-  doc.font(styles.fonts?.body || 'Helvetica').fontSize(styles.fontSize?.body || 12);
+  const markerLeft = doc.page.margins.left + offset + level * LIST_INDENT;
+  const textLeft = markerLeft + LIST_INDENT;
+  const width = doc.page.width - doc.page.margins.right - textLeft;
+
+  for (const [index, item] of items.entries()) {
+    doc.font(font).fontSize(fontSize);
 
-  items.forEach((item, index) => {
-    const text = extractText(item);
-    const bullet = isOrdered ? `${index + 1}.` : '•';
-    const indent = 20;
+    // Keep the marker on the same page as the item's first line
+    if (doc.y + doc.currentLineHeight(true) > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
 
-    doc.text(`${bullet} ${text}`, doc.x + indent, doc.y, {
-      width: doc.page.width - doc.page.margins.left - doc.page.margins.right - indent,
+    drawListMarker(doc, {
+      ordered: node.ordered || false,
+      number: start + index,
+      level,
+      checked: item.checked,
+      textLeft,
+      y: doc.y,
+      font,
+      fontSize,
+      color: styles.colors?.text || 'black',
     });
-  });
 
-  doc.moveDown(0.5);
+    const children = item.children || [];
+    if (children.length === 0) {
+      doc.text('', textLeft, doc.y, { width });
+    }
+
+    for (const child of children) {
+      if (child.type === 'paragraph') {
+        renderRuns(doc, extractRuns(child), styles, {
+          x: textLeft,
+          width,
+          font,
+          fontSize,
+          lineGap: (styles.lineHeight || 1.5) * 2,
+        });
+      } else if (child.type === 'list') {
+        await renderList(doc, child, styles, images, level + 1, offset);
+      } else {
+        await renderNodeToPdf(doc, child, styles, images, textLeft - doc.page.margins.left);
+      }
+    }
+  }
+
+  if (level === 0) {
+    doc.moveDown(0.5);
+  }
+  doc.x = doc.page.margins.left;
+}
+
+/**
+ * Draw a list marker: a number/letter for ordered lists, a bullet shape
+ * for unordered lists (varying per level) or a checkbox for task items
+ */
+function drawListMarker(
+  doc: PDFKit.PDFDocument,
+  marker: {
+    ordered: boolean;
+    number: number;
+    level: number;
+    checked?: boolean | null;
+    textLeft: number;
+    y: number;
+    font: string;
+    fontSize: number;
+    color: string;
+  }
+): void {
+  const { textLeft, y, fontSize } = marker;
+  const color = marker.color;
+
+  doc.save();
+
+  if (typeof marker.checked === 'boolean') {
+    const size = fontSize * 0.65;
+    const left = textLeft - 6 - size;
+    const top = y + fontSize * 0.1;
+
+    doc.rect(left, top, size, size).lineWidth(0.8).stroke(color);
+    if (marker.checked) {
+      doc
+        .moveTo(left + size * 0.2, top + size * 0.5)
+        .lineTo(left + size * 0.42, top + size * 0.75)
+        .lineTo(left + size * 0.8, top + size * 0.22)
+        .lineWidth(1.2)
+        .stroke(color);
+    }
+  } else if (marker.ordered) {
+    const label = `${formatOrderedMarker(marker.number, marker.level)}.`;
+    const style = { font: marker.font, fontSize };
+    doc.fillColor(color);
+    drawText(doc, label, textLeft - 6 - measureText(doc, label, style), y, style);
+  } else {
+    const cx = textLeft - 9;
+    const cy = y + fontSize * 0.45;
+    const radius = fontSize * 0.17;
+
+    switch (marker.level % 3) {
+      case 0:
+        doc.circle(cx, cy, radius).fill(color);
+        break;
+      case 1:
+        doc.circle(cx, cy, radius).lineWidth(0.8).stroke(color);
+        break;
+      default:
+        doc.rect(cx - radius, cy - radius, radius * 2, radius * 2).fill(color);
+    }
+  }
+
+  doc.restore();
+  doc.y = y;
+}
+
+/**
+ * Format an ordered list number for a nesting level (1., a., i., ...)
+ */
+function formatOrderedMarker(value: number, level: number): string {
+  switch (level % 3) {
+    case 1:
+      return toAlpha(value);
+    case 2:
+      return toRoman(value).toLowerCase();
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Convert a number to a lowercase letter sequence (1 → a, 27 → aa)
+ */
+function toAlpha(value: number): string {
+  let result = '';
+  let n = Math.max(1, value);
+  while (n > 0) {
+    n--;
+    result = String.fromCharCode(97 + (n % 26)) + result;
+    n = Math.floor(n / 26);
+  }
+  return result;
+}
+
+/**
+ * Convert a number to Roman numerals
+ */
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'],
+    [900, 'CM'],
+    [500, 'D'],
+    [400, 'CD'],
+    [100, 'C'],
+    [90, 'XC'],
+    [50, 'L'],
+    [40, 'XL'],
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ];
+  let result = '';
+  let n = Math.max(1, value);
+  for (const [amount, numeral] of numerals) {
+    while (n >= amount) {
+      result += numeral;
+      n -= amount;
+    }
+  }
+  return result;
 }
 
 /**
- * Render a code block
+ * Render a code block line by line, splitting it across pages and
+ * redrawing the background for each page fragment. `offset` indents the
+ * block from the left margin (inside blockquotes).
  */
 function renderCodeBlock(
   doc: PDFKit.PDFDocument,
   node: { value?: string; lang?: string },
-  styles: PdfStyles
+  styles: PdfStyles,
+  offset = 0
 ): void {
   const code = node.value || '';
-  const backgroundColor = '#f6f8fa';
-
-  // Save current position
-  const startY = doc.y;
+  const highlight = resolveHighlightOptions(styles.highlight);
+  const backgroundColor = highlight?.theme.background || styles.colors?.codeBackground || '#f6f8fa';
+  const textColor = highlight?.theme.foreground || styles.colors?.text || 'black';
+  const markColor = highlight?.theme.lineNumber || styles.colors?.blockquote || '#6a737d';
+  const wrapIndicator = Boolean(styles.codeBlock?.wrapIndicator);
 
-  // Calculate text height
-  doc.font(styles.fonts?.code || 'Courier').fontSize(styles.fontSize?.code || 10);
+  const codeStyle: PdfTextStyle = {
+    font: styles.fonts?.code || 'Courier',
+    fontSize: styles.fontSize?.code || 10,
+  };
+  doc.font(codeStyle.font).fontSize(codeStyle.fontSize);
 
-  // Draw background
   const padding = 10;
-  const textWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const left = doc.page.margins.left + offset;
+  const blockWidth = contentWidth(doc) - offset;
+  const lines = highlight
+    ? highlightLines(code, node.lang)
+    : code.split('\n').map((line) => (line ? [{ text: line, scopes: [] }] : []));
 
-  // Measure the text height
-  const textHeight = doc.heightOfString(code, { width: textWidth - padding * 2 });
+  // Line numbers and wrap indicators share a gutter left of the code
+  const gutterText = highlight?.lineNumbers ? String(lines.length) : wrapIndicator ? WRAP_MARK : '';
+  const gutter = gutterText ? measureText(doc, gutterText, codeStyle) + padding : 0;
+  const codeWidth = blockWidth - padding * 2 - gutter;
+  const rowHeight = doc.font(codeStyle.font).fontSize(codeStyle.fontSize).currentLineHeight(true);
 
-  doc
-    .rect(doc.page.margins.left, startY, textWidth, textHeight + padding * 2)
-    .fill(backgroundColor);
+  const rows = lines.flatMap((tokens, index) =>
+    wrapCodeLine(doc, tokens, codeWidth, codeStyle).map((row, part) => ({
+      tokens: row,
+      index,
+      part,
+    }))
+  );
 
-  // Draw the code text
-  doc.fillColor('black').text(code, doc.page.margins.left + padding, startY + padding, {
-    width: textWidth - padding * 2,
-  });
+  let next = 0;
+  while (next < rows.length) {
+    const bottom = doc.page.height - doc.page.margins.bottom;
+    // Start a new page when not even one row fits
+    if (doc.y + rowHeight + padding * 2 > bottom && doc.y > doc.page.margins.top) {
+      doc.addPage();
+      continue;
+    }
+
+    const top = doc.y;
+    const count = Math.max(1, Math.floor((bottom - top - padding * 2) / rowHeight));
+    const fragment = rows.slice(next, next + count);
+
+    doc
+      .rect(left, top, blockWidth, fragment.length * rowHeight + padding * 2)
+      .fill(backgroundColor);
+
+    fragment.forEach((row, offset) => {
+      const y = top + padding + offset * rowHeight;
+      let mark = '';
+      if (row.part === 0 && highlight?.lineNumbers) {
+        mark = String(row.index + 1);
+      } else if (row.part > 0 && wrapIndicator) {
+        mark = WRAP_MARK;
+      }
+
+      if (mark) {
+        doc.fillColor(markColor);
+        drawText(doc, mark, left + padding, y, codeStyle, {
+          width: gutter - padding,
+          align: 'right',
+          lineBreak: false,
+        });
+      }
+
+      let x = left + padding + gutter;
+      for (const token of row.tokens) {
+        doc.fillColor(highlight ? tokenColor(token, highlight.theme) : textColor);
+        drawText(doc, token.text, x, y, codeStyle);
+        x += measureText(doc, token.text, codeStyle);
+      }
+    });
+
+    next += fragment.length;
+    doc.x = left;
+    doc.y = top + fragment.length * rowHeight + padding * 2;
+    if (next < rows.length) {
+      doc.addPage();
+    }
+  }
 
   doc.moveDown(0.5);
 
@@ -298,46 +992,151 @@ function renderCodeBlock(
   doc.font(styles.fonts?.body || 'Helvetica').fontSize(styles.fontSize?.body || 12);
 }
 
+/**
+ * Break a line of code tokens into rows that fit the width, splitting
+ * between characters
+ */
+function wrapCodeLine(
+  doc: PDFKit.PDFDocument,
+  tokens: HighlightToken[],
+  width: number,
+  style: PdfTextStyle
+): HighlightToken[][] {
+  const rows: HighlightToken[][] = [[]];
+  let rowWidth = 0;
+
+  for (const token of tokens) {
+    let text = '';
+    for (const char of token.text) {
+      const charWidth = measureText(doc, char, style);
+      if (rowWidth + charWidth > width && rowWidth > 0) {
+        if (text) {
+          rows[rows.length - 1].push({ text, scopes: token.scopes });
+        }
+        rows.push([]);
+        text = '';
+        rowWidth = 0;
+      }
+      text += char;
+      rowWidth += charWidth;
+    }
+    if (text) {
+      rows[rows.length - 1].push({ text, scopes: token.scopes });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Stroke a vertical rule from a start position down to the current position,
+ * one segment per page when the content in between spans pages
+ */
+function drawPageSpanningRule(
+  doc: PDFKit.PDFDocument,
+  x: number,
+  start: { page: number; y: number },
+  color: string
+): void {
+  const end = { page: currentPageIndex(doc), y: doc.y };
+
+  for (let page = start.page; page <= end.page; page++) {
+    doc.switchToPage(page);
+    const top = page === start.page ? start.y : doc.page.margins.top;
+    const bottom = page === end.page ? end.y : doc.page.height - doc.page.margins.bottom;
+
+    doc.moveTo(x, top).lineTo(x, bottom).lineWidth(3).stroke(color);
+  }
+
+  doc.y = end.y;
+}
+
 /**
  * Render a blockquote
  */
-function renderBlockquote(
+async function renderBlockquote(
   doc: PDFKit.PDFDocument,
   node: { children?: unknown[] },
-  styles: PdfStyles
+  styles: PdfStyles,
+  images: ImageMap,
+  offset = 0
+): Promise<void> {
+  const indent = offset + 20;
+  const borderColor = styles.colors?.border || '#dfe2e5';
+  const left = doc.page.margins.left + indent;
+  const width = contentWidth(doc) - indent;
+  const children = (node.children || []) as { type: string; children?: unknown[] }[];
+
+  const start = { page: currentPageIndex(doc), y: doc.y };
+
+  for (const [index, child] of children.entries()) {
+    if (child.type === 'paragraph') {
+      renderRuns(doc, extractRuns(child), styles, {
+        x: left,
+        width,
+        font: styles.fonts?.body || 'Helvetica',
+        fontSize: styles.fontSize?.body || 12,
+        color: styles.colors?.blockquote,
+      });
+      if (index < children.length - 1) {
+        doc.moveDown(0.5);
+      }
+    } else {
+      await renderNodeToPdf(doc, child, styles, images, indent);
+    }
+  }
+
+  // Draw the left border beside every page fragment of the quote
+  drawPageSpanningRule(doc, doc.page.margins.left + offset + 5, start, borderColor);
+
+  doc.x = doc.page.margins.left;
+  doc.fillColor('black').moveDown(0.5);
+}
+
+/**
+ * Render a table using the table layout engine, `offset` from the left margin.
+ * Cells keep their inline formatting and links.
+ */
+function renderTable(
+  doc: PDFKit.PDFDocument,
+  node: { align?: PdfTableAlign[]; children?: unknown[] },
+  styles: PdfStyles,
+  offset = 0
 ): void {
-  const text = extractText(node);
-  const indent = 20;
-  const borderColor = '#dfe2e5';
-
-  const startY = doc.y;
-
-  doc
-    .font(styles.fonts?.body || 'Helvetica')
-    .fontSize(styles.fontSize?.body || 12)
-    .fillColor('#6a737d')
-    .text(text, doc.x + indent, doc.y, {
-      width: doc.page.width - doc.page.margins.left - doc.page.margins.right - indent,
-    });
+  const tableStyle = {
+    ...DEFAULT_TABLE_STYLE,
+    borderColor: styles.colors?.border || DEFAULT_TABLE_STYLE.borderColor,
+    headerBackground: styles.colors?.codeBackground || DEFAULT_TABLE_STYLE.headerBackground,
+    textColor: styles.colors?.text || DEFAULT_TABLE_STYLE.textColor,
+    font: styles.fonts?.body || 'Helvetica',
+    headerFont: styles.fonts?.heading || 'Helvetica-Bold',
+    fontSize: Math.max(8, (styles.fontSize?.body || 12) - 2),
+  };
+  const rows = (node.children || []).map((row, rowIndex) =>
+    ((row as { children?: unknown[] }).children || []).map((cell) =>
+      createRunsCell(doc, extractRuns(cell), styles, {
+        font: rowIndex === 0 ? tableStyle.headerFont : tableStyle.font,
+        fontSize: tableStyle.fontSize,
+        color: tableStyle.textColor,
+      })
+    )
+  );
 
-  // Draw left border
-  const endY = doc.y;
-  doc
-    .moveTo(doc.page.margins.left + 5, startY)
-    .lineTo(doc.page.margins.left + 5, endY)
-    .lineWidth(3)
-    .stroke(borderColor);
+  doc.moveDown(0.3);
+
+  renderPdfTable(doc, { rows, align: node.align, hasHeader: true }, tableStyle, offset);
 
+  doc.font(styles.fonts?.body || 'Helvetica').fontSize(styles.fontSize?.body || 12);
   doc.fillColor('black').moveDown(0.5);
 }
 
 /**
  * Render a horizontal rule
  */
-function renderHorizontalRule(doc: PDFKit.PDFDocument): void {
+function renderHorizontalRule(doc: PDFKit.PDFDocument, offset = 0): void {
   doc.moveDown(0.5);
 
-  const startX = doc.page.margins.left;
+  const startX = doc.page.margins.left + offset;
   const endX = doc.page.width - doc.page.margins.right;
   const y = doc.y;
 
@@ -347,18 +1146,258 @@ function renderHorizontalRule(doc: PDFKit.PDFDocument): void {
 }
 
 /**
- * Extract text content from a node
+ * Inline text run with formatting
+ */
+interface PdfRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+}
+
+/**
+ * Position and base font of a block of runs
  */
-function extractText(node: unknown): string {
-  const n = node as { value?: string; children?: unknown[] };
+interface RunLayout {
+  x: number;
+  width: number;
+  font: string;
+  fontSize: number;
+  lineGap?: number;
+  color?: string;
+}
 
-  if (n.value) {
-    return n.value;
+/**
+ * Extract formatted text runs from a node's inline content
+ */
+function extractRuns(node: unknown, marks: Omit<PdfRun, 'text'> = {}): PdfRun[] {
+  const n = node as {
+    type?: string;
+    value?: string;
+    url?: string;
+    alt?: string | null;
+    children?: unknown[];
+  };
+  const children = (extra: Omit<PdfRun, 'text'>): PdfRun[] =>
+    (n.children || []).flatMap((child) => extractRuns(child, { ...marks, ...extra }));
+
+  switch (n.type) {
+    case 'text':
+    case 'html':
+      return n.value ? [{ ...marks, text: n.value }] : [];
+    case 'inlineCode':
+      return [{ ...marks, code: true, text: n.value || '' }];
+    case 'break':
+      return [{ ...marks, text: '\n' }];
+    case 'strong':
+      return children({ bold: true });
+    case 'emphasis':
+      return children({ italic: true });
+    case 'delete':
+      return children({ strike: true });
+    case 'link':
+      return children({ link: n.url });
+    case 'image':
+      // Inline images inside lists and quotes are represented by their alt text
+      return n.alt ? [{ ...marks, italic: true, text: n.alt }] : [];
+    default:
+      if (n.children) {
+        return children({});
+      }
+      return n.value ? [{ ...marks, text: n.value }] : [];
   }
+}
 
-  if (n.children && Array.isArray(n.children)) {
-    return n.children.map((child) => extractText(child)).join('');
+/**
+ * Render formatted runs as one flowing block of text, switching fonts per run
+ */
+function renderRuns(
+  doc: PDFKit.PDFDocument,
+  runs: PdfRun[],
+  styles: PdfStyles,
+  layout: RunLayout
+): void {
+  const color = layout.color || styles.colors?.text || 'black';
+
+  if (runs.length === 0) {
+    doc
+      .font(layout.font)
+      .fontSize(layout.fontSize)
+      .text('', layout.x, doc.y, { width: layout.width });
+    return;
   }
 
-  return '';
+  // Runs are split wherever a character has to come from a fallback font
+  const fonts = getPdfFonts(doc);
+  const pieces = runs.flatMap((run) =>
+    fonts
+      .split(
+        run.text,
+        run.code ? styles.fonts?.code || 'Courier' : layout.font,
+        run.bold,
+        run.italic
+      )
+      .map((segment) => ({ run, segment }))
+  );
+
+  pieces.forEach(({ run, segment }, index) => {
+    doc
+      .font(segment.font)
+      .fontSize(layout.fontSize)
+      .fillColor(run.link ? styles.colors?.link || '#0366d6' : color);
+
+    // Every option is set explicitly: PDFKit carries unset options over between continued calls.
+    // `#id` links go to the heading's named destination rather than opening a URI.
+    const internal = run.link?.startsWith('#');
+    const options: RunTextOptions = {
+      width: layout.width,
+      lineGap: layout.lineGap ?? 0,
+      align: 'left',
+      continued: index < pieces.length - 1,
+      link: (!internal && run.link) || null,
+      goTo: (internal && run.link?.slice(1)) || null,
+      underline: Boolean(run.link),
+      strike: Boolean(run.strike),
+    };
+
+    if (index === 0) {
+      doc.text(segment.text, layout.x, doc.y, options as PDFKit.Mixins.TextOptions);
+    } else {
+      doc.text(segment.text, options as PDFKit.Mixins.TextOptions);
+    }
+  });
+
+  doc.fillColor('black');
+}
+
+/**
+ * Word, space or line break of formatted runs, with its width
+ */
+interface RunToken {
+  kind: 'word' | 'space' | 'break';
+  width: number;
+}
+
+/**
+ * Table cell of formatted runs, measured in the fonts the runs are drawn
+ * with and drawn through `renderRuns`
+ */
+function createRunsCell(
+  doc: PDFKit.PDFDocument,
+  runs: PdfRun[],
+  styles: PdfStyles,
+  layout: Omit<RunLayout, 'x' | 'width'>
+): PdfTableCell {
+  const tokens = tokenizeRuns(doc, runs, styles, layout);
+
+  return {
+    widths: () => ({
+      min: Math.max(0, ...tokens.filter((t) => t.kind === 'word').map((t) => t.width)),
+      natural: Math.max(...wrapRunTokens(tokens, Infinity)),
+    }),
+    height: (width) => {
+      const lineHeight = doc.font(layout.font).fontSize(layout.fontSize).currentLineHeight(true);
+      return wrapRunTokens(tokens, width).length * (lineHeight + (layout.lineGap ?? 0));
+    },
+    draw: (x, y, width, align) => {
+      // PDFKit aligns each continued fragment on its own, so a line that fits
+      // is placed by its full width instead; wrapped cells stay left-aligned
+      const lines = wrapRunTokens(tokens, width);
+      let shift = 0;
+      if (lines.length === 1 && (align === 'center' || align === 'right')) {
+        shift = (width - lines[0]) / (align === 'center' ? 2 : 1);
+      }
+
+      doc.y = y;
+      renderRuns(doc, runs, styles, { ...layout, x: x + shift, width: width - shift });
+      return doc.y;
+    },
+  };
+}
+
+/**
+ * Split formatted runs into words, spaces and line breaks measured in their
+ * fonts. A word formatted in several runs stays one word.
+ */
+function tokenizeRuns(
+  doc: PDFKit.PDFDocument,
+  runs: PdfRun[],
+  styles: PdfStyles,
+  layout: Pick<RunLayout, 'font' | 'fontSize'>
+): RunToken[] {
+  const fonts = getPdfFonts(doc);
+  const tokens: RunToken[] = [];
+
+  for (const run of runs) {
+    const font = run.code ? styles.fonts?.code || 'Courier' : layout.font;
+    for (const segment of fonts.split(run.text, font, run.bold, run.italic)) {
+      for (const part of segment.text.split(/(\n|[^\S\n]+)/)) {
+        if (!part) {
+          continue;
+        }
+
+        const kind = part === '\n' ? 'break' : /^\s/.test(part) ? 'space' : 'word';
+        const width =
+          kind === 'break'
+            ? 0
+            : doc.font(segment.font).fontSize(layout.fontSize).widthOfString(part);
+        const last = tokens[tokens.length - 1];
+        if (kind === 'word' && last?.kind === 'word') {
+          last.width += width;
+        } else {
+          tokens.push({ kind, width });
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Widths of the lines tokens wrap into at a width, breaking between words
+ * and inside words wider than a whole line
+ */
+function wrapRunTokens(tokens: RunToken[], width: number): number[] {
+  const lines = [0];
+  let space = 0;
+
+  for (const token of tokens) {
+    if (token.kind === 'break') {
+      lines.push(0);
+      space = 0;
+      continue;
+    }
+    if (token.kind === 'space') {
+      space += token.width;
+      continue;
+    }
+
+    const current = lines[lines.length - 1];
+    if (current > 0 && current + space + token.width > width) {
+      lines.push(0);
+    } else if (current > 0) {
+      lines[lines.length - 1] += space;
+    }
+    space = 0;
+
+    let rest = token.width;
+    while (rest > width && width > 0) {
+      lines[lines.length - 1] = width;
+      lines.push(0);
+      rest -= width;
+    }
+    lines[lines.length - 1] += rest;
+  }
+
+  return lines;
+}
+
+/**
+ * Width of the text area between the page margins
+ */
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
 }
@@ -0,0 +1,472 @@
+import type { Root, Content, PhrasingContent, List, Table } from 'mdast';
+import type { RenderOptions, RtfStyles, DocumentMetadata } from '../types/index.js';
+import { ConversionError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { deepMerge } from '../utils/merge.js';
+import { PAGE_SIZE } from '../utils/page-size.js';
+import { resolveImages } from '../utils/images.js';
+import type { ResolvedImage } from '../utils/images.js';
+
+/**
+ * Default RTF styles
+ */
+const DEFAULT_STYLES: RtfStyles = {
+  margins: {
+    top: 1,
+    bottom: 1,
+    left: 1,
+    right: 1,
+  },
+  fontFamily: 'Times New Roman',
+  codeFontFamily: 'Courier New',
+  fontSize: {
+    body: 12,
+    code: 10,
+  },
+};
+
+/**
+ * Twips (1/20 pt) per inch
+ */
+const TWIPS_PER_INCH = 1440;
+
+/**
+ * Twips per image pixel (at 96 pixels per inch)
+ */
+const TWIPS_PER_PIXEL = 15;
+
+/**
+ * Indent per list level and blockquote, in twips
+ */
+const INDENT = 720;
+
+/**
+ * Heading font sizes relative to the body text
+ */
+const HEADING_SCALES = [1.3, 1.15, 1.01, 0.95, 0.85, 0.85];
+
+/**
+ * Number of levels in an RTF list definition
+ */
+const LIST_LEVELS = 9;
+
+/**
+ * List definition written to the list table: bullets or numbers per level
+ */
+interface ListDefinition {
+  ordered: boolean[];
+  start: number[];
+}
+
+/**
+ * State shared while rendering the document body
+ */
+interface RtfContext {
+  styles: RtfStyles;
+  images: Map<string, ResolvedImage>;
+  lists: ListDefinition[];
+  /** Left indent of the current blockquote, in twips */
+  indent: number;
+}
+
+/**
+ * Render AST to a Rich Text Format document
+ */
+export async function renderRtf(ast: Root, options: RenderOptions = {}): Promise<string> {
+  try {
+    logger.debug('Rendering to RTF');
+
+    const styles = deepMerge(DEFAULT_STYLES, options.styles?.rtf);
+    const context: RtfContext = {
+      styles,
+      images: await resolveImages(ast, options),
+      lists: [],
+      indent: 0,
+    };
+
+    const body = [
+      ...renderTitleBlock(options.metadata, styles),
+      ...ast.children.map((node) => renderBlock(node, context)),
+    ].join('');
+
+    // The list table is written after the body is rendered, once every list is known
+    const rtf = [
+      '{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1\n',
+      buildFontTable(styles),
+      '{\\colortbl;\\red5\\green99\\blue193;}\n',
+      buildStylesheet(styles),
+      buildListTables(context.lists),
+      buildInfo(options.metadata),
+      buildPageSetup(styles),
+      body,
+      '}\n',
+    ].join('');
+
+    logger.debug('RTF rendering complete', { length: rtf.length });
+    return rtf;
+  } catch (error) {
+    throw new ConversionError(
+      `Failed to render RTF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'rtf',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Render the title, author and date at the top of the document
+ */
+function renderTitleBlock(metadata: DocumentMetadata | undefined, styles: RtfStyles): string[] {
+  if (!metadata?.title) {
+    return [];
+  }
+
+  const body = styles.fontSize?.body ?? 12;
+  return [
+    `\\pard\\plain\\qc\\sa120\\f0\\b\\fs${body * 4} ${encodeText(metadata.title)}\\par\n`,
+    ...[metadata.author && `By ${metadata.author}`, metadata.date]
+      .filter((line): line is string => Boolean(line))
+      .map((line) => `\\pard\\plain\\qc\\sa120\\f0\\i\\fs${body * 2} ${encodeText(line)}\\par\n`),
+  ];
+}
+
+/**
+ * Render a block node
+ */
+function renderBlock(node: Content, context: RtfContext): string {
+  const body = (context.styles.fontSize?.body ?? 12) * 2;
+
+  switch (node.type) {
+    case 'heading': {
+      const level = Math.min(node.depth, HEADING_SCALES.length);
+      return (
+        `${headingStyle(level, context.styles)}${indent(context.indent)} ` +
+        `${renderInline(node.children, context)}\\par\n`
+      );
+    }
+
+    case 'paragraph':
+      return `${paragraph(context)} ${renderInline(node.children, context)}\\par\n`;
+
+    case 'list':
+      return renderList(node, context, 0, context.lists.push(describeList(node)));
+
+    case 'code': {
+      const code = (context.styles.fontSize?.code ?? 10) * 2;
+      return node.value
+        .split('\n')
+        .map(
+          (line) =>
+            `\\pard\\plain\\sa0${indent(context.indent)}\\f1\\fs${code} ${encodeText(line)}\\par\n`
+        )
+        .join('');
+    }
+
+    case 'blockquote':
+      return node.children
+        .map((child) => renderBlock(child, { ...context, indent: context.indent + INDENT }))
+        .join('');
+
+    case 'table':
+      return renderTable(node, context);
+
+    case 'thematicBreak':
+      return `\\pard\\plain\\sa160${indent(context.indent)}\\brdrb\\brdrs\\brdrw10\\brsp20\\f0\\fs${body}\\par\n`;
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Control words starting a body paragraph
+ */
+function paragraph(context: RtfContext): string {
+  return `\\pard\\plain\\sa160${indent(context.indent)}\\f0\\fs${(context.styles.fontSize?.body ?? 12) * 2}`;
+}
+
+/**
+ * Left indent control word, if any
+ */
+function indent(twips: number): string {
+  return twips > 0 ? `\\li${twips}` : '';
+}
+
+/**
+ * Control words of a heading style: the "heading N" paragraph style and its formatting
+ */
+function headingStyle(level: number, styles: RtfStyles): string {
+  const size = Math.round((styles.fontSize?.body ?? 12) * HEADING_SCALES[level - 1] * 2);
+  return `\\pard\\plain\\s${level}\\outlinelevel${level - 1}\\sb240\\sa120\\keepn\\f0\\b\\fs${size}`;
+}
+
+/**
+ * Collect whether each nesting level of a list is numbered, and its start number
+ */
+function describeList(node: List): ListDefinition {
+  const definition: ListDefinition = { ordered: [], start: [] };
+
+  const visit = (list: List, level: number) => {
+    if (level >= LIST_LEVELS) return;
+    definition.ordered[level] ??= Boolean(list.ordered);
+    definition.start[level] ??= list.start ?? 1;
+    for (const item of list.children) {
+      for (const child of item.children) {
+        if (child.type === 'list') visit(child, level + 1);
+      }
+    }
+  };
+
+  visit(node, 0);
+  return definition;
+}
+
+/**
+ * Render list items as list paragraphs of a list override, each with its
+ * marker in a `\listtext` group for readers without list support
+ */
+function renderList(node: List, context: RtfContext, level: number, override: number): string {
+  const ilvl = Math.min(level, LIST_LEVELS - 1);
+  const left = context.indent + INDENT * (ilvl + 1);
+  const body = (context.styles.fontSize?.body ?? 12) * 2;
+
+  return node.children
+    .map((item, index) => {
+      const marker = node.ordered ? `${(node.start ?? 1) + index}.` : '•';
+      const checkbox = typeof item.checked === 'boolean' ? `${item.checked ? '☑' : '☐'} ` : '';
+      const start =
+        `\\pard\\plain\\ls${override}\\ilvl${ilvl}\\li${left}\\fi-360\\sa80\\f0\\fs${body}` +
+        `{\\listtext\\f0 ${encodeText(marker)}\\tab}`;
+
+      const [first, ...rest] = item.children;
+      const lead =
+        first?.type === 'paragraph'
+          ? `${start}${encodeText(checkbox)}${renderInline(first.children, context)}\\par\n`
+          : `${start}${encodeText(checkbox)}\\par\n`;
+      const children = first?.type === 'paragraph' ? rest : item.children;
+
+      return (
+        lead +
+        children
+          .map((child) =>
+            child.type === 'list'
+              ? renderList(child, context, level + 1, override)
+              : renderBlock(child, { ...context, indent: left })
+          )
+          .join('')
+      );
+    })
+    .join('');
+}
+
+/**
+ * Render a table with a bold, repeated header row
+ */
+function renderTable(node: Table, context: RtfContext): string {
+  const columns = Math.max(1, ...node.children.map((row) => row.children.length));
+  const margins = context.styles.margins ?? {};
+  const contentWidth =
+    (PAGE_SIZE.width - (margins.left ?? 1) - (margins.right ?? 1)) * TWIPS_PER_INCH -
+    context.indent;
+  const cellWidth = Math.floor(contentWidth / columns);
+  const border = ['t', 'l', 'b', 'r'].map((side) => `\\clbrdr${side}\\brdrs\\brdrw4`).join('');
+  const body = (context.styles.fontSize?.body ?? 12) * 2;
+
+  return node.children
+    .map((row, rowIndex) => {
+      const header = rowIndex === 0;
+      const definition =
+        `\\trowd\\trgaph108\\trleft${context.indent}${header ? '\\trhdr' : ''}` +
+        Array.from(
+          { length: columns },
+          (_, index) => `${border}\\cellx${context.indent + cellWidth * (index + 1)}`
+        ).join('');
+      const cells = Array.from({ length: columns }, (_, index) => {
+        const cell = row.children[index];
+        const content = cell ? renderInline(cell.children, context) : '';
+        return header && content ? `{\\b ${content}}\\cell ` : `${content}\\cell `;
+      });
+      return `${definition}\n\\pard\\plain\\intbl\\f0\\fs${body} ${cells.join('')}\\row\n`;
+    })
+    .join('');
+}
+
+/**
+ * Render phrasing content as RTF paragraph text
+ */
+function renderInline(nodes: PhrasingContent[], context: RtfContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return encodeText(node.value);
+        case 'strong':
+          return `{\\b ${renderInline(node.children, context)}}`;
+        case 'emphasis':
+          return `{\\i ${renderInline(node.children, context)}}`;
+        case 'delete':
+          return `{\\strike ${renderInline(node.children, context)}}`;
+        case 'inlineCode':
+          return `{\\f1\\fs${(context.styles.fontSize?.code ?? 10) * 2} ${encodeText(node.value)}}`;
+        case 'break':
+          return '\\line ';
+        case 'link':
+          return (
+            `{\\field{\\*\\fldinst{HYPERLINK ${hyperlinkInstruction(node.url)}}}` +
+            `{\\fldrslt{\\ul\\cf1 ${renderInline(node.children, context)}}}}`
+          );
+        case 'image':
+          return renderImage(node, context);
+        default:
+          return 'children' in node ? renderInline(node.children, context) : '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * HYPERLINK field argument: `\l "anchor"` for in-document links, otherwise the quoted URL
+ */
+function hyperlinkInstruction(url: string): string {
+  const quote = (value: string) => `"${encodeText(value.replace(/"/g, '%22'))}"`;
+  return url.startsWith('#') ? `\\\\l ${quote(url.slice(1))}` : quote(url);
+}
+
+/**
+ * Render a PNG or JPEG image as a picture scaled to the page width,
+ * falling back to its alt text for other formats
+ */
+function renderImage(node: { url: string; alt?: string | null }, context: RtfContext): string {
+  const image = context.images.get(node.url);
+  if (!image || (image.type !== 'png' && image.type !== 'jpg')) {
+    return `{\\i ${encodeText(node.alt || node.url)}}`;
+  }
+
+  const margins = context.styles.margins ?? {};
+  const contentWidth =
+    (PAGE_SIZE.width - (margins.left ?? 1) - (margins.right ?? 1)) * TWIPS_PER_INCH -
+    context.indent;
+  const scale = Math.min(1, contentWidth / (image.width * TWIPS_PER_PIXEL));
+  const width = Math.round(image.width * TWIPS_PER_PIXEL * scale);
+  const height = Math.round(image.height * TWIPS_PER_PIXEL * scale);
+  const hex = image.data.toString('hex').replace(/.{1,128}/g, '$&\n');
+
+  return (
+    `{\\pict\\${image.type === 'png' ? 'pngblip' : 'jpegblip'}` +
+    `\\picw${image.width}\\pich${image.height}\\picwgoal${width}\\pichgoal${height}\n${hex}}`
+  );
+}
+
+/**
+ * Escape text for RTF: delimiters are backslash-escaped, tabs and newlines
+ * become control words and non-ASCII characters `\u` escapes (UTF-16 code
+ * units as signed 16-bit numbers, with `?` as the fallback character)
+ */
+function encodeText(text: string): string {
+  let result = '';
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const code = text.charCodeAt(index);
+    if (char === '\\' || char === '{' || char === '}') {
+      result += `\\${char}`;
+    } else if (char === '\t') {
+      result += '\\tab ';
+    } else if (char === '\n') {
+      result += '\\line ';
+    } else if (code > 0x7f) {
+      result += `\\u${code > 0x7fff ? code - 0x10000 : code}?`;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the font table: body font as \f0, monospaced code font as \f1
+ */
+function buildFontTable(styles: RtfStyles): string {
+  const font = encodeText(styles.fontFamily ?? 'Times New Roman');
+  const codeFont = encodeText(styles.codeFontFamily ?? 'Courier New');
+  return `{\\fonttbl{\\f0\\fnil\\fcharset0 ${font};}{\\f1\\fmodern\\fcharset0 ${codeFont};}}\n`;
+}
+
+/**
+ * Build the stylesheet with the Normal and "heading N" paragraph styles
+ */
+function buildStylesheet(styles: RtfStyles): string {
+  const body = (styles.fontSize?.body ?? 12) * 2;
+  const headings = HEADING_SCALES.map((_, index) => {
+    const level = index + 1;
+    const definition = headingStyle(level, styles).replace('\\pard\\plain', '');
+    return `{${definition}\\sbasedon0\\snext0 heading ${level};}`;
+  });
+  return `{\\stylesheet{\\s0\\f0\\fs${body} Normal;}${headings.join('')}}\n`;
+}
+
+/**
+ * Build the list table and list override table, one list per top-level list
+ */
+function buildListTables(lists: ListDefinition[]): string {
+  if (lists.length === 0) {
+    return '';
+  }
+
+  const definitions = lists.map((list, index) => {
+    const id = index + 1;
+    const levels = Array.from({ length: LIST_LEVELS }, (_, level) => {
+      const ordered = list.ordered[level] ?? false;
+      const format = ordered
+        ? `\\levelnfc0\\levelnfcn0\\leveljc0\\leveljcn0\\levelfollow0\\levelstartat${list.start[level] ?? 1}` +
+          `{\\leveltext\\'02\\'0${level}.;}{\\levelnumbers\\'01;}`
+        : '\\levelnfc23\\levelnfcn23\\leveljc0\\leveljcn0\\levelfollow0\\levelstartat1' +
+          "{\\leveltext\\'01\\u8226?;}{\\levelnumbers;}";
+      return `{\\listlevel${format}\\fi-360\\li${INDENT * (level + 1)}}`;
+    });
+    return `{\\list\\listtemplateid${id}\\listhybrid${levels.join('')}{\\listname ;}\\listid${id}}`;
+  });
+  const overrides = lists.map(
+    (_, index) => `{\\listoverride\\listid${index + 1}\\listoverridecount0\\ls${index + 1}}`
+  );
+
+  return (
+    `{\\*\\listtable${definitions.join('\n')}}\n` +
+    `{\\*\\listoverridetable${overrides.join('')}}\n`
+  );
+}
+
+/**
+ * Build the \info group from the document metadata
+ */
+function buildInfo(metadata?: DocumentMetadata): string {
+  if (!metadata) {
+    return '';
+  }
+
+  const fields = [
+    metadata.title && `{\\title ${encodeText(metadata.title)}}`,
+    metadata.author && `{\\author ${encodeText(metadata.author)}}`,
+    metadata.description && `{\\doccomm ${encodeText(metadata.description)}}`,
+    metadata.keywords?.length && `{\\keywords ${encodeText(metadata.keywords.join(', '))}}`,
+  ];
+  const date = /^(\d{4})-(\d{2})-(\d{2})/.exec(metadata.date ?? '');
+  if (date) {
+    fields.push(`{\\creatim\\yr${date[1]}\\mo${Number(date[2])}\\dy${Number(date[3])}}`);
+  }
+
+  const info = fields.filter(Boolean).join('');
+  return info ? `{\\info${info}}\n` : '';
+}
+
+/**
+ * Build the page size and margin control words
+ */
+function buildPageSetup(styles: RtfStyles): string {
+  const margins = styles.margins ?? {};
+  const twips = (inches: number) => Math.round(inches * TWIPS_PER_INCH);
+  return (
+    `\\paperw${twips(PAGE_SIZE.width)}\\paperh${twips(PAGE_SIZE.height)}` +
+    `\\margl${twips(margins.left ?? 1)}\\margr${twips(margins.right ?? 1)}` +
+    `\\margt${twips(margins.top ?? 1)}\\margb${twips(margins.bottom ?? 1)}\\widowctrl\n`
+  );
+}
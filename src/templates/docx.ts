@@ -0,0 +1,33 @@
+import JSZip from 'jszip';
+import { TemplateError } from '../utils/errors.js';
+
+/**
+ * Parts a reference document must contain to be used as a DOCX template
+ */
+const REQUIRED_PARTS = [
+  '[Content_Types].xml',
+  'word/document.xml',
+  'word/styles.xml',
+  'word/_rels/document.xml.rels',
+];
+
+/**
+ * Check that a .docx/.dotx file can be used as a reference document
+ */
+export async function validateReferenceDocx(data: Buffer, templateId?: string): Promise<void> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new TemplateError(
+      'Invalid DOCX template: not a .docx or .dotx file',
+      templateId,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const missing = REQUIRED_PARTS.filter((part) => !zip.file(part));
+  if (missing.length > 0) {
+    throw new TemplateError(`Invalid DOCX template: missing ${missing.join(', ')}`, templateId);
+  }
+}
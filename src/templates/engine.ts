@@ -0,0 +1,446 @@
+import { TemplateError } from '../utils/errors.js';
+
+/**
+ * String that is output without escaping
+ */
+export class SafeString {
+  readonly value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/**
+ * Options for rendering a template
+ */
+export interface TemplateRenderOptions {
+  /** Escape function applied to `{{value}}` output (HTML escaping by default) */
+  escape?: (value: string) => string;
+  /** Partials available via `{{> name}}`, taking precedence over registered partials */
+  partials?: Record<string, string>;
+}
+
+/**
+ * Compiled template function
+ */
+export type CompiledTemplate = (data: Record<string, unknown>) => string;
+
+/**
+ * Parsed template node
+ */
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'partial'; name: string; path?: string };
+
+/**
+ * Block node that is still collecting its children while parsing
+ */
+type OpenBlock = Extract<TemplateNode, { type: 'if' | 'each' }> & {
+  keyword: string;
+  inAlternate: boolean;
+  line: number;
+};
+
+/**
+ * Scope frame used to resolve variables
+ */
+interface Scope {
+  value: unknown;
+  locals?: Record<string, unknown>;
+}
+
+/**
+ * Maximum partial nesting depth (guards against recursive partials)
+ */
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Tag syntax: {{{raw}}}, {{& raw}}, {{#block}}, {{/block}}, {{else}}, {{> partial}}, {{! comment}}
+ */
+const TAG_PATTERN = /\\?\{\{\{\s*([\s\S]*?)\s*\}\}\}|\\?\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+/**
+ * Globally registered partials
+ */
+const globalPartials = new Map<string, string>();
+
+/**
+ * Mark a string as safe so it is output without escaping
+ */
+export function raw(value: string): SafeString {
+  return new SafeString(value);
+}
+
+/**
+ * Register a partial usable as `{{> name}}` in every template
+ */
+export function registerPartial(name: string, template: string): void {
+  if (!name || typeof name !== 'string') {
+    throw new TemplateError('Partial name is required');
+  }
+  if (typeof template !== 'string') {
+    throw new TemplateError(`Partial "${name}" must be a string`);
+  }
+  // Parse eagerly so syntax errors surface at registration
+  parseTemplate(template);
+  globalPartials.set(name, template);
+}
+
+/**
+ * Remove a registered partial
+ */
+export function unregisterPartial(name: string): boolean {
+  return globalPartials.delete(name);
+}
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Compile a template into a reusable render function
+ */
+export function compileTemplate(
+  template: string,
+  options: TemplateRenderOptions = {}
+): CompiledTemplate {
+  const nodes = parseTemplate(template);
+  return (data) => renderNodes(nodes, [{ value: data }], options, 0);
+}
+
+/**
+ * Render a template with data
+ */
+export function renderTemplate(
+  template: string,
+  data: Record<string, unknown>,
+  options: TemplateRenderOptions = {}
+): string {
+  return compileTemplate(template, options)(data);
+}
+
+/**
+ * Parse template source into a node tree
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const tags = findTags(source);
+  let position = 0;
+
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inAlternate ? block.alternate : block.body;
+  };
+
+  for (const tag of tags) {
+    if (tag.start > position) {
+      current().push({ type: 'text', value: source.slice(position, tag.start) });
+    }
+    position = tag.end;
+
+    if (tag.escaped) {
+      current().push({ type: 'text', value: tag.text.slice(1) });
+      continue;
+    }
+
+    const content = tag.content;
+    const line = lineAt(source, tag.start);
+
+    if (tag.triple) {
+      current().push({ type: 'value', path: content, raw: true });
+    } else if (content.startsWith('!')) {
+      // Comment
+    } else if (content.startsWith('&')) {
+      current().push({ type: 'value', path: content.slice(1).trim(), raw: true });
+    } else if (content.startsWith('>')) {
+      const [name, path] = content.slice(1).trim().split(/\s+/);
+      if (!name) {
+        throw new TemplateError(`Partial name is required at line ${line}`);
+      }
+      current().push({ type: 'partial', name, path });
+    } else if (content.startsWith('#')) {
+      const [keyword, path] = content.slice(1).trim().split(/\s+/);
+      if (!['if', 'unless', 'each'].includes(keyword) || !path) {
+        throw new TemplateError(`Invalid block tag "{{${content}}}" at line ${line}`);
+      }
+
+      const block: OpenBlock =
+        keyword === 'each'
+          ? { type: 'each', keyword, path, body: [], alternate: [], inAlternate: false, line }
+          : {
+              type: 'if',
+              keyword,
+              path,
+              negate: keyword === 'unless',
+              body: [],
+              alternate: [],
+              inAlternate: false,
+              line,
+            };
+      current().push(block);
+      stack.push(block);
+    } else if (content === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inAlternate) {
+        throw new TemplateError(`Unexpected {{else}} at line ${line}`);
+      }
+      block.inAlternate = true;
+    } else if (content.startsWith('/')) {
+      const keyword = content.slice(1).trim();
+      const block = stack.pop();
+      if (!block || block.keyword !== keyword) {
+        throw new TemplateError(`Unexpected {{/${keyword}}} at line ${line}`);
+      }
+    } else {
+      current().push({ type: 'value', path: content, raw: false });
+    }
+  }
+
+  if (position < source.length) {
+    current().push({ type: 'text', value: source.slice(position) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed {{#${unclosed.keyword}}} block from line ${unclosed.line}`);
+  }
+
+  return root;
+}
+
+/**
+ * Find every tag in the source. Block, else and comment tags that sit alone on
+ * a line are widened to swallow that line so they leave no blank lines behind.
+ */
+function findTags(source: string): {
+  start: number;
+  end: number;
+  text: string;
+  content: string;
+  triple: boolean;
+  escaped: boolean;
+}[] {
+  return Array.from(source.matchAll(TAG_PATTERN), (match) => {
+    const text = match[0];
+    const escaped = text.startsWith('\\');
+    const triple = match[1] !== undefined;
+    const content = (triple ? match[1] : match[2]) ?? '';
+    let start = match.index ?? 0;
+    let end = start + text.length;
+
+    if (!escaped && !triple && /^[#/!]|^else$/.test(content)) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const newline = source.indexOf('\n', end);
+      const lineEnd = newline === -1 ? source.length : newline + 1;
+
+      if (
+        /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+        /^[ \t]*\r?\n?$/.test(source.slice(end, lineEnd))
+      ) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    return { start, end, text, content, triple, escaped };
+  });
+}
+
+/**
+ * Render parsed nodes against a scope stack
+ */
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  options: TemplateRenderOptions,
+  depth: number
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'value': {
+        const value = resolvePath(node.path, scopes);
+        output += formatValue(value, node.raw ? undefined : (options.escape ?? escapeHtml));
+        break;
+      }
+
+      case 'if': {
+        const truthy = isTruthy(resolvePath(node.path, scopes));
+        const branch = truthy !== node.negate ? node.body : node.alternate;
+        output += renderNodes(branch, scopes, options, depth);
+        break;
+      }
+
+      case 'each': {
+        const value = resolvePath(node.path, scopes);
+        const entries: [string | number, unknown][] = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : isPlainObject(value)
+            ? Object.entries(value)
+            : [];
+
+        if (entries.length === 0) {
+          output += renderNodes(node.alternate, scopes, options, depth);
+          break;
+        }
+
+        entries.forEach(([key, item], index) => {
+          const locals = {
+            '@index': index,
+            '@key': key,
+            '@first': index === 0,
+            '@last': index === entries.length - 1,
+          };
+          output += renderNodes(node.body, [...scopes, { value: item, locals }], options, depth);
+        });
+        break;
+      }
+
+      case 'partial': {
+        const partial = options.partials?.[node.name] ?? globalPartials.get(node.name);
+        if (partial === undefined) {
+          throw new TemplateError(`Partial not found: ${node.name}`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Partials nested too deeply (at "${node.name}")`);
+        }
+
+        const partialScopes = node.path
+          ? [...scopes, { value: resolvePath(node.path, scopes) }]
+          : scopes;
+        output += renderNodes(parseTemplate(partial), partialScopes, options, depth + 1);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a dotted path (or `this`, `@index`, ...) against the scope stack.
+ * The first segment is looked up from the innermost scope outwards.
+ * Only own properties are read.
+ */
+function resolvePath(path: string, scopes: Scope[]): unknown {
+  if (path === 'this' || path === '.') {
+    return scopes[scopes.length - 1].value;
+  }
+
+  const segments = path.replace(/^this\./, '').split('.');
+  const [first, ...rest] = segments;
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+
+    if (first.startsWith('@')) {
+      if (scope.locals && hasOwn(scope.locals, first)) {
+        return scope.locals[first];
+      }
+      continue;
+    }
+
+    if (isObject(scope.value) && hasOwn(scope.value, first)) {
+      let value: unknown = scope.value[first];
+      for (const segment of rest) {
+        if (!isObject(value) || !hasOwn(value, segment)) {
+          return undefined;
+        }
+        value = value[segment];
+      }
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert a value to output text
+ */
+function formatValue(value: unknown, escape?: (value: string) => string): string {
+  if (value instanceof SafeString) {
+    return value.value;
+  }
+
+  let text: string;
+  if (value === undefined || value === null || isPlainObject(value)) {
+    text = '';
+  } else if (Array.isArray(value)) {
+    text = value.map((item) => formatValue(item)).join(', ');
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else {
+    text = String(value);
+  }
+
+  return escape ? escape(text) : text;
+}
+
+/**
+ * Template truthiness: empty strings, zero, empty arrays and missing values are false
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (value instanceof SafeString) {
+    return value.value.length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Check if a value is an object whose properties can be read
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Own-property check
+ */
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+/**
+ * Get the 1-based line number of an offset
+ */
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split('\n').length;
+}
@@ -4,6 +4,7 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import type { Template, TemplateConfig } from '../types/index.js';
 import { templateRegistry, TemplateRegistry } from './registry.js';
+import { TemplateStore, getUserTemplatesDir, getProjectTemplatesDir } from './store.js';
 import { TemplateError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -54,10 +55,43 @@ export function listTemplates(): Template[] {
 /**
  * List templates by type
  */
-export function listTemplatesByType(type: 'html' | 'pdf' | 'docx'): Template[] {
+export function listTemplatesByType(type: 'html' | 'pdf' | 'docx' | 'latex'): Template[] {
   return templateRegistry.listByType(type);
 }
 
+/**
+ * Register the templates persisted in the user config directory and the
+ * project-local .convatile/templates directory (project templates win on ID clashes).
+ * Templates that fail to load are skipped with a warning.
+ */
+export async function loadStoredTemplates(cwd: string = process.cwd()): Promise<Template[]> {
+  const loaded: Template[] = [];
+
+  for (const dir of [getUserTemplatesDir(), getProjectTemplatesDir(cwd)]) {
+    let configs: TemplateConfig[];
+    try {
+      configs = await new TemplateStore(dir).list();
+    } catch (error) {
+      logger.warn(`Skipping template store ${dir}`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    for (const config of configs) {
+      try {
+        await templateRegistry.register(config);
+        loaded.push(templateRegistry.get(config.id)!);
+      } catch (error) {
+        logger.warn(
+          `Skipping stored template ${config.id}`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
+  return loaded;
+}
+
 /**
  * Load the default HTML template
  */
@@ -89,7 +123,7 @@ export async function loadDefaultHtmlTemplate(): Promise<Template | null> {
  */
 export async function getTemplateForRendering(
   templateId: string | undefined,
-  type: 'html' | 'pdf' | 'docx'
+  type: 'html' | 'pdf' | 'docx' | 'latex'
 ): Promise<Template | undefined> {
   // If a specific template is requested, use it
   if (templateId) {
@@ -111,9 +145,21 @@ export async function getTemplateForRendering(
     return await loadDefaultHtmlTemplate() || undefined;
   }
 
-  // No default template for PDF/DOCX (they use built-in styles)
+  // No default template for PDF/DOCX/LaTeX (they use built-in styles and layouts)
   return undefined;
 }
 
 // Re-export registry for advanced usage
 export { templateRegistry, TemplateRegistry };
+export { TemplateStore, getUserTemplatesDir, getProjectTemplatesDir };
+export {
+  renderTemplate,
+  compileTemplate,
+  registerPartial,
+  unregisterPartial,
+  raw,
+  escapeHtml,
+  SafeString,
+  type CompiledTemplate,
+  type TemplateRenderOptions,
+} from './engine.js';
@@ -0,0 +1,259 @@
+import yaml from 'js-yaml';
+import type { PdfStyles } from '../types/index.js';
+import { TemplateError } from '../utils/errors.js';
+
+/**
+ * Validation rule for a single template field
+ */
+type FieldRule =
+  | 'string'
+  | 'boolean'
+  | 'number'
+  | 'positive'
+  | 'fraction'
+  | 'level'
+  | 'color'
+  | 'pageSize'
+  | 'fontFamilies'
+  | 'stringList'
+  | readonly string[]
+  | TemplateSchema;
+
+/**
+ * Validation rules for an object's fields
+ */
+interface TemplateSchema {
+  [key: string]: FieldRule;
+}
+
+/**
+ * Header/footer fields
+ */
+const MARKS_SCHEMA: TemplateSchema = {
+  left: 'string',
+  center: 'string',
+  right: 'string',
+  fontSize: 'positive',
+  color: 'color',
+  showOnTitlePage: 'boolean',
+};
+
+/**
+ * Font files of a custom font family
+ */
+const FONT_FAMILY_SCHEMA: TemplateSchema = {
+  regular: 'string',
+  bold: 'string',
+  italic: 'string',
+  boldItalic: 'string',
+};
+
+/**
+ * Structure of a PDF style template (mirrors PdfStyles)
+ */
+const PDF_TEMPLATE_SCHEMA: TemplateSchema = {
+  pageSize: 'pageSize',
+  layout: ['portrait', 'landscape'],
+  margins: { top: 'number', bottom: 'number', left: 'number', right: 'number' },
+  fonts: {
+    body: 'string',
+    heading: 'string',
+    code: 'string',
+    families: 'fontFamilies',
+    fallback: 'stringList',
+  },
+  fontSize: {
+    body: 'positive',
+    h1: 'positive',
+    h2: 'positive',
+    h3: 'positive',
+    h4: 'positive',
+    h5: 'positive',
+    h6: 'positive',
+    code: 'positive',
+  },
+  lineHeight: 'positive',
+  colors: {
+    text: 'color',
+    heading: 'color',
+    link: 'color',
+    codeBackground: 'color',
+    blockquote: 'color',
+    border: 'color',
+  },
+  header: MARKS_SCHEMA,
+  footer: MARKS_SCHEMA,
+  titlePage: {
+    enabled: 'boolean',
+    align: ['left', 'center', 'right'],
+    top: 'fraction',
+    titleSize: 'positive',
+    subtitleSize: 'positive',
+    color: 'color',
+    showAuthor: 'boolean',
+    showDate: 'boolean',
+  },
+  outline: {
+    enabled: 'boolean',
+    depth: 'level',
+  },
+  highlight: {
+    theme: 'string',
+    lineNumbers: 'boolean',
+  },
+  codeBlock: {
+    wrapIndicator: 'boolean',
+  },
+};
+
+/**
+ * Page sizes understood by PDFKit
+ */
+const PAGE_SIZE_PATTERN =
+  /^(4A0|2A0|[ABC]([0-9]|10)|RA[0-4]|SRA[0-4]|EXECUTIVE|FOLIO|LEGAL|LETTER|TABLOID)$/i;
+
+/**
+ * Hex colours or CSS colour names
+ */
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+
+/**
+ * Parse and validate a PDF style template written in JSON or YAML
+ */
+export function parsePdfTemplate(content: string, templateId?: string): PdfStyles {
+  let data: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    data = yaml.load(content);
+  } catch (error) {
+    throw new TemplateError(
+      `Invalid PDF template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      templateId,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new TemplateError(
+      'Invalid PDF template: expected an object of style settings',
+      templateId
+    );
+  }
+
+  const problems = validateObject(data as Record<string, unknown>, PDF_TEMPLATE_SCHEMA, '');
+  if (problems.length > 0) {
+    throw new TemplateError(`Invalid PDF template: ${problems.join('; ')}`, templateId);
+  }
+
+  return data as PdfStyles;
+}
+
+/**
+ * Validate an object against a schema, returning a list of problems
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: TemplateSchema,
+  path: string
+): string[] {
+  const problems: string[] = [];
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const rule = schema[key];
+
+    if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+      problems.push(`unknown setting "${fieldPath}"`);
+      continue;
+    }
+
+    const problem = validateField(fieldValue, rule, fieldPath);
+    if (Array.isArray(problem)) {
+      problems.push(...problem);
+    } else if (problem) {
+      problems.push(problem);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a single field against its rule
+ */
+function validateField(value: unknown, rule: FieldRule, path: string): string | string[] | null {
+  if (Array.isArray(rule)) {
+    return rule.includes(value as string) ? null : `"${path}" must be one of ${rule.join(', ')}`;
+  }
+
+  switch (rule) {
+    case 'string':
+      return typeof value === 'string' ? null : `"${path}" must be a string`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `"${path}" must be true or false`;
+    case 'number':
+      return isNumber(value) && value >= 0 ? null : `"${path}" must be a non-negative number`;
+    case 'positive':
+      return isNumber(value) && value > 0 ? null : `"${path}" must be a positive number`;
+    case 'fraction':
+      return isNumber(value) && value >= 0 && value <= 1
+        ? null
+        : `"${path}" must be a number between 0 and 1`;
+    case 'level':
+      return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 6
+        ? null
+        : `"${path}" must be a heading level from 1 to 6`;
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value)
+        ? null
+        : `"${path}" must be a hex colour or colour name`;
+    case 'pageSize':
+      if (typeof value === 'string' && PAGE_SIZE_PATTERN.test(value)) {
+        return null;
+      }
+      if (Array.isArray(value) && value.length === 2 && value.every((n) => isNumber(n) && n > 0)) {
+        return null;
+      }
+      return `"${path}" must be a page size name (e.g. A4, LETTER) or [width, height] in points`;
+    case 'stringList':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? null
+        : `"${path}" must be a list of strings`;
+    case 'fontFamilies':
+      return validateFontFamilies(value, path);
+  }
+
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return `"${path}" must be an object`;
+  }
+  return validateObject(value as Record<string, unknown>, rule as TemplateSchema, path);
+}
+
+/**
+ * Validate custom font families, keyed by family name
+ */
+function validateFontFamilies(value: unknown, path: string): string | string[] | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return `"${path}" must be an object of font families`;
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(([name, family]) => {
+    const familyPath = `${path}.${name}`;
+    if (family === null || typeof family !== 'object' || Array.isArray(family)) {
+      return [`"${familyPath}" must be an object`];
+    }
+    const problems = validateObject(
+      family as Record<string, unknown>,
+      FONT_FAMILY_SCHEMA,
+      familyPath
+    );
+    return 'regular' in family ? problems : [`"${familyPath}.regular" is required`, ...problems];
+  });
+}
+
+/**
+ * Check for a finite number
+ */
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
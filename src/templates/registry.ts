@@ -3,6 +3,9 @@ import { existsSync } from 'fs';
 import type { TemplateConfig, Template } from '../types/index.js';
 import { TemplateError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { compileTemplate } from './engine.js';
+import { parsePdfTemplate } from './pdf.js';
+import { validateReferenceDocx } from './docx.js';
 
 /**
  * Template registry for storing and retrieving templates
@@ -25,7 +28,7 @@ class TemplateRegistry {
       throw new TemplateError('Template name is required', config.id);
     }
 
-    if (!['html', 'pdf', 'docx'].includes(config.type)) {
+    if (!['html', 'pdf', 'docx', 'latex'].includes(config.type)) {
       throw new TemplateError(`Invalid template type: ${config.type}`, config.id);
     }
 
@@ -40,7 +43,18 @@ class TemplateRegistry {
 
     // Load the template content
     try {
-      const content = await readFile(config.path, 'utf-8');
+      // DOCX templates are binary reference documents rather than text
+      const data = config.type === 'docx' ? await readFile(config.path) : undefined;
+      const content = data ? '' : await readFile(config.path, 'utf-8');
+
+      // Surface template syntax errors at registration rather than at render time
+      if (config.type === 'html' || config.type === 'latex') {
+        compileTemplate(content);
+      } else if (config.type === 'pdf') {
+        parsePdfTemplate(content, config.id);
+      } else if (data) {
+        await validateReferenceDocx(data, config.id);
+      }
 
       const template: Template = {
         id: config.id,
@@ -48,11 +62,15 @@ class TemplateRegistry {
         type: config.type,
         path: config.path,
         content,
+        ...(data && { data }),
       };
 
       this.templates.set(config.id, template);
       logger.debug('Template registered successfully', { id: config.id });
     } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(error.message, config.id, error);
+      }
       throw new TemplateError(
         `Failed to load template: ${error instanceof Error ? error.message : 'Unknown error'}`,
         config.id,
@@ -93,7 +111,7 @@ class TemplateRegistry {
   /**
    * List templates by type
    */
-  listByType(type: 'html' | 'pdf' | 'docx'): Template[] {
+  listByType(type: 'html' | 'pdf' | 'docx' | 'latex'): Template[] {
     return this.list().filter((t) => t.type === type);
   }
 
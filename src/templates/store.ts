@@ -0,0 +1,231 @@
+import { readFile, writeFile, mkdir, copyFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { join, extname, dirname, isAbsolute, relative, resolve, sep } from 'path';
+import type { PdfStyles, TemplateConfig } from '../types/index.js';
+import { TemplateError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { resolveFontPaths } from '../renderers/pdf-fonts.js';
+import { parsePdfTemplate } from './pdf.js';
+
+/**
+ * Manifest file listing the templates in a store directory
+ */
+const MANIFEST_FILE = 'templates.json';
+
+/**
+ * Template entry as written to the manifest (path is relative to the store directory)
+ */
+type ManifestEntry = TemplateConfig;
+
+/**
+ * Contents of the manifest file
+ */
+interface TemplateManifest {
+  templates: ManifestEntry[];
+}
+
+/**
+ * Get the per-user templates directory.
+ * Honours CONVATILE_CONFIG_DIR, then XDG_CONFIG_HOME (or APPDATA on Windows).
+ */
+export function getUserTemplatesDir(): string {
+  const configDir =
+    process.env.CONVATILE_CONFIG_DIR ||
+    (process.platform === 'win32' && process.env.APPDATA
+      ? join(process.env.APPDATA, 'convatile')
+      : join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'convatile'));
+
+  return join(configDir, 'templates');
+}
+
+/**
+ * Get the project-local templates directory
+ */
+export function getProjectTemplatesDir(cwd: string = process.cwd()): string {
+  return join(cwd, '.convatile', 'templates');
+}
+
+/**
+ * Directory-backed template store. Template files are copied into the
+ * directory and recorded in a JSON manifest, so they survive the process
+ * and do not depend on the original file staying in place.
+ */
+class TemplateStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * List stored templates, with paths resolved to the stored files
+   */
+  async list(): Promise<TemplateConfig[]> {
+    const manifest = await this.readManifest();
+    return manifest.templates.map((entry) => ({ ...entry, path: join(this.dir, entry.path) }));
+  }
+
+  /**
+   * Get a stored template by ID
+   */
+  async get(id: string): Promise<TemplateConfig | undefined> {
+    const templates = await this.list();
+    return templates.find((t) => t.id === id);
+  }
+
+  /**
+   * Copy a template file into the store, replacing any template with the same ID
+   */
+  async add(config: TemplateConfig): Promise<TemplateConfig> {
+    logger.debug('Storing template', { id: config.id, dir: this.dir });
+
+    if (!existsSync(config.path)) {
+      throw new TemplateError(`Template file not found: ${config.path}`, config.id);
+    }
+
+    const manifest = await this.readManifest();
+    const previous = manifest.templates.find((t) => t.id === config.id);
+    const fileName = `${config.id.replace(/[^\w.-]/g, '_')}${extname(config.path)}`;
+
+    // IDs that only differ in characters replaced above would share a file
+    const clash = manifest.templates.find((t) => t.id !== config.id && t.path === fileName);
+    if (clash || fileName === MANIFEST_FILE) {
+      throw new TemplateError(
+        `Template ID "${config.id}" would overwrite ${clash ? `template "${clash.id}"` : 'the manifest'}; choose another ID`,
+        config.id
+      );
+    }
+
+    const pdfContent = config.type === 'pdf' ? await storedPdfTemplate(config) : undefined;
+
+    try {
+      await mkdir(this.dir, { recursive: true });
+      if (previous && previous.path !== fileName) {
+        await this.removeFile(previous.path);
+      }
+      if (pdfContent !== undefined) {
+        await writeFile(join(this.dir, fileName), pdfContent, 'utf-8');
+      } else {
+        await copyFile(config.path, join(this.dir, fileName));
+      }
+    } catch (error) {
+      throw new TemplateError(
+        `Failed to store template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        config.id,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const entry: ManifestEntry = { ...config, path: fileName };
+    manifest.templates = [...manifest.templates.filter((t) => t.id !== config.id), entry];
+    await this.writeManifest(manifest);
+
+    return { ...entry, path: join(this.dir, fileName) };
+  }
+
+  /**
+   * Remove a stored template and its file
+   */
+  async remove(id: string): Promise<boolean> {
+    const manifest = await this.readManifest();
+    const entry = manifest.templates.find((t) => t.id === id);
+
+    if (!entry) {
+      return false;
+    }
+
+    logger.debug('Removing stored template', { id, dir: this.dir });
+    manifest.templates = manifest.templates.filter((t) => t.id !== id);
+    await this.writeManifest(manifest);
+    await this.removeFile(entry.path);
+
+    return true;
+  }
+
+  /**
+   * Delete a stored file, refusing manifest paths that lead outside the store
+   */
+  private async removeFile(path: string): Promise<void> {
+    const target = resolve(this.dir, path);
+    const fromStore = relative(resolve(this.dir), target);
+
+    if (
+      !fromStore ||
+      fromStore === '..' ||
+      fromStore.startsWith(`..${sep}`) ||
+      isAbsolute(fromStore)
+    ) {
+      logger.warn(`Not removing ${path}: it is outside the template store ${this.dir}`);
+      return;
+    }
+
+    await rm(target, { force: true });
+  }
+
+  /**
+   * Read the manifest, treating a missing file as an empty store
+   */
+  private async readManifest(): Promise<TemplateManifest> {
+    const manifestPath = join(this.dir, MANIFEST_FILE);
+
+    if (!existsSync(manifestPath)) {
+      return { templates: [] };
+    }
+
+    try {
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as TemplateManifest;
+      if (!Array.isArray(manifest.templates)) {
+        throw new Error('"templates" must be an array');
+      }
+      return manifest;
+    } catch (error) {
+      throw new TemplateError(
+        `Invalid template manifest ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Write the manifest
+   */
+  private async writeManifest(manifest: TemplateManifest): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, MANIFEST_FILE),
+      `${JSON.stringify(manifest, null, 2)}\n`,
+      'utf-8'
+    );
+  }
+}
+
+/**
+ * Content of a PDF template as stored. Font paths are relative to the
+ * template's own directory, so templates that use them are stored with
+ * absolute paths instead (as JSON, which YAML templates also accept).
+ */
+async function storedPdfTemplate(config: TemplateConfig): Promise<string> {
+  const content = await readFile(config.path, 'utf-8');
+  const styles = parsePdfTemplate(content, config.id);
+
+  if (!hasRelativeFontPaths(styles)) {
+    return content;
+  }
+
+  logger.debug('Resolving template font paths', { id: config.id });
+  const resolved = resolveFontPaths(styles, dirname(resolve(config.path)));
+  return `${JSON.stringify(resolved, null, 2)}\n`;
+}
+
+/**
+ * Check whether any font family file is given as a relative path
+ */
+function hasRelativeFontPaths(styles: PdfStyles): boolean {
+  return Object.values(styles.fonts?.families ?? {}).some((family) =>
+    Object.values(family).some((source) => typeof source === 'string' && !isAbsolute(source))
+  );
+}
+
+export { TemplateStore };
@@ -0,0 +1,17 @@
+declare module 'fontkit' {
+  interface Font {
+    /** PostScript name of the font */
+    postscriptName: string;
+    /** Whether the font has a glyph for a Unicode code point */
+    hasGlyphForCodePoint(codePoint: number): boolean;
+  }
+
+  interface FontCollection {
+    /** Fonts in a TrueType/OpenType collection */
+    fonts: Font[];
+  }
+
+  function openSync(filename: string, postscriptName?: string): Font | FontCollection;
+
+  function create(buffer: Buffer, postscriptName?: string): Font | FontCollection;
+}
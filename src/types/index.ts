@@ -1,14 +1,35 @@
 import type { Root } from 'mdast';
 
+/**
+ * Output formats rendered by the built-in renderers
+ */
+export type BuiltinOutputFormat = 'md' | 'pdf' | 'docx' | 'html' | 'epub' | 'odt' | 'rtf' | 'latex';
+
+/**
+ * Input formats understood by the built-in parsers
+ */
+export type BuiltinInputFormat = 'text' | 'md' | 'docx' | 'pdf' | 'html' | 'epub' | 'odt' | 'rtf';
+
 /**
  * Supported output formats for document conversion
+ * (built-in formats plus any registered renderer plugin)
  */
-export type OutputFormat = 'md' | 'pdf' | 'docx' | 'html';
+export type OutputFormat = BuiltinOutputFormat | (string & Record<never, never>);
 
 /**
  * Supported input formats for document parsing
+ * (built-in formats plus any registered parser plugin)
+ */
+export type InputFormat = BuiltinInputFormat | (string & Record<never, never>);
+
+/**
+ * Output value type produced for a given output format
  */
-export type InputFormat = 'text' | 'md' | 'docx' | 'pdf' | 'html';
+export type FormatOutput<T extends OutputFormat> = T extends 'md' | 'html' | 'rtf' | 'latex'
+  ? string
+  : T extends 'pdf' | 'docx' | 'epub' | 'odt'
+    ? Buffer
+    : string | Buffer;
 
 /**
  * Options for the convert function
@@ -22,8 +43,92 @@ export interface ConvertOptions {
   templateId?: string;
   /** Optional metadata to include in the document */
   metadata?: DocumentMetadata;
+  /** AST transforms run in order after parsing (after any global transforms) */
+  transforms?: AstTransform[];
+  /** Per-format style overrides, deep-merged over each renderer's defaults */
+  styles?: StyleOptions;
+  /** In-memory images keyed by the URL used in the document */
+  assets?: Record<string, Buffer>;
+  /** Directory that relative image paths are resolved against (defaults to the cwd) */
+  baseDir?: string;
+  /**
+   * Read images from local paths inside `baseDir` (default false, so untrusted
+   * input cannot pull files from the host into the output; the CLI enables it)
+   */
+  localImages?: boolean;
+  /** Include a table of contents built from the document headings */
+  toc?: boolean | TocOptions;
+  /** Running header for paged formats (PDF, DOCX); `styles.<format>.header` takes precedence */
+  header?: PageMarks;
+  /** Running footer for paged formats (PDF, DOCX); `styles.<format>.footer` takes precedence */
+  footer?: PageMarks;
+  /** Syntax-highlight fenced code blocks (HTML, PDF, DOCX) */
+  highlight?: boolean | HighlightOptions;
+}
+
+/**
+ * Syntax highlighting settings
+ */
+export interface HighlightOptions {
+  /** Built-in theme name ('github', 'github-dark') or colours merged over the default theme */
+  theme?: string | Partial<HighlightTheme>;
+  /** Number the lines of each code block (default false) */
+  lineNumbers?: boolean;
+}
+
+/**
+ * Syntax highlighting colours (hex)
+ */
+export interface HighlightTheme {
+  /** Colour of unhighlighted code */
+  foreground: string;
+  /** Code block background */
+  background: string;
+  /** Line number colour */
+  lineNumber: string;
+  /** Token colours keyed by highlight.js scope (keyword, string, comment, ...) */
+  scopes: Record<string, string>;
+}
+
+/**
+ * Table of contents settings
+ */
+export interface TocOptions {
+  /** Deepest heading level included (1-6, default 3) */
+  depth?: number;
+  /** Heading shown above the table of contents (default "Contents") */
+  title?: string;
+}
+
+/**
+ * Heading listed in a table of contents
+ */
+export interface TocEntry {
+  /** Heading level (1-6) */
+  depth: number;
+  /** Plain heading text */
+  text: string;
+  /** Unique anchor ID derived from the text */
+  id: string;
+}
+
+/**
+ * Context passed to AST transforms
+ */
+export interface TransformContext {
+  /** Format the input was parsed from */
+  inputFormat: InputFormat;
+  /** Output formats that will be rendered from the transformed AST */
+  formats: OutputFormat[];
+  /** Document metadata from ConvertOptions */
+  metadata?: DocumentMetadata;
 }
 
+/**
+ * AST transform run once between parsing and rendering
+ */
+export type AstTransform = (ast: Root, context: TransformContext) => Root | Promise<Root>;
+
 /**
  * Document metadata that can be included in exports
  */
@@ -36,6 +141,13 @@ export interface DocumentMetadata {
   [key: string]: unknown;
 }
 
+declare module 'mdast' {
+  interface RootData {
+    /** Metadata read from the input document (e.g. an EPUB's package metadata) */
+    metadata?: DocumentMetadata;
+  }
+}
+
 /**
  * Result of the convert function
  */
@@ -48,6 +160,16 @@ export interface ConvertResult {
   docx?: Buffer;
   /** HTML string output */
   html?: string;
+  /** EPUB buffer output */
+  epub?: Buffer;
+  /** ODT buffer output */
+  odt?: Buffer;
+  /** RTF string output */
+  rtf?: string;
+  /** LaTeX string output */
+  latex?: string;
+  /** Output of any registered renderer plugin, keyed by format id */
+  [format: string]: string | Buffer | undefined;
 }
 
 /**
@@ -59,7 +181,7 @@ export interface TemplateConfig {
   /** Human-readable name */
   name: string;
   /** Type of template */
-  type: 'html' | 'pdf' | 'docx';
+  type: 'html' | 'pdf' | 'docx' | 'latex';
   /** Path to the template file */
   path: string;
   /** Optional description */
@@ -72,9 +194,11 @@ export interface TemplateConfig {
 export interface Template {
   id: string;
   name: string;
-  type: 'html' | 'pdf' | 'docx';
+  type: 'html' | 'pdf' | 'docx' | 'latex';
   content: string;
   path: string;
+  /** Raw file contents for binary templates (DOCX reference documents) */
+  data?: Buffer;
 }
 
 /**
@@ -85,6 +209,38 @@ export interface Renderer<T> {
   render(ast: Root, options: RenderOptions): Promise<T>;
 }
 
+/**
+ * Parser plugin for an input format
+ */
+export interface ParserPlugin {
+  /** Input format identifier (e.g. 'md', 'docx') */
+  format: string;
+  /** Whether the parser expects binary input (Buffer) rather than a UTF-8 string */
+  binary?: boolean;
+  /**
+   * Content sniffer used by detectInputFormat.
+   * Return true if the input looks like this format.
+   */
+  detect?(input: string | Buffer): boolean;
+  /**
+   * Parse input into an mdast AST.
+   * Binary parsers receive a Buffer, text parsers receive a string.
+   */
+  parse(input: string | Buffer): Promise<Root>;
+}
+
+/**
+ * Renderer plugin for an output format
+ */
+export interface RendererPlugin<T extends string | Buffer = string | Buffer> extends Renderer<T> {
+  /** Output format identifier (e.g. 'pdf', 'html') */
+  format: string;
+  /** File extension used when writing output (defaults to the format id) */
+  extension?: string;
+  /** Template type resolved from ConvertOptions.templateId for this format */
+  templateType?: Template['type'];
+}
+
 /**
  * Options passed to renderers
  */
@@ -93,6 +249,35 @@ export interface RenderOptions {
   metadata?: DocumentMetadata;
   /** Template to apply */
   template?: Template;
+  /** Per-format style overrides */
+  styles?: StyleOptions;
+  /** In-memory images keyed by the URL used in the document */
+  assets?: Record<string, Buffer>;
+  /** Directory that relative image paths are resolved against */
+  baseDir?: string;
+  /** Read images from local paths inside `baseDir` */
+  localImages?: boolean;
+  /** Include a table of contents built from the document headings */
+  toc?: boolean | TocOptions;
+  /** Running header for paged formats */
+  header?: PageMarks;
+  /** Running footer for paged formats */
+  footer?: PageMarks;
+  /** Syntax-highlight fenced code blocks */
+  highlight?: boolean | HighlightOptions;
+}
+
+/**
+ * Per-format style options
+ */
+export interface StyleOptions {
+  pdf?: PdfStyles;
+  docx?: DocxStyles;
+  html?: HtmlStyles;
+  epub?: EpubStyles;
+  odt?: OdtStyles;
+  rtf?: RtfStyles;
+  latex?: LatexStyles;
 }
 
 /**
@@ -108,9 +293,14 @@ export interface PdfStyles {
   };
   /** Font settings */
   fonts?: {
+    /** Standard font name or registered custom font name */
     body?: string;
     heading?: string;
     code?: string;
+    /** Custom TrueType/OpenType families to register, keyed by family name */
+    families?: Record<string, PdfFontFamily>;
+    /** Fonts tried in order for characters missing from the primary font */
+    fallback?: string[];
   };
   /** Font sizes in points */
   fontSize?: {
@@ -125,14 +315,131 @@ export interface PdfStyles {
   };
   /** Line height multiplier */
   lineHeight?: number;
+  /** Page size name (e.g. 'A4', 'LETTER') or [width, height] in points */
+  pageSize?: string | [number, number];
+  /** Page orientation */
+  layout?: 'portrait' | 'landscape';
+  /** Colours (hex or CSS colour names) */
+  colors?: {
+    text?: string;
+    heading?: string;
+    link?: string;
+    codeBackground?: string;
+    blockquote?: string;
+    border?: string;
+  };
+  /** Running header drawn in the top margin of every page */
+  header?: PdfPageMarks;
+  /** Running footer drawn in the bottom margin of every page */
+  footer?: PdfPageMarks;
+  /** Title page layout (used when metadata has a title) */
+  titlePage?: PdfTitlePageStyles;
+  /** Outline (bookmarks) built from the document headings */
+  outline?: PdfOutlineStyles;
+  /** Syntax highlighting for code blocks; `ConvertOptions.highlight` sets it for every format */
+  highlight?: boolean | HighlightOptions;
+  /** Code block layout */
+  codeBlock?: PdfCodeBlockStyles;
+}
+
+/**
+ * PDF code block options
+ */
+export interface PdfCodeBlockStyles {
+  /** Mark rows continuing a wrapped long line with » (default false) */
+  wrapIndicator?: boolean;
+}
+
+/**
+ * Font files (paths or contents) for a custom PDF font family. The variants are
+ * registered as `<family>`, `<family>-Bold`, `<family>-Italic` and `<family>-BoldItalic`;
+ * missing variants use the regular font.
+ */
+export interface PdfFontFamily {
+  regular: string | Buffer;
+  bold?: string | Buffer;
+  italic?: string | Buffer;
+  boldItalic?: string | Buffer;
+}
+
+/**
+ * PDF outline options
+ */
+export interface PdfOutlineStyles {
+  /** Add headings to the outline (default true) */
+  enabled?: boolean;
+  /** Deepest heading level included (1-6, default 6) */
+  depth?: number;
+}
+
+/**
+ * Header or footer content. Text may contain {page}, {pages}, {title}, {author} and {date}.
+ */
+export interface PageMarks {
+  left?: string;
+  center?: string;
+  right?: string;
+  /** Also show on the title page (default false) */
+  showOnTitlePage?: boolean;
+}
+
+/**
+ * PDF header or footer
+ */
+export interface PdfPageMarks extends PageMarks {
+  /** Font size in points */
+  fontSize?: number;
+  /** Text colour */
+  color?: string;
+}
+
+/**
+ * DOCX header or footer
+ */
+export interface DocxPageMarks extends PageMarks {
+  /** Font size in half-points */
+  fontSize?: number;
+  /** Text colour (hex without #) */
+  color?: string;
+}
+
+/**
+ * Title page layout options
+ */
+export interface PdfTitlePageStyles {
+  /** Render a title page when metadata has a title (default true) */
+  enabled?: boolean;
+  /** Horizontal alignment */
+  align?: 'left' | 'center' | 'right';
+  /** Vertical position of the title as a fraction of the page height (default 1/3) */
+  top?: number;
+  /** Title font size in points */
+  titleSize?: number;
+  /** Author/date font size in points */
+  subtitleSize?: number;
+  /** Title colour */
+  color?: string;
+  /** Show the author line (default true) */
+  showAuthor?: boolean;
+  /** Show the date line (default true) */
+  showDate?: boolean;
 }
 
 /**
  * DOCX-specific styling options
  */
 export interface DocxStyles {
+  /** Page margins in inches */
+  margins?: {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+  };
   /** Default font family */
   fontFamily?: string;
+  /** Font family for code blocks and inline code */
+  codeFontFamily?: string;
   /** Font sizes in half-points */
   fontSize?: {
     body?: number;
@@ -142,19 +449,107 @@ export interface DocxStyles {
     h4?: number;
     h5?: number;
     h6?: number;
+    code?: number;
   };
+  /** Running header at the top of every page */
+  header?: DocxPageMarks;
+  /** Running footer at the bottom of every page */
+  footer?: DocxPageMarks;
+  /** Syntax highlighting for code blocks; `ConvertOptions.highlight` sets it for every format */
+  highlight?: boolean | HighlightOptions;
 }
 
 /**
  * HTML-specific styling options
  */
 export interface HtmlStyles {
-  /** CSS styles to inject */
+  /** CSS styles to inject (after the default styles) */
   css?: string;
-  /** Whether to include default styles */
+  /** Whether to include default styles (default: true) */
   includeDefaultStyles?: boolean;
 }
 
+/**
+ * EPUB-specific options
+ */
+export interface EpubStyles {
+  /** Headings at or above this level start a new chapter (1-6, default 1) */
+  chapterDepth?: number;
+  /** CSS added to the stylesheet (after the default styles) */
+  css?: string;
+  /** Whether to include default styles (default: true) */
+  includeDefaultStyles?: boolean;
+}
+
+/**
+ * ODT-specific styling options
+ */
+export interface OdtStyles {
+  /** Page margins in inches */
+  margins?: {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+  };
+  /** Default font family */
+  fontFamily?: string;
+  /** Font family for code blocks and inline code */
+  codeFontFamily?: string;
+  /** Font sizes in points */
+  fontSize?: {
+    body?: number;
+    code?: number;
+  };
+}
+
+/**
+ * RTF-specific styling options
+ */
+export interface RtfStyles {
+  /** Page margins in inches */
+  margins?: {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+  };
+  /** Default font family */
+  fontFamily?: string;
+  /** Font family for code blocks and inline code */
+  codeFontFamily?: string;
+  /** Font sizes in points */
+  fontSize?: {
+    body?: number;
+    code?: number;
+  };
+}
+
+/**
+ * LaTeX-specific styling options
+ */
+export interface LatexStyles {
+  /** Document class (default 'article') */
+  documentClass?: string;
+  /** Document class options (default ['11pt', 'letterpaper']) */
+  classOptions?: string[];
+  /** Page margins in inches */
+  margins?: {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+  };
+  /** Command for level-1 headings (default 'chapter' for book and report classes, else 'section') */
+  topLevelDivision?: 'part' | 'chapter' | 'section';
+  /** Environment for code blocks (default 'verbatim') */
+  codeBlocks?: 'verbatim' | 'listings';
+  /** Extra preamble lines (e.g. \usepackage commands), added before hyperref */
+  preamble?: string;
+  /** Output only the document body, without the preamble or template */
+  bodyOnly?: boolean;
+}
+
 /**
  * Logger levels
  */
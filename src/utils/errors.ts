@@ -40,6 +40,19 @@ export class ParseError extends ConvatileError {
   }
 }
 
+/**
+ * Error thrown when an AST transform fails
+ */
+export class TransformError extends ConvatileError {
+  public readonly transformIndex?: number;
+
+  constructor(message: string, transformIndex?: number, cause?: Error) {
+    super(message, 'TRANSFORM_ERROR', cause);
+    this.name = 'TransformError';
+    this.transformIndex = transformIndex;
+  }
+}
+
 /**
  * Error thrown when a template is not found or invalid
  */
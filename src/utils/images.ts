@@ -0,0 +1,227 @@
+import { readFile, realpath } from 'fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+import type { Image, Root } from 'mdast';
+import type { RenderOptions } from '../types/index.js';
+import { walkAst } from '../core/ast.js';
+import { logger } from './logger.js';
+
+/**
+ * Image formats that can be embedded
+ */
+export type ImageType = 'png' | 'jpg' | 'gif' | 'bmp';
+
+/**
+ * Image data with its detected format and pixel dimensions
+ */
+export interface ResolvedImage {
+  data: Buffer;
+  type: ImageType;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where image references are looked up
+ */
+export type ImageSourceOptions = Pick<RenderOptions, 'assets' | 'baseDir' | 'localImages'>;
+
+/**
+ * A piece of paragraph content: either a run of inline nodes or a standalone image
+ */
+export type InlineBlock = { inline: unknown[] } | { image: Image };
+
+/**
+ * Resolve every image referenced in an AST, keyed by URL.
+ * Images that cannot be loaded are left out of the map.
+ */
+export async function resolveImages(
+  ast: Root,
+  options: ImageSourceOptions = {}
+): Promise<Map<string, ResolvedImage>> {
+  const urls = new Set<string>();
+  walkAst(ast, (node) => {
+    if (node.type === 'image' && node.url) {
+      urls.add(node.url);
+    }
+  });
+
+  const images = new Map<string, ResolvedImage>();
+  for (const url of urls) {
+    const image = await resolveImage(url, options);
+    if (image) {
+      images.set(url, image);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Split a paragraph's children so images can be rendered as their own blocks
+ */
+export function splitImages(children: unknown[]): InlineBlock[] {
+  const blocks: InlineBlock[] = [];
+  let inline: unknown[] = [];
+
+  for (const child of children) {
+    if ((child as { type?: string }).type === 'image') {
+      if (inline.length > 0) {
+        blocks.push({ inline });
+        inline = [];
+      }
+      blocks.push({ image: child as Image });
+    } else {
+      inline.push(child);
+    }
+  }
+
+  if (inline.length > 0) {
+    blocks.push({ inline });
+  }
+
+  return blocks;
+}
+
+/**
+ * Resolve an image reference (asset key, data URI or local path) to its data.
+ * Local paths are only read when `localImages` is set, and only inside `baseDir`.
+ */
+export async function resolveImage(
+  url: string,
+  options: ImageSourceOptions = {}
+): Promise<ResolvedImage | null> {
+  const data = await loadImageData(url, options);
+  if (!data) {
+    return null;
+  }
+
+  const info = readImageInfo(data);
+  if (!info) {
+    logger.warn(`Unsupported image format: ${describeUrl(url)}`);
+    return null;
+  }
+
+  return { data, ...info };
+}
+
+/**
+ * Load the raw bytes of an image reference
+ */
+async function loadImageData(url: string, options: ImageSourceOptions): Promise<Buffer | null> {
+  const asset = options.assets?.[url];
+  if (asset) {
+    return asset;
+  }
+
+  if (url.startsWith('data:')) {
+    return decodeDataUri(url);
+  }
+
+  if (/^https?:\/\//i.test(url)) {
+    logger.warn(`Remote images are not fetched: ${url}`);
+    return null;
+  }
+
+  if (!options.localImages) {
+    logger.warn(`Local images are not read: ${url}`);
+    return null;
+  }
+
+  try {
+    const baseDir = await realpath(options.baseDir ?? process.cwd());
+    const path = await realpath(
+      url.startsWith('file:') ? fileURLToPath(url) : resolve(baseDir, decodeURI(url))
+    );
+
+    // Symlinks are followed before checking, so links cannot escape either
+    const fromBase = relative(baseDir, path);
+    if (fromBase === '..' || fromBase.startsWith(`..${sep}`) || isAbsolute(fromBase)) {
+      logger.warn(`Image is outside the base directory: ${url}`);
+      return null;
+    }
+
+    return await readFile(path);
+  } catch (error) {
+    logger.warn(`Could not read image ${url}`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Decode a data URI into bytes
+ */
+function decodeDataUri(url: string): Buffer | null {
+  const match = /^data:[^,]*?(;base64)?,(.*)$/s.exec(url);
+  if (!match) {
+    logger.warn('Malformed image data URI');
+    return null;
+  }
+
+  return match[1]
+    ? Buffer.from(match[2], 'base64')
+    : Buffer.from(decodeURIComponent(match[2]), 'latin1');
+}
+
+/**
+ * Detect the format and pixel dimensions of PNG, JPEG, GIF or BMP data
+ */
+export function readImageInfo(data: Buffer): Omit<ResolvedImage, 'data'> | null {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length >= 10 && data.toString('latin1', 0, 4) === 'GIF8') {
+    return { type: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  if (data.length >= 26 && data.toString('latin1', 0, 2) === 'BM') {
+    return {
+      type: 'bmp',
+      width: data.readInt32LE(18),
+      height: Math.abs(data.readInt32LE(22)),
+    };
+  }
+
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data);
+  }
+
+  return null;
+}
+
+/**
+ * Read JPEG dimensions from its start-of-frame marker
+ */
+function readJpegSize(data: Buffer): Omit<ResolvedImage, 'data'> | null {
+  let offset = 2;
+
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        type: 'jpg',
+        width: data.readUInt16BE(offset + 7),
+        height: data.readUInt16BE(offset + 5),
+      };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Shorten data URIs for log messages
+ */
+function describeUrl(url: string): string {
+  return url.startsWith('data:') ? `${url.slice(0, 30)}...` : url;
+}
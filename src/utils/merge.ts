@@ -0,0 +1,33 @@
+/**
+ * Check if a value is a plain object (not an array, Buffer, Date, etc.)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep merge an override object over a base object.
+ * Nested plain objects are merged, other values (including arrays) replace the base value,
+ * and undefined values in the override are ignored.
+ */
+export function deepMerge<T extends object>(base: T, override?: T): T {
+  if (!override) {
+    return { ...base };
+  }
+
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+
+    const baseValue = result[key];
+    result[key] =
+      isPlainObject(baseValue) && isPlainObject(value) ? deepMerge(baseValue, value) : value;
+  }
+
+  return result as T;
+}
@@ -0,0 +1,57 @@
+import type { DocumentMetadata } from '../types/index.js';
+
+/**
+ * Header/footer text split into literal text and placeholders
+ */
+export type PageMarkSegment = { text: string } | { placeholder: string };
+
+/**
+ * Placeholder syntax: {page}, {pages}, {title}, {author}, {date}
+ */
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Placeholder values that do not depend on the page
+ */
+export function documentPlaceholders(metadata?: DocumentMetadata): Record<string, string> {
+  return {
+    title: metadata?.title || '',
+    author: metadata?.author || '',
+    date: metadata?.date || '',
+  };
+}
+
+/**
+ * Replace known placeholders, leaving unknown ones as written
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+  );
+}
+
+/**
+ * Split text into literal segments and the given placeholders
+ * (for formats where page numbers are fields filled in by the viewer)
+ */
+export function splitPlaceholders(text: string, placeholders: string[]): PageMarkSegment[] {
+  const segments: PageMarkSegment[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!placeholders.includes(match[1])) continue;
+
+    const index = match.index ?? 0;
+    if (index > position) {
+      segments.push({ text: text.slice(position, index) });
+    }
+    segments.push({ placeholder: match[1] });
+    position = index + match[0].length;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) });
+  }
+
+  return segments;
+}
@@ -0,0 +1,12 @@
+/**
+ * Default page size of the paged renderers (PDF, DOCX, ODT, RTF): A4, the
+ * default of both PDFKit and the docx library
+ */
+export const PAGE_SIZE = {
+  /** Size name understood by PDFKit */
+  name: 'A4',
+  /** Width in inches (210 mm) */
+  width: 210 / 25.4,
+  /** Height in inches (297 mm) */
+  height: 297 / 25.4,
+};
@@ -0,0 +1,135 @@
+/**
+ * Minimal XML reading for the zipped XML formats (EPUB, ODF)
+ */
+
+/**
+ * XML element with its attributes and child elements/text
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+/**
+ * Node in a parsed XML tree: an element or decoded text
+ */
+export type XmlNode = XmlElement | string;
+
+/**
+ * Parse an XML document into an element tree.
+ *
+ * Declarations, comments and processing instructions are dropped and
+ * namespace prefixes are kept as part of the names (e.g. `text:p`).
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tokens =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  for (const match of xml.matchAll(tokens)) {
+    const [, cdata, closing, name, attributes, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (text !== undefined) {
+      parent.children.push(decodeXml(text));
+    } else if (name === undefined) {
+      continue;
+    } else if (closing) {
+      // Close up to the matching element so stray end tags cannot unbalance the tree
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else {
+      const element: XmlElement = { name, attributes: parseAttributes(attributes), children: [] };
+      parent.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Parse the attributes of an XML start tag
+ */
+export function parseAttributes(source: string): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), (m) => [
+      m[1],
+      decodeXml(m[2] ?? m[3]),
+    ])
+  );
+}
+
+/**
+ * Child elements of an element, optionally only those with a given name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * First descendant element with a given name (depth-first)
+ */
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (child.name === name) {
+      return child;
+    }
+    const found = findElement(child, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Concatenated text of an element and its descendants
+ */
+export function textContent(node: XmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+/**
+ * Values of the predefined XML entities
+ */
+const XML_ENTITIES = new Map([
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+  ['amp', '&'],
+]);
+
+/**
+ * Highest Unicode code point
+ */
+const MAX_CODE_POINT = 0x10ffff;
+
+/**
+ * Decode XML character and entity references in a single pass, so decoded
+ * text is never decoded again. Unknown entities and references outside the
+ * Unicode range are kept as written.
+ */
+export function decodeXml(value: string): string {
+  return value.replace(
+    /&(?:#x([0-9a-f]+)|#(\d+)|(\w+));/gi,
+    (reference, hex?: string, dec?: string, name?: string) => {
+      if (name !== undefined) {
+        return XML_ENTITIES.get(name) ?? reference;
+      }
+      const codePoint = hex !== undefined ? parseInt(hex, 16) : Number(dec);
+      return codePoint <= MAX_CODE_POINT ? String.fromCodePoint(codePoint) : reference;
+    }
+  );
+}
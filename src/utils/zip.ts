@@ -0,0 +1,31 @@
+/**
+ * Local file header signature that starts every ZIP archive (PK\x03\x04)
+ */
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Check whether a buffer starts with a ZIP local file header
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * Read the media type from a ZIP package's leading `mimetype` entry, as
+ * written first and uncompressed by EPUB and OpenDocument packages
+ */
+export function readZipMimetype(buffer: Buffer): string | undefined {
+  if (buffer.length < 30 || !isZip(buffer) || buffer.readUInt16LE(8) !== 0) {
+    return undefined;
+  }
+
+  const nameLength = buffer.readUInt16LE(26);
+  const extraLength = buffer.readUInt16LE(28);
+  const size = buffer.readUInt32LE(18);
+  const start = 30 + nameLength + extraLength;
+
+  if (buffer.toString('ascii', 30, 30 + nameLength) !== 'mimetype') {
+    return undefined;
+  }
+  return buffer.toString('ascii', start, Math.min(start + size, buffer.length)).trim();
+}
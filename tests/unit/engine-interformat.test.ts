@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { convert, detectInputFormat } from '../../src/core/engine.js';
+import { convert, convertToEpub, convertToOdt, detectInputFormat } from '../../src/core/engine.js';
 
 describe('Inter-format conversion', () => {
   describe('detectInputFormat', () => {
@@ -20,6 +20,21 @@ describe('Inter-format conversion', () => {
       expect(detectInputFormat(docxBuffer)).toBe('docx');
     });
 
+    it('should detect EPUB buffer by its mimetype entry', async () => {
+      const epub = await convertToEpub('# Hello');
+      expect(detectInputFormat(epub)).toBe('epub');
+    });
+
+    it('should detect ODT buffer by its mimetype entry', async () => {
+      const odt = await convertToOdt('# Hello');
+      expect(detectInputFormat(odt)).toBe('odt');
+    });
+
+    it('should detect RTF by its {\\rtf signature', () => {
+      expect(detectInputFormat('{\\rtf1\\ansi Hello}')).toBe('rtf');
+      expect(detectInputFormat(Buffer.from('{\\rtf1\\ansi Hello}'))).toBe('rtf');
+    });
+
     it('should detect PDF buffer by magic bytes', () => {
       // PDF magic bytes: %PDF-
       const pdfBuffer = Buffer.from('%PDF-1.4 some content');
@@ -80,6 +95,41 @@ describe('Inter-format conversion', () => {
     });
   });
 
+  describe('EPUB to other formats', () => {
+    it('should convert EPUB to Markdown with the book metadata', async () => {
+      const epub = await convertToEpub('# One\n\nFirst\n\n# Two\n\nSecond', {
+        metadata: { title: 'Book', author: 'Writer' },
+      });
+      const result = await convert(epub, {
+        format: ['md'],
+        metadata: { author: 'Editor' },
+      });
+
+      expect(result.md).toContain('title: Book');
+      expect(result.md).toContain('author: Editor');
+      expect(result.md).toMatch(/# One\n\nFirst\n\n# Two\n\nSecond/);
+    });
+  });
+
+  describe('ODT to other formats', () => {
+    it('should convert ODT to DOCX', async () => {
+      const odt = await convertToOdt('# Title\n\nContent');
+      const result = await convert(odt, { format: ['docx'] });
+
+      expect(result.docx).toBeInstanceOf(Buffer);
+    });
+  });
+
+  describe('RTF to other formats', () => {
+    it('should convert RTF to Markdown with its info metadata', async () => {
+      const rtf = '{\\rtf1\\ansi{\\info{\\title Notes}}\\pard {\\b Hello} world\\par}';
+      const result = await convert(rtf, { format: ['md'] });
+
+      expect(result.md).toContain('title: Notes');
+      expect(result.md).toContain('**Hello** world');
+    });
+  });
+
   describe('Markdown to other formats', () => {
     it('should convert Markdown to HTML', async () => {
       const md = '# Title\n\nContent';
@@ -36,6 +36,35 @@ describe('convert', () => {
     expect(result.docx!.length).toBeGreaterThan(0);
   });
 
+  it('should convert text to EPUB', async () => {
+    const result = await convert('Hello, world!', { format: ['epub'] });
+
+    expect(result.epub).toBeInstanceOf(Buffer);
+    expect(result.epub!.subarray(30, 38).toString('ascii')).toBe('mimetype');
+  });
+
+  it('should convert text to ODT', async () => {
+    const result = await convert('Hello, world!', { format: ['odt'] });
+
+    expect(result.odt).toBeInstanceOf(Buffer);
+    expect(result.odt!.subarray(30, 38).toString('ascii')).toBe('mimetype');
+  });
+
+  it('should convert text to RTF', async () => {
+    const result = await convert('Hello, world!', { format: ['rtf'] });
+
+    expect(typeof result.rtf).toBe('string');
+    expect(result.rtf).toMatch(/^\{\\rtf1/);
+    expect(result.rtf).toContain('Hello, world!\\par');
+  });
+
+  it('should convert text to LaTeX', async () => {
+    const result = await convert('Hello, world!', { format: ['latex'] });
+
+    expect(result.latex).toMatch(/^\\documentclass/);
+    expect(result.latex).toContain('Hello, world!\n\\end{document}');
+  });
+
   it('should convert to multiple formats at once', async () => {
     const result = await convert('Hello', { format: ['md', 'html'] });
 
@@ -66,6 +95,18 @@ describe('convert', () => {
   it('should throw FormatError for invalid format', async () => {
     await expect(convert('text', { format: ['invalid' as 'md'] })).rejects.toThrow(FormatError);
   });
+
+  it('should throw ValidationError for invalid headers and footers', async () => {
+    await expect(
+      convert('text', { format: ['pdf'], footer: { center: 42 as unknown as string } })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should throw ValidationError for invalid TOC options', async () => {
+    await expect(convert('text', { format: ['md'], toc: { depth: 9 } })).rejects.toThrow(
+      ValidationError
+    );
+  });
 });
 
 describe('convertToMarkdown', () => {
@@ -85,4 +126,10 @@ describe('convertToHtml', () => {
     expect(result).toContain('<!DOCTYPE html>');
     expect(result).toContain('<h1>');
   });
+
+  it('should throw ValidationError for unknown highlight themes', async () => {
+    await expect(
+      convert('text', { format: ['html'], highlight: { theme: 'neon' } })
+    ).rejects.toThrow(ValidationError);
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { convert, convertTo, detectInputFormat } from '../../src/core/engine.js';
+import {
+  registerParser,
+  registerRenderer,
+  unregisterParser,
+  unregisterRenderer,
+  listInputFormats,
+  listOutputFormats,
+} from '../../src/formats/index.js';
+import { extractAllText } from '../../src/core/ast.js';
+import { FormatError, ValidationError } from '../../src/utils/errors.js';
+
+describe('format plugins', () => {
+  afterEach(() => {
+    unregisterParser('csv');
+    unregisterRenderer('txt');
+  });
+
+  it('should list built-in formats', () => {
+    expect(listInputFormats()).toEqual(
+      expect.arrayContaining(['text', 'md', 'html', 'docx', 'pdf'])
+    );
+    expect(listOutputFormats()).toEqual(expect.arrayContaining(['md', 'html', 'pdf', 'docx']));
+  });
+
+  it('should render to a registered output format', async () => {
+    registerRenderer({
+      format: 'txt',
+      extension: 'txt',
+      render: async (ast) => extractAllText(ast),
+    });
+
+    const result = await convert('# Hello\n\nWorld', { format: ['txt', 'md'] });
+
+    expect(result.txt).toBe('Hello World');
+    expect(result.md).toContain('# Hello');
+    expect(listOutputFormats()).toContain('txt');
+  });
+
+  it('should parse a registered input format', async () => {
+    registerParser({
+      format: 'csv',
+      parse: async (input) => ({
+        type: 'root',
+        children: (input as string).split(',').map((value) => ({
+          type: 'paragraph',
+          children: [{ type: 'text', value }],
+        })),
+      }),
+    });
+
+    const md = await convertTo('a,b', 'md', { inputFormat: 'csv' });
+
+    expect(md).toContain('a\n\nb');
+  });
+
+  it('should use registered sniffers in detectInputFormat', () => {
+    registerParser({
+      format: 'csv',
+      detect: (input) => typeof input === 'string' && input.startsWith('id,'),
+      parse: async () => ({ type: 'root', children: [] }),
+    });
+
+    expect(detectInputFormat('id,name\n1,foo')).toBe('csv');
+    expect(detectInputFormat('# Markdown')).toBe('md');
+    expect(detectInputFormat(Buffer.from('%PDF-1.4'))).toBe('pdf');
+  });
+
+  it('should decode Buffer input for text parsers', async () => {
+    registerParser({
+      format: 'csv',
+      parse: async (input) => {
+        expect(typeof input).toBe('string');
+        return { type: 'root', children: [] };
+      },
+    });
+
+    await convert(Buffer.from('a,b'), { format: ['md'], inputFormat: 'csv' });
+  });
+
+  it('should reject binary parser input that is not a Buffer', async () => {
+    registerParser({
+      format: 'csv',
+      binary: true,
+      parse: async () => ({ type: 'root', children: [] }),
+    });
+
+    await expect(convert('a,b', { format: ['md'], inputFormat: 'csv' })).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should throw FormatError once a renderer is unregistered', async () => {
+    registerRenderer({ format: 'txt', render: async () => '' });
+    unregisterRenderer('txt');
+
+    await expect(convert('text', { format: ['txt'] })).rejects.toThrow(FormatError);
+  });
+
+  it('should validate plugin definitions', () => {
+    expect(() =>
+      registerParser({ format: '', parse: async () => ({ type: 'root', children: [] }) })
+    ).toThrow(ValidationError);
+    expect(() => registerRenderer({ format: 'txt' } as never)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  highlightLines,
+  resolveHighlightOptions,
+  tokenColor,
+  HIGHLIGHT_THEMES,
+} from '../../src/core/highlight.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+describe('highlightLines', () => {
+  it('should split highlighted code into lines of scoped tokens', () => {
+    const lines = highlightLines('let a = 1;\n// done', 'javascript');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0][0]).toEqual({ text: 'let', scopes: ['keyword'] });
+    expect(lines[0]).toContainEqual({ text: '1', scopes: ['number'] });
+    expect(lines[1]).toEqual([{ text: '// done', scopes: ['comment'] }]);
+  });
+
+  it('should keep multi-line tokens scoped on every line', () => {
+    const lines = highlightLines('/* one\ntwo */', 'js');
+
+    expect(lines).toEqual([
+      [{ text: '/* one', scopes: ['comment'] }],
+      [{ text: 'two */', scopes: ['comment'] }],
+    ]);
+  });
+
+  it('should return plain tokens for unknown languages', () => {
+    expect(highlightLines('a\n\nb', 'no-such-lang')).toEqual([
+      [{ text: 'a', scopes: [] }],
+      [],
+      [{ text: 'b', scopes: [] }],
+    ]);
+  });
+});
+
+describe('resolveHighlightOptions', () => {
+  it('should resolve themes and defaults', () => {
+    expect(resolveHighlightOptions(false)).toBeUndefined();
+    expect(resolveHighlightOptions(true)).toEqual({
+      theme: HIGHLIGHT_THEMES.github,
+      lineNumbers: false,
+    });
+    expect(resolveHighlightOptions({ theme: 'github-dark' })?.theme).toBe(
+      HIGHLIGHT_THEMES['github-dark']
+    );
+  });
+
+  it('should merge custom colours over the default theme', () => {
+    const { theme } = resolveHighlightOptions({
+      theme: { background: '#ffffff', scopes: { keyword: '#0000ff' } },
+    })!;
+
+    expect(theme.background).toBe('#ffffff');
+    expect(theme.scopes.keyword).toBe('#0000ff');
+    expect(theme.scopes.string).toBe(HIGHLIGHT_THEMES.github.scopes.string);
+  });
+
+  it('should reject unknown theme names', () => {
+    expect(() => resolveHighlightOptions({ theme: 'neon' })).toThrow(ValidationError);
+  });
+});
+
+describe('tokenColor', () => {
+  it('should use the innermost coloured scope', () => {
+    const theme = HIGHLIGHT_THEMES.github;
+
+    expect(tokenColor({ text: '"x"', scopes: ['meta', 'string'] }, theme)).toBe('#032f62');
+    expect(tokenColor({ text: 'x', scopes: ['meta', 'params'] }, theme)).toBe('#005cc5');
+    expect(tokenColor({ text: 'x', scopes: [] }, theme)).toBe(theme.foreground);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { resolveImage, resolveImages, readImageInfo, splitImages } from '../../src/utils/images.js';
+import { parseMarkdown } from '../../src/parsers/markdown.js';
+
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const PNG = Buffer.from(PNG_BASE64, 'base64');
+
+describe('images', () => {
+  it('should read PNG dimensions', () => {
+    expect(readImageInfo(PNG)).toEqual({ type: 'png', width: 1, height: 1 });
+  });
+
+  it('should read GIF dimensions', () => {
+    const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+    expect(readImageInfo(gif)).toEqual({ type: 'gif', width: 32, height: 16 });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(readImageInfo(Buffer.from('not an image'))).toBeNull();
+  });
+
+  it('should resolve in-memory assets', async () => {
+    const image = await resolveImage('logo.png', { assets: { 'logo.png': PNG } });
+    expect(image?.type).toBe('png');
+    expect(image?.data).toBe(PNG);
+  });
+
+  it('should resolve data URIs', async () => {
+    const image = await resolveImage(`data:image/png;base64,${PNG_BASE64}`);
+    expect(image?.width).toBe(1);
+  });
+
+  it('should resolve paths relative to the base directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-images-'));
+    try {
+      await writeFile(join(dir, 'pixel.png'), PNG);
+      const image = await resolveImage('pixel.png', { baseDir: dir, localImages: true });
+      expect(image?.type).toBe('png');
+      expect(await resolveImage('pixel.png', { baseDir: dir })).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not read images outside the base directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-images-'));
+    try {
+      await mkdir(join(dir, 'docs'));
+      await writeFile(join(dir, 'secret.png'), PNG);
+      await writeFile(join(dir, 'docs', 'pixel.png'), PNG);
+      const options = { baseDir: join(dir, 'docs'), localImages: true };
+
+      expect(await resolveImage('../secret.png', options)).toBeNull();
+      expect(await resolveImage(join(dir, 'secret.png'), options)).toBeNull();
+      expect(await resolveImage(pathToFileURL(join(dir, 'secret.png')).href, options)).toBeNull();
+      expect(
+        await resolveImage(pathToFileURL(join(dir, 'docs', 'pixel.png')).href, options)
+      ).not.toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip images that cannot be loaded', async () => {
+    const ast = await parseMarkdown('# Images\n\n![missing](does-not-exist.png) ![ok](ok.png)');
+    const images = await resolveImages(ast, { assets: { 'ok.png': PNG } });
+
+    expect(images.has('ok.png')).toBe(true);
+    expect(images.has('does-not-exist.png')).toBe(false);
+  });
+
+  it('should split images out of inline content', async () => {
+    const ast = await parseMarkdown('# Split\n\nBefore ![alt](a.png) after');
+    const paragraph = ast.children[1] as { children: unknown[] };
+    const blocks = splitImages(paragraph.children);
+
+    expect(blocks).toHaveLength(3);
+    expect('image' in blocks[1] && blocks[1].image.alt).toBe('alt');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import {
+  documentPlaceholders,
+  fillPlaceholders,
+  splitPlaceholders,
+} from '../../src/utils/page-marks.js';
+
+describe('fillPlaceholders', () => {
+  it('should replace known placeholders and keep unknown ones', () => {
+    const values = { ...documentPlaceholders({ title: 'Report' }), page: '3' };
+
+    expect(fillPlaceholders('{title} - {page} {unknown}', values)).toBe('Report - 3 {unknown}');
+    expect(fillPlaceholders('{author}', values)).toBe('');
+  });
+});
+
+describe('splitPlaceholders', () => {
+  it('should split out the requested placeholders', () => {
+    expect(splitPlaceholders('Page {page} of {pages} {title}', ['page', 'pages'])).toEqual([
+      { text: 'Page ' },
+      { placeholder: 'page' },
+      { text: ' of ' },
+      { placeholder: 'pages' },
+      { text: ' {title}' },
+    ]);
+  });
+});
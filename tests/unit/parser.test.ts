@@ -81,4 +81,25 @@ describe('parseMarkdown', () => {
     // First element should be a heading
     expect(ast.children[0].type).toBe('heading');
   });
+
+  it('should parse GFM tables', async () => {
+    const text = '| Name | Qty |\n| :--- | ---: |\n| Apple | 3 |';
+    const ast = await parseMarkdown(text);
+
+    const table = ast.children.find((c) => c.type === 'table');
+    expect(table).toBeDefined();
+    expect((table as { align: string[] }).align).toEqual(['left', 'right']);
+    expect((table as { children: unknown[] }).children).toHaveLength(2);
+  });
+
+  it('should parse GFM strikethrough, task lists and autolinks', async () => {
+    const text = '# GFM\n\n~~gone~~ see https://example.com\n\n- [x] Done\n- [ ] Todo';
+    const ast = await parseMarkdown(text);
+
+    const paragraph = ast.children[1] as { children: { type: string }[] };
+    expect(paragraph.children.map((c) => c.type)).toEqual(['delete', 'text', 'link']);
+
+    const list = ast.children[2] as { children: { checked: boolean }[] };
+    expect(list.children.map((item) => item.checked)).toEqual([true, false]);
+  });
 });
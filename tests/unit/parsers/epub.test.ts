@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { parseEpub, isEpub } from '../../../src/parsers/epub.js';
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/**
+ * Build a small EPUB with its package document in OEBPS/
+ */
+async function buildEpub(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/book.opf"/></rootfiles></container>'
+  );
+  zip.file(
+    'OEBPS/book.opf',
+    `<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="uid">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="isbn">978-0</dc:identifier>
+    <dc:identifier id="uid">urn:uuid:1234</dc:identifier>
+    <dc:title>Tom &amp; Jerry</dc:title>
+    <dc:creator>Ann</dc:creator>
+    <dc:creator>Bob</dc:creator>
+    <dc:language>fr</dc:language>
+    <dc:subject>cats</dc:subject>
+    <dc:subject>mice</dc:subject>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="text/two%20b.xhtml" media-type="application/xhtml+xml"/>
+    <item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>
+    <item id="img" href="images/dot.png" media-type="image/png"/>
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+    <itemref idref="c2"/>
+    <itemref idref="notes" linear="no"/>
+    <itemref idref="c1"/>
+  </spine>
+</package>`
+  );
+  zip.file('OEBPS/nav.xhtml', '<html><body><nav><ol><li>Contents</li></ol></nav></body></html>');
+  zip.file(
+    'OEBPS/text/one.xhtml',
+    '<html><head><title>One</title></head><body><h1>One</h1><p>See <a href="two%20b.xhtml#two">two</a>.</p><img src="../images/dot.png" alt="Dot"/><p>Lost <img src="../images/lost.png" alt="Map"/> here</p></body></html>'
+  );
+  zip.file(
+    'OEBPS/text/two b.xhtml',
+    '<html><body><h1 id="two">Two</h1><p>Second</p></body></html>'
+  );
+  zip.file('OEBPS/text/notes.xhtml', '<html><body><p>Notes</p></body></html>');
+  zip.file('OEBPS/images/dot.png', PNG);
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('parseEpub', () => {
+  it('should return empty AST for empty buffer', async () => {
+    const ast = await parseEpub(Buffer.alloc(0));
+
+    expect(ast.type).toBe('root');
+    expect(ast.children).toHaveLength(0);
+  });
+
+  it('should throw error for invalid EPUB', async () => {
+    await expect(parseEpub(Buffer.from('not an epub'))).rejects.toThrow(/Failed to parse EPUB/);
+  });
+
+  it('should concatenate the linear spine documents in reading order', async () => {
+    const ast = await parseEpub(await buildEpub());
+    const headings = ast.children.filter((node) => node.type === 'heading');
+
+    expect(headings.map((node) => node.type === 'heading' && node.children[0])).toEqual([
+      expect.objectContaining({ value: 'Two' }),
+      expect.objectContaining({ value: 'One' }),
+    ]);
+    expect(JSON.stringify(ast)).not.toContain('Contents');
+    expect(JSON.stringify(ast)).not.toContain('Notes');
+  });
+
+  it('should surface the package metadata', async () => {
+    const ast = await parseEpub(await buildEpub());
+
+    expect(ast.data?.metadata).toEqual({
+      title: 'Tom & Jerry',
+      author: 'Ann, Bob',
+      keywords: ['cats', 'mice'],
+      language: 'fr',
+      identifier: 'urn:uuid:1234',
+    });
+  });
+
+  it('should embed images and point chapter links at anchors', async () => {
+    const ast = await parseEpub(await buildEpub());
+    const json = JSON.stringify(ast);
+
+    expect(json).toContain(`"url":"data:image/png;base64,${PNG.toString('base64')}"`);
+    expect(json).toContain('"url":"#two"');
+    // Images missing from the book become their alt text
+    expect(json).not.toContain('lost.png');
+    expect(json).toContain('"value":"Map"');
+  });
+});
+
+describe('isEpub', () => {
+  it('should tell EPUB apart from other ZIP files', async () => {
+    const docx = new JSZip();
+    docx.file('[Content_Types].xml', '<Types/>');
+
+    expect(isEpub(await buildEpub())).toBe(true);
+    expect(isEpub(await docx.generateAsync({ type: 'nodebuffer' }))).toBe(false);
+    expect(isEpub(Buffer.from('mimetype'))).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { parseOdt, isOdt } from '../../../src/parsers/odt.js';
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const NAMESPACES =
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" ' +
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" ' +
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0" ' +
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0" ' +
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" ' +
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0" ' +
+  'xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"';
+
+/**
+ * Build an ODT package around a document body written the way LibreOffice
+ * writes it (automatic styles inheriting from the common styles)
+ */
+async function buildOdt(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
+  zip.file(
+    'styles.xml',
+    `<office:document-styles ${NAMESPACES}><office:styles>
+  <style:style style:name="Preformatted_20_Text" style:family="paragraph"/>
+  <style:style style:name="Quotations" style:family="paragraph"/>
+  <style:style style:name="Strong_20_Emphasis" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>
+  <text:list-style style:name="Numbering_20_123">
+    <text:list-level-style-number text:level="1" style:num-format="1"/>
+    <text:list-level-style-bullet text:level="2" text:bullet-char="•"/>
+  </text:list-style>
+</office:styles></office:document-styles>`
+  );
+  zip.file(
+    'content.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES}>
+<office:automatic-styles>
+  <style:style style:name="P1" style:family="paragraph" style:parent-style-name="Preformatted_20_Text"/>
+  <style:style style:name="T1" style:family="text"><style:text-properties fo:font-style="italic" style:text-line-through-style="solid"/></style:style>
+  <style:style style:name="T2" style:family="text"><style:text-properties style:font-name="Liberation Mono"/></style:style>
+</office:automatic-styles>
+<office:body><office:text>
+  <text:sequence-decls><text:sequence-decl text:display-outline-level="0" text:name="Table"/></text:sequence-decls>
+  ${body}
+</office:text></office:body></office:document-content>`
+  );
+  zip.file(
+    'meta.xml',
+    `<office:document-meta ${NAMESPACES}><office:meta>
+  <dc:title>Field &amp; Notes</dc:title>
+  <meta:initial-creator>Ann</meta:initial-creator>
+  <meta:keyword>birds</meta:keyword>
+  <meta:keyword>maps</meta:keyword>
+  <dc:language>en-GB</dc:language>
+</office:meta></office:document-meta>`
+  );
+  zip.file('Pictures/dot.png', PNG);
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('parseOdt', () => {
+  it('should return empty AST for empty buffer', async () => {
+    const ast = await parseOdt(Buffer.alloc(0));
+
+    expect(ast.type).toBe('root');
+    expect(ast.children).toHaveLength(0);
+  });
+
+  it('should throw error for invalid ODT', async () => {
+    await expect(parseOdt(Buffer.from('not an odt'))).rejects.toThrow(/Failed to parse ODT/);
+  });
+
+  it('should read headings and formatted paragraphs', async () => {
+    const ast = await parseOdt(
+      await buildOdt(
+        '<text:h text:outline-level="2">Intro</text:h>' +
+          '<text:p>Some  <text:span text:style-name="Strong_20_Emphasis">bold</text:span>,' +
+          '<text:s/><text:span text:style-name="T1">gone</text:span> and ' +
+          '<text:span text:style-name="T2">x = 1</text:span> with a ' +
+          '<text:a xlink:href="https://example.com">link</text:a><text:line-break/>next</text:p>'
+      )
+    );
+
+    expect(ast.children).toEqual([
+      { type: 'heading', depth: 2, children: [{ type: 'text', value: 'Intro' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', value: 'Some ' },
+          { type: 'strong', children: [{ type: 'text', value: 'bold' }] },
+          { type: 'text', value: ', ' },
+          {
+            type: 'emphasis',
+            children: [{ type: 'delete', children: [{ type: 'text', value: 'gone' }] }],
+          },
+          { type: 'text', value: ' and ' },
+          { type: 'inlineCode', value: 'x = 1' },
+          { type: 'text', value: ' with a ' },
+          {
+            type: 'link',
+            url: 'https://example.com',
+            children: [{ type: 'text', value: 'link' }],
+          },
+          { type: 'break' },
+          { type: 'text', value: 'next' },
+        ],
+      },
+    ]);
+  });
+
+  it('should read numbered and nested bullet lists', async () => {
+    const ast = await parseOdt(
+      await buildOdt(
+        '<text:list text:style-name="Numbering_20_123">' +
+          '<text:list-item text:start-value="3"><text:p>three</text:p>' +
+          '<text:list><text:list-item><text:p>inner</text:p></text:list-item></text:list>' +
+          '</text:list-item></text:list>'
+      )
+    );
+    const list = ast.children[0];
+
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    expect(list).toMatchObject({
+      children: [
+        {
+          children: [
+            { type: 'paragraph', children: [{ value: 'three' }] },
+            { type: 'list', ordered: false, children: [{ children: [{ type: 'paragraph' }] }] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should read tables', async () => {
+    const ast = await parseOdt(
+      await buildOdt(
+        '<table:table table:name="Table1"><table:table-column table:number-columns-repeated="2"/>' +
+          '<table:table-header-rows><table:table-row>' +
+          '<table:table-cell><text:p>Name</text:p></table:table-cell>' +
+          '<table:table-cell><text:p>Qty</text:p></table:table-cell>' +
+          '</table:table-row></table:table-header-rows>' +
+          '<table:table-row><table:table-cell><text:p>Apple</text:p><text:p>Red</text:p></table:table-cell>' +
+          '<table:table-cell><text:p>2</text:p></table:table-cell></table:table-row></table:table>'
+      )
+    );
+    const table = ast.children[0];
+
+    expect(table.type).toBe('table');
+    expect(table).toMatchObject({
+      children: [
+        { children: [{ children: [{ value: 'Name' }] }, { children: [{ value: 'Qty' }] }] },
+        {
+          children: [
+            { children: [{ value: 'Apple' }, { type: 'break' }, { value: 'Red' }] },
+            { children: [{ value: '2' }] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should group code and quotation paragraphs and embed pictures', async () => {
+    const ast = await parseOdt(
+      await buildOdt(
+        '<text:p text:style-name="P1">if (x) {</text:p>' +
+          '<text:p text:style-name="P1"><text:s text:c="2"/>go();</text:p>' +
+          '<text:p text:style-name="P1">}</text:p>' +
+          '<text:p text:style-name="Quotations">Quoted</text:p>' +
+          '<text:p><draw:frame draw:name="Image1"><draw:image xlink:href="Pictures/dot.png"/>' +
+          '<svg:title>Dot</svg:title></draw:frame></text:p>'
+      )
+    );
+
+    expect(ast.children[0]).toEqual({ type: 'code', value: 'if (x) {\n  go();\n}' });
+    expect(ast.children[1]).toMatchObject({
+      type: 'blockquote',
+      children: [{ type: 'paragraph', children: [{ value: 'Quoted' }] }],
+    });
+    expect(ast.children[2]).toMatchObject({
+      type: 'paragraph',
+      children: [
+        { type: 'image', alt: 'Dot', url: `data:image/png;base64,${PNG.toString('base64')}` },
+      ],
+    });
+  });
+
+  it('should surface meta.xml metadata', async () => {
+    const ast = await parseOdt(await buildOdt('<text:p>Body</text:p>'));
+
+    expect(ast.data?.metadata).toEqual({
+      title: 'Field & Notes',
+      author: 'Ann',
+      keywords: ['birds', 'maps'],
+      language: 'en-GB',
+    });
+  });
+});
+
+describe('isOdt', () => {
+  it('should tell ODT apart from other ZIP files', async () => {
+    const docx = new JSZip();
+    docx.file('[Content_Types].xml', '<Types/>');
+
+    expect(isOdt(await buildOdt(''))).toBe(true);
+    expect(isOdt(await docx.generateAsync({ type: 'nodebuffer' }))).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import type { Paragraph } from 'mdast';
+import { parseRtf, isRtf } from '../../../src/parsers/rtf.js';
+import { ParseError } from '../../../src/utils/errors.js';
+
+/**
+ * Wrap a document body in the header WordPad writes
+ */
+function rtf(body: string): string {
+  return (
+    '{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1' +
+    '{\\fonttbl{\\f0\\fswiss\\fcharset0 Calibri;}{\\f1\\fmodern\\fcharset0 Courier New;}{\\f2\\fnil\\fcharset2 Symbol;}}\n' +
+    '{\\colortbl ;\\red0\\green0\\blue255;}\n' +
+    '{\\*\\generator Riched20 10.0.19041}\\viewkind4\\uc1\n' +
+    `${body}\n}`
+  );
+}
+
+describe('parseRtf', () => {
+  it('should read paragraphs with bold, italic, underline and strikethrough', async () => {
+    const ast = await parseRtf(
+      rtf('\\pard\\f0\\fs22 Plain {\\b bold} \\i italic\\i0 , {\\ul under} {\\strike gone}\\par')
+    );
+
+    expect(ast.children).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', value: 'Plain ' },
+          { type: 'strong', children: [{ type: 'text', value: 'bold' }] },
+          { type: 'text', value: ' ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'italic' }] },
+          { type: 'text', value: ', ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'under' }] },
+          { type: 'text', value: ' ' },
+          { type: 'delete', children: [{ type: 'text', value: 'gone' }] },
+        ],
+      },
+    ]);
+  });
+
+  it('should decode \\u escapes, code page bytes and symbol words', async () => {
+    const ast = await parseRtf(
+      rtf("\\pard Caf\\'e9 \\u8364? \\u-10179?\\u-8704?\\emdash\\ldblquote x\\rdblquote\\par")
+    );
+
+    expect((ast.children[0] as Paragraph).children).toEqual([
+      { type: 'text', value: 'Café € 😀—“x”' },
+    ]);
+  });
+
+  it('should read HYPERLINK fields as links', async () => {
+    const ast = await parseRtf(
+      rtf(
+        '\\pard See {\\field{\\*\\fldinst{HYPERLINK "https://example.com"}}{\\fldrslt{\\ul\\cf1 the site}}}' +
+          ' and {\\field{\\*\\fldinst{HYPERLINK \\\\l "intro"}}{\\fldrslt{here}}}\\par'
+      )
+    );
+
+    expect((ast.children[0] as Paragraph).children).toEqual([
+      { type: 'text', value: 'See ' },
+      { type: 'link', url: 'https://example.com', children: [{ type: 'text', value: 'the site' }] },
+      { type: 'text', value: ' and ' },
+      { type: 'link', url: '#intro', children: [{ type: 'text', value: 'here' }] },
+    ]);
+  });
+
+  it('should nest list paragraphs by level and number them from their markers', async () => {
+    const ast = await parseRtf(
+      rtf(
+        "\\pard\\ls1\\ilvl0{\\listtext\\f2\\'b7\\tab}One\\par" +
+          "{\\listtext\\f2\\'b7\\tab}Two\\par" +
+          '\\pard\\ls1\\ilvl1{\\listtext\\pard\\plain 3.\\tab}Inner\\par' +
+          '\\pard After\\par'
+      )
+    );
+
+    expect(ast.children).toHaveLength(2);
+    expect(ast.children[0]).toMatchObject({
+      type: 'list',
+      ordered: false,
+      children: [
+        { children: [{ type: 'paragraph', children: [{ value: 'One' }] }] },
+        {
+          children: [
+            { type: 'paragraph', children: [{ value: 'Two' }] },
+            { type: 'list', ordered: true, start: 3 },
+          ],
+        },
+      ],
+    });
+    expect(ast.children[1]).toMatchObject({ type: 'paragraph', children: [{ value: 'After' }] });
+  });
+
+  it('should read headings from outline levels and heading styles', async () => {
+    const ast = await parseRtf(
+      '{\\rtf1\\ansi{\\stylesheet{\\s0 Normal;}{\\s2\\b\\fs28 heading 2;}}' +
+        '\\pard\\outlinelevel0\\b Top\\b0\\par\\pard\\s2\\b Second\\b0\\par\\pard Body\\par}'
+    );
+
+    expect(ast.children).toEqual([
+      { type: 'heading', depth: 1, children: [{ type: 'text', value: 'Top' }] },
+      { type: 'heading', depth: 2, children: [{ type: 'text', value: 'Second' }] },
+      { type: 'paragraph', children: [{ type: 'text', value: 'Body' }] },
+    ]);
+  });
+
+  it('should read monospaced paragraphs as code and monospaced runs as inline code', async () => {
+    const ast = await parseRtf(
+      rtf('\\pard\\f1 if (x) \\{\\par\n    y();\\par\\pard\\f0 Call {\\f1 y()} now\\par')
+    );
+
+    expect(ast.children).toEqual([
+      { type: 'code', value: 'if (x) {\n    y();' },
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', value: 'Call ' },
+          { type: 'inlineCode', value: 'y()' },
+          { type: 'text', value: ' now' },
+        ],
+      },
+    ]);
+  });
+
+  it('should read table rows with the first row as the header', async () => {
+    const ast = await parseRtf(
+      rtf(
+        '\\trowd\\cellx2000\\cellx4000\\pard\\intbl{\\b Name}\\cell{\\b Size}\\cell\\row' +
+          '\\trowd\\cellx2000\\cellx4000\\pard\\intbl a\\cell 1\\par 2\\cell\\row\\pard Done\\par'
+      )
+    );
+
+    expect(ast.children[0]).toEqual({
+      type: 'table',
+      children: [
+        {
+          type: 'tableRow',
+          children: [
+            { type: 'tableCell', children: [{ type: 'text', value: 'Name' }] },
+            { type: 'tableCell', children: [{ type: 'text', value: 'Size' }] },
+          ],
+        },
+        {
+          type: 'tableRow',
+          children: [
+            { type: 'tableCell', children: [{ type: 'text', value: 'a' }] },
+            {
+              type: 'tableCell',
+              children: [
+                { type: 'text', value: '1' },
+                { type: 'break' },
+                { type: 'text', value: '2' },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    expect(ast.children[1]).toMatchObject({ type: 'paragraph' });
+  });
+
+  it('should read the info group as metadata and skip destinations that are not text', async () => {
+    const ast = await parseRtf(
+      rtf(
+        '{\\info{\\title Report}{\\author Ann Lee}{\\keywords q1, sales}{\\doccomm Summary}' +
+          '{\\creatim\\yr2024\\mo3\\dy7\\hr9}}{\\*\\unknowndest hidden}{\\header Page}\\pard Text\\par'
+      )
+    );
+
+    expect(ast.data?.metadata).toEqual({
+      title: 'Report',
+      author: 'Ann Lee',
+      keywords: ['q1', 'sales'],
+      description: 'Summary',
+      date: '2024-03-07',
+    });
+    expect(ast.children).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', value: 'Text' }] },
+    ]);
+  });
+
+  it('should reject input without the RTF header', async () => {
+    await expect(parseRtf('Just text')).rejects.toThrow(ParseError);
+  });
+});
+
+describe('isRtf', () => {
+  it('should detect the {\\rtf signature in strings and buffers', () => {
+    expect(isRtf('{\\rtf1\\ansi Hello}')).toBe(true);
+    expect(isRtf(Buffer.from('\n{\\rtf1 Hello}'))).toBe(true);
+    expect(isRtf('{"rtf": 1}')).toBe(false);
+  });
+});
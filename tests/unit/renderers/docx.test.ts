@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
+import { Document, Header, Packer, Paragraph, TextRun } from 'docx';
+import JSZip from 'jszip';
 import { renderDocx } from '../../../src/renderers/docx.js';
 import { parseMarkdown } from '../../../src/parsers/markdown.js';
+import { parseDocx } from '../../../src/parsers/docx.js';
 
 describe('renderDocx', () => {
   it('should render AST to DOCX buffer', async () => {
@@ -68,6 +71,34 @@ describe('renderDocx', () => {
     expect(result.length).toBeGreaterThan(0);
   });
 
+  it('should render links as hyperlinks and keep formatting inside blockquotes', async () => {
+    const ast = await parseMarkdown(
+      'See [the **docs**](https://example.com/docs).\n\n> Quoted *text* with [a link](https://example.com/q).'
+    );
+    const result = await renderDocx(ast);
+
+    const zip = await JSZip.loadAsync(result);
+    const rels = await zip.file('word/_rels/document.xml.rels')?.async('string');
+    expect(rels).toContain('Target="https://example.com/docs"');
+    expect(rels).toContain('Target="https://example.com/q"');
+
+    const roundTrip = JSON.stringify(await parseDocx(result));
+    expect(roundTrip).toContain('"url":"https://example.com/docs"');
+    expect(roundTrip).toContain('"url":"https://example.com/q"');
+    expect(roundTrip).toContain('"type":"emphasis"');
+  });
+
+  it('should keep hard line breaks', async () => {
+    const ast = await parseMarkdown('# Breaks\n\nLine one  \nline two\n\n- Item **a  \nb**');
+    const result = await renderDocx(ast);
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+    expect(document).toMatch(/>Line one<\/w:t>.*<w:br\/>.*>line two</);
+    expect(document).toMatch(/<w:b\/>.*<w:br\/>.*>b</);
+    expect(document).not.toContain('Line oneline two');
+  });
+
   it('should add title when metadata is provided', async () => {
     const ast = await parseMarkdown('Content');
     const result = await renderDocx(ast, {
@@ -97,4 +128,206 @@ describe('renderDocx', () => {
     expect(result).toBeInstanceOf(Buffer);
     expect(result.length).toBeGreaterThan(0);
   });
+
+  it('should accept custom styles', async () => {
+    const ast = await parseMarkdown('# Heading\n\nBody with `code`');
+    const result = await renderDocx(ast, {
+      styles: {
+        docx: {
+          margins: { top: 0.5, bottom: 0.5 },
+          fontFamily: 'Georgia',
+          codeFontFamily: 'Consolas',
+          fontSize: { body: 22, h1: 40 },
+        },
+      },
+    });
+
+    expect(result).toBeInstanceOf(Buffer);
+    expect(result.slice(0, 2).toString()).toBe('PK');
+  });
+
+  it('should handle GFM tables, strikethrough and task lists', async () => {
+    const ast = await parseMarkdown(
+      '# GFM\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\n~~old~~ new\n\n- [x] Done'
+    );
+    const result = await renderDocx(ast);
+
+    expect(result).toBeInstanceOf(Buffer);
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it('should render tables as native Word tables', async () => {
+    const ast = await parseMarkdown(
+      '# Table\n\n| Name | Qty |\n| :--- | ---: |\n| **Apple** | 3 |\n| Pear |'
+    );
+    const result = await renderDocx(ast);
+    const roundTrip = await parseDocx(result);
+
+    const table = roundTrip.children.find((c) => c.type === 'table') as {
+      children: { children: unknown[] }[];
+    };
+    expect(table).toBeDefined();
+    expect(table.children).toHaveLength(3);
+    expect(table.children[2].children).toHaveLength(2);
+    expect(JSON.stringify(table.children[1].children[0])).toContain('"type":"strong"');
+  });
+
+  it('should render lists as native Word numbering with nested levels', async () => {
+    const ast = await parseMarkdown(
+      '# Lists\n\n1. One\n2. Two\n   - Sub a\n   - Sub b\n\n- Bullet'
+    );
+    const result = await renderDocx(ast);
+    const roundTrip = await parseDocx(result);
+
+    const lists = roundTrip.children.filter((c) => c.type === 'list') as {
+      ordered: boolean;
+      children: { children: { type: string; ordered?: boolean }[] }[];
+    }[];
+    expect(lists).toHaveLength(2);
+    expect(lists[0].ordered).toBe(true);
+    expect(lists[0].children).toHaveLength(2);
+    expect(lists[1].ordered).toBe(false);
+
+    const nested = lists[0].children[1].children.find((c) => c.type === 'list');
+    expect(nested).toBeDefined();
+    expect(nested?.ordered).toBe(false);
+  });
+
+  it('should start nested ordered lists at their own start number', async () => {
+    const ast = await parseMarkdown('# Lists\n\n1. a\n\n   5. five\n   6. six');
+    const result = await renderDocx(ast);
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+    const numbering = await zip.file('word/numbering.xml')!.async('string');
+
+    const nested = /<w:ilvl w:val="1"\/><w:numId w:val="(\d+)"\/>/.exec(document);
+    expect(nested).not.toBeNull();
+    const abstractId = new RegExp(
+      `<w:num w:numId="${nested![1]}"[^>]*><w:abstractNumId w:val="(\\d+)"/>`
+    ).exec(numbering)![1];
+    const abstract = new RegExp(
+      `<w:abstractNum [^>]*w:abstractNumId="${abstractId}"[^>]*>[\\s\\S]*?</w:abstractNum>`
+    ).exec(numbering)![0];
+    expect(abstract).toMatch(/<w:lvl w:ilvl="0"[^>]*><w:start w:val="1"\/>/);
+    expect(abstract).toMatch(/<w:lvl w:ilvl="1"[^>]*><w:start w:val="5"\/>/);
+  });
+
+  it('should embed images with alt text', async () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+    const ast = await parseMarkdown('# Images\n\n![Company logo](logo.png)');
+    const result = await renderDocx(ast, { assets: { 'logo.png': png } });
+    const roundTrip = await parseDocx(result);
+
+    const json = JSON.stringify(roundTrip);
+    expect(json).toContain('"type":"image"');
+    expect(json).toContain('Company logo');
+  });
+
+  it('should apply a reference document as the template', async () => {
+    const reference = await Packer.toBuffer(
+      new Document({
+        styles: {
+          paragraphStyles: [
+            { id: 'Heading1', name: 'Heading 1', run: { font: 'Georgia', color: 'FF0000' } },
+          ],
+        },
+        sections: [
+          {
+            properties: { page: { size: { width: 12240, height: 15840 } } },
+            headers: {
+              default: new Header({
+                children: [new Paragraph({ children: [new TextRun('ACME')] })],
+              }),
+            },
+            children: [new Paragraph('Placeholder')],
+          },
+        ],
+      })
+    );
+
+    const ast = await parseMarkdown('# Report\n\nBody text\n\n1. One\n2. Two\n\n> Quoted');
+    const result = await renderDocx(ast, {
+      template: {
+        id: 'ref',
+        name: 'Ref',
+        type: 'docx',
+        path: 'ref.docx',
+        content: '',
+        data: reference,
+      },
+    });
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+    const styles = await zip.file('word/styles.xml')!.async('string');
+
+    expect(document).not.toContain('Placeholder');
+    expect(document).toContain('<w:pgSz w:w="12240" w:h="15840"');
+    expect(document).toContain('<w:headerReference');
+    expect(await zip.file('word/header1.xml')!.async('string')).toContain('ACME');
+    expect(styles).toContain('Georgia');
+    expect(styles).toContain('w:styleId="Quote"');
+
+    const roundTrip = await parseDocx(result);
+    const types = roundTrip.children.map((c) => c.type);
+    expect(types).toContain('heading');
+    expect(types).toContain('list');
+    expect(JSON.stringify(roundTrip)).toContain('Body text');
+  });
+
+  it('should insert a native TOC field limited to the configured depth', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\nText');
+    const result = await renderDocx(ast, { toc: { depth: 2 } });
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+    const settings = await zip.file('word/settings.xml')!.async('string');
+
+    expect(document).toContain('TOC \\h \\o &quot;1-2&quot;');
+    expect(document).toContain('Contents');
+    expect(settings).toContain('<w:updateFields/>');
+  });
+
+  it('should add headers and footers with page number fields', async () => {
+    const ast = await parseMarkdown('# Doc\n\nBody');
+    const result = await renderDocx(ast, {
+      metadata: { title: 'Annual Report' },
+      header: { left: '{title}', right: 'Confidential' },
+      footer: { center: 'Page {page} of {pages}' },
+    });
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+    const parts = await Promise.all(
+      Object.keys(zip.files)
+        .filter((name) => /^word\/(header|footer)\d+\.xml$/.test(name))
+        .map((name) => zip.file(name)!.async('string'))
+    );
+    const marks = parts.join('\n');
+
+    // Default and (empty) title page variants of each
+    expect(parts).toHaveLength(4);
+    expect(document).toContain('<w:titlePg/>');
+    expect(marks).toContain('Annual Report');
+    expect(marks).toContain('Confidential');
+    expect(marks).toContain('>PAGE<');
+    expect(marks).toContain('>NUMPAGES<');
+  });
+
+  it('should colour highlighted code runs and number lines', async () => {
+    const ast = await parseMarkdown('# Code\n\n```js\nconst a = "x";\n```');
+    const result = await renderDocx(ast, { highlight: { lineNumbers: true } });
+
+    const zip = await JSZip.loadAsync(result);
+    const document = await zip.file('word/document.xml')!.async('string');
+
+    // Keyword and string colours from the github theme
+    expect(document).toContain('w:val="D73A49"');
+    expect(document).toContain('w:val="032F62"');
+    expect(document).toContain('>1  <');
+  });
 });
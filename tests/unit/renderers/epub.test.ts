@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { renderEpub } from '../../../src/renderers/epub.js';
+import { parseMarkdown } from '../../../src/parsers/markdown.js';
+
+/**
+ * Read a file from an EPUB as text
+ */
+async function readEntry(epub: Buffer, path: string): Promise<string> {
+  const zip = await JSZip.loadAsync(epub);
+  return zip.file(path)!.async('string');
+}
+
+describe('renderEpub', () => {
+  it('should package an uncompressed mimetype first with the container and package files', async () => {
+    const ast = await parseMarkdown('# Hello\n\nWorld');
+    const result = await renderEpub(ast);
+    const zip = await JSZip.loadAsync(result);
+
+    expect(result.slice(30, 58).toString('ascii')).toBe('mimetypeapplication/epub+zip');
+    expect(Object.keys(zip.files)[0]).toBe('mimetype');
+    expect(await readEntry(result, 'META-INF/container.xml')).toContain(
+      'full-path="OEBPS/content.opf"'
+    );
+    expect(zip.file('OEBPS/nav.xhtml')).not.toBeNull();
+    expect(zip.file('OEBPS/toc.ncx')).not.toBeNull();
+    expect(zip.file('OEBPS/styles.css')).not.toBeNull();
+  });
+
+  it('should fill Dublin Core metadata', async () => {
+    const ast = await parseMarkdown('# Hello');
+    const opf = await readEntry(
+      await renderEpub(ast, {
+        metadata: {
+          title: 'Field Guide',
+          author: 'Sam',
+          date: '2024-05-01',
+          description: 'A guide & more',
+          keywords: ['birds', 'maps'],
+          language: 'de',
+          identifier: 'isbn:123',
+        },
+      }),
+      'OEBPS/content.opf'
+    );
+
+    expect(opf).toContain('<dc:title>Field Guide</dc:title>');
+    expect(opf).toContain('<dc:creator>Sam</dc:creator>');
+    expect(opf).toContain('<dc:date>2024-05-01</dc:date>');
+    expect(opf).toContain('<dc:description>A guide &amp; more</dc:description>');
+    expect(opf).toContain('<dc:subject>maps</dc:subject>');
+    expect(opf).toContain('<dc:language>de</dc:language>');
+    expect(opf).toContain('<dc:identifier id="book-id">isbn:123</dc:identifier>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d\d-\d\dT[\d:]+Z<\/meta>/);
+  });
+
+  it('should split chapters at the configured heading depth and link them from the TOC', async () => {
+    const ast = await parseMarkdown('Preface\n\n# One\n\n## One A\n\n## One B\n\n# Two');
+
+    const byTitle = await renderEpub(ast);
+    const zip = await JSZip.loadAsync(byTitle);
+    expect(zip.file(/^OEBPS\/chapter-\d+\.xhtml$/)).toHaveLength(3);
+    const nav = await readEntry(byTitle, 'OEBPS/nav.xhtml');
+    expect(nav).toContain('<nav epub:type="toc" id="toc">');
+    expect(nav).toContain('<a href="chapter-2.xhtml#one-b">One B</a>');
+    expect(nav).toContain('<a href="chapter-3.xhtml#two">Two</a>');
+    expect(await readEntry(byTitle, 'OEBPS/toc.ncx')).toContain('src="chapter-2.xhtml#one-a"');
+
+    const bySection = await renderEpub(ast, { styles: { epub: { chapterDepth: 2 } } });
+    const chapter = await readEntry(bySection, 'OEBPS/chapter-3.xhtml');
+    expect(await JSZip.loadAsync(bySection).then((z) => z.file(/chapter-/).length)).toBe(5);
+    expect(chapter).toContain('<title>One A</title>');
+    expect(chapter).toContain('<h2 id="one-a">One A</h2>');
+  });
+
+  it('should point in-document links at the chapter holding the heading', async () => {
+    const ast = await parseMarkdown(
+      '# One\n\nSee [Two](#two) and [below](#one-a).\n\n## One A\n\n# Two\n\nBack to [One](#one), [site](https://example.com), [gone](#gone).'
+    );
+    const result = await renderEpub(ast);
+    const one = await readEntry(result, 'OEBPS/chapter-1.xhtml');
+    const two = await readEntry(result, 'OEBPS/chapter-2.xhtml');
+
+    expect(one).toContain('<a href="chapter-2.xhtml#two">Two</a>');
+    expect(one).toContain('<a href="chapter-1.xhtml#one-a">below</a>');
+    expect(two).toContain('<a href="chapter-1.xhtml#one">One</a>');
+    expect(two).toContain('<a href="https://example.com">site</a>');
+    expect(two).toContain('<a href="#gone">gone</a>');
+  });
+
+  it('should write XHTML content documents', async () => {
+    const ast = await parseMarkdown('# Doc\n\nLine  \nbreak\n\n---\n\n- [x] Done');
+    const chapter = await readEntry(await renderEpub(ast), 'OEBPS/chapter-1.xhtml');
+
+    expect(chapter).toContain('<html xmlns="http://www.w3.org/1999/xhtml"');
+    expect(chapter).toContain('<link rel="stylesheet" type="text/css" href="styles.css"/>');
+    expect(chapter).toContain('<br />');
+    expect(chapter).toContain('<hr />');
+    expect(chapter).toContain('<input type="checkbox" disabled="disabled" checked="checked" />');
+  });
+
+  it('should embed images and fall back to alt text', async () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+    const ast = await parseMarkdown('# Images\n\n![Logo](logo.png)\n\n![Missing](missing.png)');
+    const result = await renderEpub(ast, { assets: { 'logo.png': png } });
+    const zip = await JSZip.loadAsync(result);
+    const chapter = await readEntry(result, 'OEBPS/chapter-1.xhtml');
+
+    expect(zip.file('OEBPS/images/image-1.png')).not.toBeNull();
+    expect(await readEntry(result, 'OEBPS/content.opf')).toContain(
+      'href="images/image-1.png" media-type="image/png"'
+    );
+    expect(chapter).toContain('<img src="images/image-1.png" alt="Logo" />');
+    expect(chapter).toContain('<p>Missing</p>');
+  });
+
+  it('should add the navigation document to the spine when a TOC is requested', async () => {
+    const ast = await parseMarkdown('# One\n\n# Two');
+
+    const plain = await readEntry(await renderEpub(ast), 'OEBPS/content.opf');
+    expect(plain).not.toContain('<itemref idref="nav"/>');
+
+    const result = await renderEpub(ast, { toc: { title: 'Chapters' } });
+    expect(await readEntry(result, 'OEBPS/content.opf')).toContain('<itemref idref="nav"/>');
+    expect(await readEntry(result, 'OEBPS/nav.xhtml')).toContain('<h1>Chapters</h1>');
+  });
+
+  it('should reject invalid chapter depths', async () => {
+    const ast = await parseMarkdown('# One');
+
+    await expect(renderEpub(ast, { styles: { epub: { chapterDepth: 0 } } })).rejects.toThrow(
+      /chapterDepth/
+    );
+  });
+});
@@ -86,4 +86,164 @@ describe('renderHtml', () => {
     expect(result).not.toContain('<script>alert');
     expect(result).toContain('&lt;script&gt;');
   });
+
+  it('should append custom CSS to the default styles', async () => {
+    const ast = await parseMarkdown('Content');
+    const result = await renderHtml(ast, {
+      styles: { html: { css: 'body { color: rebeccapurple; }' } },
+    });
+
+    expect(result).toContain('font-family');
+    expect(result).toContain('body { color: rebeccapurple; }');
+  });
+
+  it('should omit default styles when includeDefaultStyles is false', async () => {
+    const ast = await parseMarkdown('Content');
+    const result = await renderHtml(ast, {
+      styles: { html: { css: 'p { margin: 0; }', includeDefaultStyles: false } },
+    });
+
+    expect(result).not.toContain('font-family');
+    expect(result).toContain('p { margin: 0; }');
+  });
+
+  it('should render GFM tables with alignment', async () => {
+    const ast = await parseMarkdown('# Table\n\n| Name | Qty |\n| :--- | ---: |\n| Apple | 3 |');
+    const result = await renderHtml(ast);
+
+    expect(result).toContain('<table>');
+    expect(result).toContain('<th style="text-align: left">Name</th>');
+    expect(result).toContain('<td style="text-align: right">3</td>');
+  });
+
+  it('should render strikethrough and task list items', async () => {
+    const ast = await parseMarkdown('# GFM\n\n~~gone~~\n\n- [x] Done\n- [ ] Todo');
+    const result = await renderHtml(ast);
+
+    expect(result).toContain('<del>gone</del>');
+    expect(result).toContain('<input type="checkbox" disabled checked> Done');
+    expect(result).toContain('<input type="checkbox" disabled> Todo');
+  });
+
+  it('should preserve inline formatting, links and images', async () => {
+    const ast = await parseMarkdown(
+      '# Inline\n\nSome **bold**, _em_, `code`, [a link](https://example.com "Title") and ![Logo](logo.png)'
+    );
+    const result = await renderHtml(ast);
+
+    expect(result).toContain('<strong>bold</strong>');
+    expect(result).toContain('<em>em</em>');
+    expect(result).toContain('<code>code</code>');
+    expect(result).toContain('<a href="https://example.com" title="Title">a link</a>');
+    expect(result).toContain('<img src="logo.png" alt="Logo">');
+  });
+
+  it('should render list item paragraphs exactly once', async () => {
+    const ast = await parseMarkdown('# List\n\n- Only once\n- Second');
+    const result = await renderHtml(ast);
+
+    expect(result.match(/Only once/g)).toHaveLength(1);
+    expect(result).toContain('<li>Only once</li>');
+  });
+
+  it('should preserve nested lists and blockquote content', async () => {
+    const ast = await parseMarkdown('# Nest\n\n- Parent\n  - Child\n\n> Quoted **text**');
+    const result = await renderHtml(ast);
+
+    expect(result).toContain('<li>Parent\n<ul>\n<li>Child</li>\n</ul></li>');
+    expect(result).toContain('<blockquote>\n<p>Quoted <strong>text</strong></p>\n</blockquote>');
+    expect(result.match(/Quoted/g)).toHaveLength(1);
+  });
+
+  it('should render hard line breaks and resolve reference links', async () => {
+    const ast = await parseMarkdown(
+      '# Refs\n\nLine one\\\nLine two [docs][d]\n\n[d]: https://example.com/docs'
+    );
+    const result = await renderHtml(ast);
+
+    expect(result).toContain('Line one<br>');
+    expect(result).toContain('<a href="https://example.com/docs">docs</a>');
+  });
+
+  it('should neutralize script URLs', async () => {
+    const ast = await parseMarkdown('# Links\n\n[click](javascript:alert(1))');
+    const result = await renderHtml(ast);
+
+    expect(result).not.toContain('javascript:');
+  });
+
+  it('should render templates with conditionals and custom metadata', async () => {
+    const ast = await parseMarkdown('# Doc\n\nBody');
+    const template = {
+      id: 'byline',
+      name: 'Byline',
+      type: 'html' as const,
+      path: 'byline.html',
+      content:
+        '<title>{{title}}</title>{{#if author}}<p class="by">{{author}}</p>{{/if}}' +
+        '<span>{{metadata.team}}</span>{{content}}',
+    };
+
+    const withAuthor = await renderHtml(ast, {
+      template,
+      metadata: { title: 'A & B', author: 'Sam', team: 'Docs' },
+    });
+    expect(withAuthor).toContain('<title>A &amp; B</title>');
+    expect(withAuthor).toContain('<p class="by">Sam</p>');
+    expect(withAuthor).toContain('<span>Docs</span>');
+    expect(withAuthor).toContain('<h1>Doc</h1>');
+
+    const anonymous = await renderHtml(ast, { template, metadata: { title: 'Doc' } });
+    expect(anonymous).not.toContain('class="by"');
+  });
+
+  it('should keep supporting the original placeholders', async () => {
+    const ast = await parseMarkdown('# Doc');
+    const result = await renderHtml(ast, {
+      template: {
+        id: 'legacy',
+        name: 'Legacy',
+        type: 'html',
+        path: 'legacy.html',
+        content: '<title>{{TITLE}}</title><style>{{STYLES}}</style>{{META}}{{CONTENT}}',
+      },
+      metadata: { title: 'Legacy', author: 'Sam' },
+      styles: { html: { includeDefaultStyles: false, css: 'a > b {}' } },
+    });
+
+    expect(result).toContain('<title>Legacy</title>');
+    expect(result).toContain('<style>a > b {}</style>');
+    expect(result).toContain('<meta name="author" content="Sam">');
+    expect(result).toContain('<h1>Doc</h1>');
+  });
+
+  it('should add a linked table of contents and heading ids', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\n### Deep\n\n#### Deeper\n\n## Setup');
+    const result = await renderHtml(ast, { toc: { depth: 3, title: 'On this page' } });
+
+    expect(result).toContain('<nav class="toc">');
+    expect(result).toContain('On this page');
+    expect(result).toContain('<a href="#setup">Setup</a>');
+    expect(result).toContain('<a href="#setup-1">Setup</a>');
+    expect(result).toContain('<h2 id="setup">');
+    expect(result).toContain('<h2 id="setup-1">');
+    expect(result).toContain('<a href="#deep">Deep</a>');
+    expect(result).not.toContain('href="#deeper"');
+    // The TOC comes before the content
+    expect(result.indexOf('<nav class="toc">')).toBeLessThan(result.indexOf('<h1 id="guide">'));
+  });
+
+  it('should highlight code blocks with coloured spans and line numbers', async () => {
+    const ast = await parseMarkdown('# Code\n\n```js\nconst a = 1;\nreturn a;\n```');
+
+    const plain = await renderHtml(ast);
+    expect(plain).toContain('<pre><code class="language-js">const a = 1;');
+
+    const result = await renderHtml(ast, {
+      highlight: { theme: 'github-dark', lineNumbers: true },
+    });
+    expect(result).toContain('<pre class="highlight" style="background-color: #0d1117');
+    expect(result).toContain('<span class="hljs-keyword" style="color: #ff7b72">const</span>');
+    expect(result).toContain('<span class="line-number" style="color: #6e7681">2</span>');
+  });
 });
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { renderLatex, escapeLatex } from '../../../src/renderers/latex.js';
+import { parseMarkdown } from '../../../src/parsers/markdown.js';
+import { convert } from '../../../src/core/engine.js';
+import { registerTemplate, unregisterTemplate } from '../../../src/templates/index.js';
+
+/**
+ * Render Markdown to a LaTeX body
+ */
+async function body(markdown: string, codeBlocks?: 'verbatim' | 'listings'): Promise<string> {
+  return renderLatex(await parseMarkdown(markdown), {
+    styles: { latex: { bodyOnly: true, codeBlocks } },
+  });
+}
+
+describe('escapeLatex', () => {
+  it('should escape every special character', () => {
+    expect(escapeLatex('\\ { } $ & # % _ ^ ~')).toBe(
+      '\\textbackslash{} \\{ \\} \\$ \\& \\# \\% \\_ \\textasciicircum{} \\textasciitilde{}'
+    );
+  });
+});
+
+describe('renderLatex', () => {
+  it('should write a complete document with a preamble from the metadata', async () => {
+    const result = await renderLatex(await parseMarkdown('Hello.'), {
+      metadata: { title: 'R&D Notes', author: 'Ann Lee', keywords: ['a', 'b'] },
+    });
+
+    expect(result.startsWith('\\documentclass[11pt,letterpaper]{article}\n')).toBe(true);
+    expect(result).toContain('\\usepackage{hyperref}');
+    expect(result).toContain('pdftitle={R\\&D Notes},pdfauthor={Ann Lee},pdfkeywords={a, b}');
+    expect(result).toContain('\\title{R\\&D Notes}\n\\author{Ann Lee}\n\\date{}');
+    expect(result).toMatch(
+      /\\begin\{document\}\n\\maketitle\n[\s\S]*Hello\.\n\\end\{document\}\n$/
+    );
+  });
+
+  it('should map heading depth to sectioning commands', async () => {
+    expect(await body('# One\n\n## Two\n\n#### Four')).toBe(
+      '\\section{One}\\label{one}\n\n\\subsection{Two}\\label{two}\n\n\\paragraph{Four}\\label{four}'
+    );
+
+    const report = await renderLatex(await parseMarkdown('# One\n\n## Two'), {
+      styles: { latex: { documentClass: 'report', bodyOnly: true } },
+    });
+    expect(report).toContain('\\chapter{One}');
+    expect(report).toContain('\\section{Two}');
+  });
+
+  it('should render inline formatting, links and footnotes', async () => {
+    const result = await body(
+      '**b** *i* ~~s~~ `x_1` [site](https://x.com/?q=1%2B#top) [up](#one) 5%[^n]\n\n[^n]: Note.'
+    );
+
+    expect(result).toBe(
+      '\\textbf{b} \\emph{i} \\sout{s} \\texttt{x\\_1} \\href{https://x.com/?q=1\\%2B\\#top}{site} ' +
+        '\\hyperref[one]{up} 5\\%\\footnote{Note.}'
+    );
+  });
+
+  it('should render lists as itemize and enumerate', async () => {
+    expect(await body('3. three\n4. four\n   - inner')).toBe(
+      [
+        '\\begin{enumerate}',
+        '\\setcounter{enumi}{2}',
+        '\\item three',
+        '\\item four',
+        '',
+        '\\begin{itemize}',
+        '\\item inner',
+        '\\end{itemize}',
+        '\\end{enumerate}',
+      ].join('\n')
+    );
+    expect(await body('- [x] done\n- [ ] todo')).toContain(
+      '\\item[$\\boxtimes$] done\n\\item[$\\square$] todo'
+    );
+  });
+
+  it('should render code blocks as verbatim or listings', async () => {
+    const code = 'Run:\n\n```python\nprint("100%")\n```';
+
+    expect(await body(code)).toContain('\\begin{verbatim}\nprint("100%")\n\\end{verbatim}');
+    expect(await body(code, 'listings')).toContain(
+      '\\begin{lstlisting}[language={Python}]\nprint("100%")\n\\end{lstlisting}'
+    );
+    expect(await body('Run:\n\n```js\nx\n```', 'listings')).toContain(
+      '\\begin{lstlisting}\nx\n\\end{lstlisting}'
+    );
+  });
+
+  it('should write code that would end its environment or sits in a footnote as lines', async () => {
+    const code = 'Run:\n\n```\nbefore\n\\end{verbatim}\n  \\end{lstlisting} 100%\n```';
+    const lines = [
+      '\\noindent\\texttt{before}\\\\',
+      '\\texttt{\\textbackslash{}end\\{verbatim\\}}\\\\',
+      '\\texttt{~~\\textbackslash{}end\\{lstlisting\\}~100\\%}',
+    ].join('\n');
+
+    expect(await body(code)).toBe(`Run:\n\n${lines}`);
+    expect(await body(code, 'listings')).toBe(`Run:\n\n${lines}`);
+    expect(await body('Run:\n\n```\nsafe \\end{lstlisting}\n```')).toContain('\\begin{verbatim}');
+
+    const footnote = await body(
+      'Intro.\n\nSee[^n]\n\n[^n]: Run:\n\n    ```\n    a\n\n    b\n    ```'
+    );
+    expect(footnote).toContain(
+      'See\\footnote{Run:\n\n\\noindent\\texttt{a}\\\\\n\\texttt{~}\\\\\n\\texttt{b}}'
+    );
+  });
+
+  it('should render tables as tabular with the column alignments', async () => {
+    expect(await body('| A | B | C |\n|:-:|--:|---|\n| 1 | & | 3 |')).toBe(
+      [
+        '\\begin{center}',
+        '\\begin{tabular}{crl}',
+        '\\toprule',
+        'A & B & C \\\\',
+        '\\midrule',
+        '1 & \\& & 3 \\\\',
+        '\\bottomrule',
+        '\\end{tabular}',
+        '\\end{center}',
+      ].join('\n')
+    );
+  });
+
+  it('should include local images and use alt text for remote ones', async () => {
+    expect(await body('Figure:\n\n![Chart](figs/chart.png)')).toContain(
+      '\\begin{figure}[htbp]\n\\centering\n\\includegraphics{figs/chart.png}\n\\caption{Chart}\n\\end{figure}'
+    );
+    expect(await body('See ![Logo](https://x.com/logo.png).')).toBe('See Logo.');
+    expect(await body('![](my_chart&v2.png)')).toContain(
+      '\\includegraphics{\\detokenize{my_chart&v2.png}}'
+    );
+  });
+
+  it('should build link labels from fragments the same way as heading labels', async () => {
+    expect(await body('# Set Up\n\n[a](#set-up) [b](#Set_Up}\\x) [c](#)')).toBe(
+      '\\section{Set Up}\\label{set-up}\n\n\\hyperref[set-up]{a} \\hyperref[set_upx]{b} c'
+    );
+  });
+
+  it('should add a table of contents limited to the heading depth', async () => {
+    const result = await renderLatex(await parseMarkdown('# One'), { toc: { depth: 2 } });
+
+    expect(result).toContain(
+      '\\renewcommand{\\contentsname}{Contents}\n\\setcounter{tocdepth}{2}\n\\tableofcontents'
+    );
+  });
+
+  it('should apply a registered LaTeX template with LaTeX-escaped values', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-latex-'));
+    try {
+      const path = join(dir, 'paper.tex');
+      await writeFile(
+        path,
+        '{{{preamble}}}\n\\begin{document}\n\\section*{ {{title}} }\n{{{content}}}\n\\end{document}\n'
+      );
+      await registerTemplate({ id: 'paper', name: 'Paper', type: 'latex', path });
+
+      const result = await convert('Body text.', {
+        format: ['latex'],
+        templateId: 'paper',
+        metadata: { title: 'Cost_Model' },
+      });
+
+      expect(result.latex).toContain('\\section*{ Cost\\_Model }\nBody text.\n\\end{document}');
+    } finally {
+      unregisterTemplate('paper');
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -64,4 +64,26 @@ describe('renderMarkdown', () => {
 
     expect(result).toContain('title: "Title: With Colon"');
   });
+
+  it('should stringify GFM tables, strikethrough and task lists', async () => {
+    const ast = await parseMarkdown(
+      '# GFM\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\n~~old~~\n\n- [x] Done'
+    );
+    const result = await renderMarkdown(ast);
+
+    expect(result).toContain('| A | B |');
+    expect(result).toContain('~~old~~');
+    expect(result).toContain('- [x] Done');
+  });
+
+  it('should prepend a bullet-list table of contents', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Getting Started\n\n### Install it!');
+    const result = await renderMarkdown(ast, { toc: true });
+
+    expect(result).toContain('*Contents*');
+    expect(result).toContain('- [Guide](#guide)');
+    expect(result).toContain('  - [Getting Started](#getting-started)');
+    expect(result).toContain('    - [Install it!](#install-it)');
+    expect(result.indexOf('[Guide](#guide)')).toBeLessThan(result.indexOf('# Guide'));
+  });
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { renderOdt } from '../../../src/renderers/odt.js';
+import { parseOdt } from '../../../src/parsers/odt.js';
+import { parseMarkdown } from '../../../src/parsers/markdown.js';
+
+/**
+ * Read a file from an ODT package as text
+ */
+async function readEntry(odt: Buffer, path: string): Promise<string> {
+  const zip = await JSZip.loadAsync(odt);
+  return zip.file(path)!.async('string');
+}
+
+describe('renderOdt', () => {
+  it('should package an uncompressed mimetype first with a manifest', async () => {
+    const result = await renderOdt(await parseMarkdown('# Hello'));
+    const zip = await JSZip.loadAsync(result);
+
+    expect(result.subarray(30, 38).toString('ascii')).toBe('mimetype');
+    expect(result.subarray(38, 77).toString('ascii')).toBe(
+      'application/vnd.oasis.opendocument.text'
+    );
+    expect(Object.keys(zip.files)[0]).toBe('mimetype');
+
+    const manifest = await readEntry(result, 'META-INF/manifest.xml');
+    for (const path of ['content.xml', 'styles.xml', 'meta.xml']) {
+      expect(manifest).toContain(`manifest:full-path="${path}"`);
+    }
+  });
+
+  it('should render blocks with the standard LibreOffice styles', async () => {
+    const ast = await parseMarkdown(
+      '## Intro\n\nSome **bold** `code` [link](https://x.com)\n\n> Quote\n\n---\n\n```\n  indented\n```'
+    );
+    const content = await readEntry(await renderOdt(ast), 'content.xml');
+
+    expect(content).toContain(
+      '<text:h text:style-name="Heading_20_2" text:outline-level="2">Intro</text:h>'
+    );
+    expect(content).toContain('<text:span text:style-name="Strong_20_Emphasis">bold</text:span>');
+    expect(content).toContain('<text:span text:style-name="Source_20_Text">code</text:span>');
+    expect(content).toContain('<text:a xlink:type="simple" xlink:href="https://x.com"');
+    expect(content).toContain('<text:p text:style-name="Quotations">Quote</text:p>');
+    expect(content).toContain('<text:p text:style-name="Horizontal_20_Line"/>');
+    expect(content).toContain(
+      '<text:p text:style-name="Preformatted_20_Text"><text:s text:c="2"/>indented</text:p>'
+    );
+  });
+
+  it('should render lists and tables', async () => {
+    const ast = await parseMarkdown('3. three\n   - inner\n\n| A | B |\n|---|---|\n| 1 | 2 |');
+    const content = await readEntry(await renderOdt(ast), 'content.xml');
+
+    expect(content).toContain(
+      '<text:list text:style-name="Numbering_20_123"><text:list-item text:start-value="3">'
+    );
+    expect(content).toContain('<text:list text:style-name="List_20_1">');
+    expect(content).toContain('<table:table-column table:number-columns-repeated="2"/>');
+    expect(content).toMatch(/<table:table-header-rows><table:table-row>.*Table_20_Heading">A</);
+  });
+
+  it('should embed images as frames', async () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+    const ast = await parseMarkdown('![Logo](logo.png)');
+    const result = await renderOdt(ast, { assets: { 'logo.png': png } });
+    const zip = await JSZip.loadAsync(result);
+    const content = await readEntry(result, 'content.xml');
+
+    expect(zip.file('Pictures/image-1.png')).not.toBeNull();
+    expect(content).toContain('<draw:image xlink:href="Pictures/image-1.png"');
+    expect(content).toContain('<svg:title>Logo</svg:title>');
+    expect(await readEntry(result, 'META-INF/manifest.xml')).toContain(
+      'manifest:full-path="Pictures/image-1.png" manifest:media-type="image/png"'
+    );
+  });
+
+  it('should write metadata and page styles', async () => {
+    const ast = await parseMarkdown('Body');
+    const result = await renderOdt(ast, {
+      metadata: { title: 'Report', author: 'Sam', keywords: ['q1'] },
+      styles: { odt: { margins: { left: 0.5 }, fontFamily: 'Carlito' } },
+    });
+    const meta = await readEntry(result, 'meta.xml');
+    const styles = await readEntry(result, 'styles.xml');
+
+    expect(meta).toContain('<dc:title>Report</dc:title>');
+    expect(meta).toContain('<meta:initial-creator>Sam</meta:initial-creator>');
+    expect(meta).toContain('<meta:keyword>q1</meta:keyword>');
+    expect(styles).toContain('fo:margin-left="0.5in"');
+    expect(styles).toContain('style:font-name="Carlito"');
+    expect(await readEntry(result, 'content.xml')).toContain(
+      '<text:p text:style-name="Title">Report</text:p>'
+    );
+  });
+
+  it('should round-trip through the ODT parser', async () => {
+    const markdown =
+      '# Title\n\nText with *emphasis* and ~~strike~~.\n\n- one\n- two\n\n```\ncode  here\n```\n\n---';
+    const ast = await parseOdt(await renderOdt(await parseMarkdown(markdown)));
+
+    expect(ast.children.map((node) => node.type)).toEqual([
+      'heading',
+      'paragraph',
+      'list',
+      'code',
+      'thematicBreak',
+    ]);
+    expect(ast.children[1]).toMatchObject({
+      children: [
+        { value: 'Text with ' },
+        { type: 'emphasis' },
+        { value: ' and ' },
+        { type: 'delete' },
+        { value: '.' },
+      ],
+    });
+    expect(ast.children[3]).toMatchObject({ value: 'code  here' });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import PDFDocument from 'pdfkit';
+import { resolve } from 'path';
+import {
+  PdfFontSet,
+  registerPdfFonts,
+  usePdfFonts,
+  hasStandardGlyph,
+  drawText,
+  measureText,
+  wrapText,
+  resolveFontPaths,
+} from '../../../src/renderers/pdf-fonts.js';
+import { ConversionError } from '../../../src/utils/errors.js';
+
+/**
+ * Custom family whose variants follow the registered naming scheme
+ */
+const NOTO = {
+  regular: 'Noto',
+  bold: 'Noto-Bold',
+  italic: 'Noto-Italic',
+  boldItalic: 'Noto-BoldItalic',
+};
+
+describe('PdfFontSet', () => {
+  it('should resolve style variants of standard and custom families', () => {
+    const fonts = new PdfFontSet([NOTO]);
+
+    expect(new PdfFontSet().resolve('Times-Roman', true, true)).toBe('Times-BoldItalic');
+    expect(fonts.resolve('Noto', true)).toBe('Noto-Bold');
+    expect(fonts.resolve('Noto-Italic', true)).toBe('Noto-BoldItalic');
+    expect(fonts.resolve('Unknown', true)).toBe('Unknown');
+  });
+
+  it('should keep text in one segment without fallback fonts', () => {
+    expect(new PdfFontSet().split('Hello 世界', 'Helvetica', true)).toEqual([
+      { text: 'Hello 世界', font: 'Helvetica-Bold' },
+    ]);
+  });
+
+  it('should move characters missing from the primary font to a fallback', () => {
+    // Noto covers everything, the standard fonts only WinAnsi
+    const fonts = new PdfFontSet([NOTO], ['Noto'], (font, codePoint) =>
+      font.startsWith('Noto') ? true : hasStandardGlyph(codePoint)
+    );
+
+    expect(fonts.split('Price: 5€ or 世界 today', 'Helvetica', false, true)).toEqual([
+      { text: 'Price: 5€ or ', font: 'Helvetica-Oblique' },
+      { text: '世界 ', font: 'Noto-Italic' },
+      { text: 'today', font: 'Helvetica-Oblique' },
+    ]);
+  });
+
+  it('should fall back in the style of the primary font', () => {
+    const fonts = new PdfFontSet([NOTO], ['Noto'], (font, codePoint) =>
+      font.startsWith('Noto') ? true : hasStandardGlyph(codePoint)
+    );
+
+    expect(fonts.split('a世', 'Helvetica-Bold')).toEqual([
+      { text: 'a', font: 'Helvetica-Bold' },
+      { text: '世', font: 'Noto-Bold' },
+    ]);
+  });
+
+  it('should leave characters no font covers in the primary font', () => {
+    const fonts = new PdfFontSet([NOTO], ['Noto'], () => false);
+
+    expect(fonts.split('a€', 'Courier')).toEqual([{ text: 'a€', font: 'Courier' }]);
+  });
+});
+
+describe('registerPdfFonts', () => {
+  it('should register families under variant names', () => {
+    const doc = new PDFDocument();
+    const fonts = registerPdfFonts(doc, { families: { Noto: { regular: __filename } } });
+
+    expect(fonts.resolve('Noto', true, true)).toBe('Noto-BoldItalic');
+  });
+
+  it('should reject missing font files', () => {
+    const doc = new PDFDocument();
+
+    expect(() =>
+      registerPdfFonts(doc, { families: { Noto: { regular: 'missing/Noto.ttf' } } })
+    ).toThrow(ConversionError);
+  });
+});
+
+describe('drawText', () => {
+  /**
+   * Document whose fallback is Times-Roman, standing in for a font with more glyphs
+   */
+  function fallbackDocument(): PDFKit.PDFDocument {
+    const doc = new PDFDocument({ compress: false });
+    usePdfFonts(
+      doc,
+      new PdfFontSet([], ['Times-Roman'], (font, codePoint) =>
+        font.startsWith('Times') ? true : codePoint < 0x80
+      )
+    );
+    return doc;
+  }
+
+  const style = { font: 'Helvetica', fontSize: 12 };
+
+  it('should measure each segment in its own font', () => {
+    const doc = fallbackDocument();
+    const helvetica = doc.font('Helvetica').fontSize(12).widthOfString('a');
+    const times = doc.font('Times-Roman').fontSize(12).widthOfString('é');
+
+    expect(measureText(doc, 'aé', style)).toBeCloseTo(helvetica + times);
+  });
+
+  it('should draw characters missing from the font with the fallback', async () => {
+    const doc = fallbackDocument();
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const ended = new Promise((resolve) => doc.on('end', resolve));
+
+    drawText(doc, 'Café', 72, 72, style, { width: 200, align: 'center' });
+    doc.end();
+    await ended;
+
+    const raw = Buffer.concat(chunks).toString('latin1');
+    expect(raw).toContain('/BaseFont /Helvetica');
+    expect(raw).toContain('/BaseFont /Times-Roman');
+  });
+
+  it('should wrap between words and break words longer than the width', () => {
+    const doc = fallbackDocument();
+    const width = measureText(doc, 'alpha beta', style);
+
+    expect(wrapText(doc, 'alpha beta gamma\ndelta', style, width)).toEqual([
+      'alpha beta',
+      'gamma',
+      'delta',
+    ]);
+    expect(wrapText(doc, 'x'.repeat(20), style, measureText(doc, 'xxxxx', style))).toEqual([
+      'xxxxx',
+      'xxxxx',
+      'xxxxx',
+      'xxxxx',
+    ]);
+  });
+
+  it('should return the position below the drawn lines', () => {
+    const doc = fallbackDocument();
+    const lineHeight = doc.font('Helvetica').fontSize(12).currentLineHeight(true);
+
+    expect(drawText(doc, 'one\ntwo', 72, 100, style, { width: 200 })).toBeCloseTo(
+      100 + lineHeight * 2
+    );
+    expect(drawText(doc, 'one\ntwo', 72, 100, style, { lineBreak: false })).toBeCloseTo(
+      100 + lineHeight
+    );
+  });
+});
+
+describe('resolveFontPaths', () => {
+  it('should resolve relative font file paths and keep buffers', () => {
+    const buffer = Buffer.from('font');
+    const styles = resolveFontPaths(
+      { fonts: { families: { Noto: { regular: 'fonts/Noto.ttf', bold: buffer } } } },
+      '/templates'
+    );
+
+    expect(styles.fonts?.families?.Noto).toEqual({
+      regular: resolve('/templates', 'fonts/Noto.ttf'),
+      bold: buffer,
+    });
+  });
+});
@@ -1,6 +1,48 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { renderPdf } from '../../../src/renderers/pdf.js';
 import { parseMarkdown } from '../../../src/parsers/markdown.js';
+import { PdfFontSet } from '../../../src/renderers/pdf-fonts.js';
+import { inflateSync } from 'zlib';
+
+/**
+ * Inflate the compressed streams (page contents) of PDFKit output
+ */
+function extractPdfStreams(pdf: Buffer): string[] {
+  const streams: string[] = [];
+
+  for (const stream of pdf.toString('binary').matchAll(/stream\n([\s\S]*?)\nendstream/g)) {
+    try {
+      streams.push(inflateSync(Buffer.from(stream[1], 'binary')).toString('binary'));
+    } catch {
+      continue;
+    }
+  }
+
+  return streams;
+}
+
+/**
+ * Extract the text shown by TJ operators from PDFKit output (standard fonts)
+ */
+function extractPdfText(pdf: Buffer): string {
+  const lines: string[] = [];
+
+  for (const content of extractPdfStreams(pdf)) {
+    for (const op of content.matchAll(/\[(.*?)\] TJ/g)) {
+      const hex = [...op[1].matchAll(/<([0-9a-f]*)>/gi)].map((m) => m[1]).join('');
+      lines.push(Buffer.from(hex, 'hex').toString('latin1'));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Count the pages in a PDF
+ */
+function countPdfPages(pdf: Buffer): number {
+  return pdf.toString('binary').match(/\/Type \/Page\b(?!s)/g)?.length ?? 0;
+}
 
 describe('renderPdf', () => {
   it('should render AST to PDF buffer', async () => {
@@ -80,4 +122,343 @@ describe('renderPdf', () => {
     expect(result).toBeInstanceOf(Buffer);
     expect(result.length).toBeGreaterThan(0);
   });
+
+  it('should accept custom styles', async () => {
+    const ast = await parseMarkdown('# Heading\n\nBody\n\n```\ncode\n```');
+    const result = await renderPdf(ast, {
+      styles: {
+        pdf: {
+          margins: { left: 36, right: 36 },
+          fonts: { body: 'Times-Roman', heading: 'Times-Bold' },
+          fontSize: { body: 10, h1: 20 },
+        },
+      },
+    });
+
+    const pdfString = result.toString('binary');
+    expect(pdfString).toContain('Times-Roman');
+    expect(pdfString).toContain('Times-Bold');
+  });
+
+  it('should handle GFM tables, strikethrough and task lists', async () => {
+    const ast = await parseMarkdown(
+      '# GFM\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\n~~old~~ new\n\n- [x] Done'
+    );
+    const result = await renderPdf(ast);
+
+    expect(result).toBeInstanceOf(Buffer);
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it('should render table cells', async () => {
+    const ast = await parseMarkdown('# Table\n\n| Fruit | Qty |\n| :--- | ---: |\n| Apple | 3 |');
+    const text = extractPdfText(await renderPdf(ast));
+
+    expect(text).toContain('Fruit');
+    expect(text).toContain('Apple');
+  });
+
+  it('should keep inline formatting and links in table cells', async () => {
+    const ast = await parseMarkdown(
+      '| Name | Qty |\n| --- | ---: |\n| *it* `code` [site](https://example.com) | **7** |'
+    );
+    const result = await renderPdf(ast);
+    const raw = result.toString('binary');
+    const [content] = extractPdfStreams(result);
+
+    expect(raw).toContain('/BaseFont /Helvetica-Oblique');
+    expect(raw).toContain('/BaseFont /Courier');
+    expect(raw).toContain('/URI (https://example.com)');
+
+    // The bold cell uses the header's bold font and is right-aligned under "Qty"
+    const cellText = (hex: string) =>
+      new RegExp(`1 0 0 1 ([\\d.]+) [\\d.]+ Tm\\n(/F\\d+) 10 Tf\\n\\[<${hex}>`).exec(content);
+    const qty = cellText('517479');
+    const seven = cellText('37');
+    expect(seven?.[2]).toBe(qty?.[2]);
+    expect(Number(seven?.[1])).toBeGreaterThan(Number(qty?.[1]));
+  });
+
+  it('should repeat the table header row when a table spans pages', async () => {
+    const body = Array.from({ length: 80 }, (_, i) => `| Row ${i} | Value ${i} |`).join('\n');
+    const ast = await parseMarkdown(`# Long\n\n| HeaderCol | Other |\n| --- | --- |\n${body}`);
+    const result = await renderPdf(ast);
+    const text = extractPdfText(result);
+    const pages = countPdfPages(result);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(text.match(/HeaderCol/g)?.length).toBe(pages);
+    expect(text).toContain('Row 79');
+  });
+
+  it('should switch fonts for inline formatting', async () => {
+    const ast = await parseMarkdown('# Marks\n\nPlain **bold** and *italic* with `code`');
+    const result = await renderPdf(ast);
+    const pdfString = result.toString('binary');
+    const text = extractPdfText(result);
+
+    expect(pdfString).toContain('Helvetica-Bold');
+    expect(pdfString).toContain('Helvetica-Oblique');
+    expect(pdfString).toContain('Courier');
+    expect(text).toContain('bold');
+    expect(text).toContain('italic');
+  });
+
+  it('should add clickable link annotations', async () => {
+    const ast = await parseMarkdown(
+      '# Links\n\nSee [the docs](https://example.com/docs) for more.'
+    );
+    const result = await renderPdf(ast);
+    const pdfString = result.toString('binary');
+
+    expect(pdfString).toContain('/URI');
+    expect(pdfString).toContain('https://example.com/docs');
+    expect(extractPdfText(result)).toContain('the docs');
+  });
+
+  it('should render nested lists with per-level markers', async () => {
+    const ast = await parseMarkdown(
+      '# Lists\n\n1. First\n   1. Nested one\n   2. Nested two\n      - Deep item\n2. Second'
+    );
+    const text = extractPdfText(await renderPdf(ast));
+
+    expect(text).toContain('1.');
+    expect(text).toContain('a.');
+    expect(text).toContain('b.');
+    expect(text).toContain('Deep item');
+    expect(text).toContain('Second');
+  });
+
+  it('should embed images and fall back to alt text', async () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+    const ast = await parseMarkdown(
+      '# Images\n\n![Logo](logo.png)\n\n![Missing chart](missing.png)'
+    );
+    const result = await renderPdf(ast, { assets: { 'logo.png': png } });
+
+    expect(result.toString('binary')).toContain('/Subtype /Image');
+    expect(extractPdfText(result)).toContain('Missing chart');
+  });
+
+  it('should apply PDF style templates', async () => {
+    const ast = await parseMarkdown('# Templated\n\nBody text');
+    const result = await renderPdf(ast, {
+      metadata: { title: 'Report' },
+      template: {
+        id: 'letter',
+        name: 'Letter',
+        type: 'pdf',
+        path: 'letter.yaml',
+        content: [
+          'pageSize: LETTER',
+          'fonts:',
+          '  body: Times-Roman',
+          'titlePage:',
+          '  enabled: false',
+          'footer:',
+          '  center: "Page {page} of {pages}"',
+        ].join('\n'),
+      },
+    });
+    const pdfString = result.toString('binary');
+    const text = extractPdfText(result);
+
+    expect(pdfString).toContain('/MediaBox [0 0 612 792]');
+    expect(pdfString).toContain('Times-Roman');
+    expect(countPdfPages(result)).toBe(1);
+    expect(text).toContain('Page 1 of 1');
+  });
+
+  it('should let explicit styles override template styles', async () => {
+    const ast = await parseMarkdown('# Doc');
+    const result = await renderPdf(ast, {
+      template: {
+        id: 'a5',
+        name: 'A5',
+        type: 'pdf',
+        path: 'a5.json',
+        content: '{"pageSize": "A5"}',
+      },
+      styles: { pdf: { pageSize: 'A4' } },
+    });
+
+    expect(result.toString('binary')).toContain('/MediaBox [0 0 595.28 841.89]');
+  });
+
+  it('should add a table of contents page with page numbers and links', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\nText\n\n## Usage\n\nMore text');
+    const result = await renderPdf(ast, { toc: true, metadata: { title: 'Guide' } });
+    const raw = result.toString('binary');
+    const text = extractPdfText(result);
+
+    // Title page, TOC page, content page
+    expect(countPdfPages(result)).toBe(3);
+    expect(text).toContain('Contents');
+    expect(text).toMatch(/Setup\n3/);
+    expect(raw).toContain('/S /GoTo');
+    expect(raw).toContain('/Dests');
+  });
+
+  it('should link in-document anchors to heading destinations without a TOC', async () => {
+    const ast = await parseMarkdown(
+      '# Guide\n\nSee [setup](#setup) or [the site](https://example.com).\n\n## Setup\n\nText'
+    );
+    const raw = (await renderPdf(ast)).toString('binary');
+
+    expect(raw).toContain('/Dests');
+    expect(raw).toMatch(/\/S \/GoTo\n\/D \(setup\)/);
+    expect(raw).toContain('/URI (https://example.com)');
+    expect(raw).not.toContain('/URI (#setup)');
+  });
+
+  it('should mirror headings into the PDF outline', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\n### Linux\n\nText\n\n## Usage');
+    const raw = (await renderPdf(ast)).toString('binary');
+
+    expect(raw).toContain('/PageMode /UseOutlines');
+    expect(raw).toMatch(/\/Title \(Guide\)/);
+    expect(raw).toMatch(/\/Title \(Linux\)/);
+    // Guide holds Setup and Usage
+    expect(raw).toContain('/Count 2');
+  });
+
+  it('should limit or disable the outline', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\n### Linux');
+
+    const limited = await renderPdf(ast, { styles: { pdf: { outline: { depth: 2 } } } });
+    expect(limited.toString('binary')).toMatch(/\/Title \(Setup\)/);
+    expect(limited.toString('binary')).not.toMatch(/\/Title \(Linux\)/);
+
+    const disabled = await renderPdf(ast, { styles: { pdf: { outline: { enabled: false } } } });
+    expect(disabled.toString('binary')).not.toContain('/Outlines');
+  });
+
+  it('should draw headers and footers, skipping the title page by default', async () => {
+    const ast = await parseMarkdown('# Doc\n\nBody');
+    const result = await renderPdf(ast, {
+      metadata: { title: 'Annual Report', author: 'Sam' },
+      header: { left: '{title}', right: '{author}' },
+      footer: { center: 'Page {page} of {pages}' },
+    });
+    const text = extractPdfText(result);
+
+    expect(countPdfPages(result)).toBe(2);
+    expect(text).toContain('Page 2 of 2');
+    expect(text).not.toContain('Page 1 of 2');
+    expect(text).toContain('Sam');
+
+    const withTitlePage = await renderPdf(ast, {
+      metadata: { title: 'Annual Report' },
+      footer: { center: 'Page {page}', showOnTitlePage: true },
+    });
+    expect(extractPdfText(withTitlePage)).toContain('Page 1');
+  });
+
+  it('should pass every piece of drawn text through the fallback font split', async () => {
+    const split = vi.spyOn(PdfFontSet.prototype, 'split');
+    try {
+      const ast = await parseMarkdown(
+        '# Guide\n\n| Name | Size |\n|---|---|\n| cell |  2 |\n\n```\ncode line\n```'
+      );
+      await renderPdf(ast, {
+        metadata: { title: 'Handbook', author: 'Sam' },
+        toc: true,
+        header: { left: 'Running head' },
+      });
+
+      const drawn = split.mock.calls.map(([text]) => text);
+      for (const text of ['Handbook', 'By Sam', 'Contents', 'Guide', 'Name', 'cell', 'code line']) {
+        expect(drawn).toContain(text);
+      }
+      expect(drawn).toContain('Running head');
+    } finally {
+      split.mockRestore();
+    }
+  });
+
+  it('should draw highlighted code in theme colours with line numbers', async () => {
+    const ast = await parseMarkdown('# Code\n\n```js\nconst a = "x";\n```');
+    const result = await renderPdf(ast, { highlight: { lineNumbers: true } });
+    const text = extractPdfText(result);
+    const content = extractPdfStreams(result).join('\n');
+
+    expect(text).toContain('const');
+    expect(text).toMatch(/^1$/m);
+    // Keyword colour #d73a49 as an RGB fill
+    expect(content).toContain('0.8431372549019608 0.22745098039215686 0.28627450980392155 scn');
+  });
+
+  it('should split long code blocks across pages with a background on each', async () => {
+    const code = Array.from({ length: 120 }, (_, i) => `line ${i}`).join('\n');
+    const ast = await parseMarkdown(`# Code\n\n\`\`\`\n${code}\n\`\`\``);
+    const result = await renderPdf(ast);
+    const pages = extractPdfStreams(result);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(extractPdfText(result)).toContain('line 119');
+    for (const content of pages) {
+      expect(content).toMatch(/ re\n/);
+      // No row is drawn inside the 72pt bottom margin
+      for (const match of content.matchAll(/1 0 0 1 [\d.]+ ([\d.]+) Tm/g)) {
+        expect(Number(match[1])).toBeGreaterThan(72);
+      }
+    }
+  });
+
+  it('should mark wrapped code rows when requested', async () => {
+    const ast = await parseMarkdown(`# Code\n\n\`\`\`\n${'x'.repeat(200)}\n\`\`\``);
+    const plain = extractPdfText(await renderPdf(ast));
+    const marked = extractPdfText(
+      await renderPdf(ast, { styles: { pdf: { codeBlock: { wrapIndicator: true } } } })
+    );
+
+    expect(plain).not.toContain('»');
+    expect(marked).toContain('»');
+  });
+
+  it('should indent code blocks inside blockquotes past the border', async () => {
+    const ast = await parseMarkdown('# Quote\n\n> Intro.\n>\n> ```\n> quoted code\n> ```');
+    const [content] = extractPdfStreams(await renderPdf(ast));
+
+    // The background starts at the quote's indent (72pt margin + 20pt), not the margin
+    const rects = [...content.matchAll(/([\d.]+) [\d.]+ ([\d.]+) [\d.]+ re/g)];
+    expect(rects.map((match) => Number(match[1]))).toEqual([92]);
+    expect(Number(rects[0][2])).toBeCloseTo(595.28 - 72 * 2 - 20);
+    // Code text sits inside the background's padding
+    const code = Buffer.from('quoted code', 'latin1').toString('hex');
+    const tm = new RegExp(`1 0 0 1 ([\\d.]+) [\\d.]+ Tm\\n[^\\n]*\\n\\[<${code}>`).exec(content);
+    expect(Number(tm?.[1])).toBe(102);
+  });
+
+  it('should indent code blocks and tables inside list items under the item text', async () => {
+    const ast = await parseMarkdown(
+      '# List\n\n- Item\n\n  ```\n  listed code\n  ```\n\n  | A |\n  | - |\n  | 1 |'
+    );
+    const [content] = extractPdfStreams(await renderPdf(ast));
+
+    // Item text starts one list indent (18pt) past the 72pt margin
+    const rects = [...content.matchAll(/([\d.]+) [\d.]+ ([\d.]+) [\d.]+ re/g)];
+    expect(rects.length).toBeGreaterThan(1);
+    for (const match of rects) {
+      expect(Number(match[1])).toBe(90);
+    }
+    expect(Number(rects[0][2])).toBeCloseTo(595.28 - 72 * 2 - 18);
+    const code = Buffer.from('listed code', 'latin1').toString('hex');
+    const tm = new RegExp(`1 0 0 1 ([\\d.]+) [\\d.]+ Tm\\n[^\\n]*\\n\\[<${code}>`).exec(content);
+    expect(Number(tm?.[1])).toBe(100);
+  });
+
+  it('should draw the blockquote border on every page the quote spans', async () => {
+    const quote = Array.from({ length: 60 }, (_, i) => `> Quoted paragraph ${i}\n>`).join('\n');
+    const ast = await parseMarkdown(`# Quote\n\n${quote}`);
+    const pages = extractPdfStreams(await renderPdf(ast));
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const content of pages) {
+      expect(content).toMatch(/ l\n/);
+    }
+  });
 });
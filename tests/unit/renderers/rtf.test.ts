@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { renderRtf } from '../../../src/renderers/rtf.js';
+import { parseRtf } from '../../../src/parsers/rtf.js';
+import { parseMarkdown } from '../../../src/parsers/markdown.js';
+
+describe('renderRtf', () => {
+  it('should write the header, font table and page setup', async () => {
+    const result = await renderRtf(await parseMarkdown('Hello, world.'), {
+      styles: { rtf: { fontFamily: 'Georgia', margins: { left: 0.5 } } },
+    });
+
+    expect(result.startsWith('{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1')).toBe(true);
+    expect(result).toContain(
+      '{\\f0\\fnil\\fcharset0 Georgia;}{\\f1\\fmodern\\fcharset0 Courier New;}'
+    );
+    expect(result).toContain('\\paperw11906\\paperh16838\\margl720\\margr1440');
+    expect(result).toContain('\\pard\\plain\\sa160\\f0\\fs24 Hello, world.\\par');
+    expect(result.trimEnd().endsWith('}')).toBe(true);
+  });
+
+  it('should render headings with heading styles and inline formatting as groups', async () => {
+    const ast = await parseMarkdown(
+      '## Intro\n\n**bold** *it* ~~del~~ `code` [link](https://x.com)  \nnext'
+    );
+    const result = await renderRtf(ast);
+
+    expect(result).toContain('{\\s2\\outlinelevel1');
+    expect(result).toContain('\\pard\\plain\\s2\\outlinelevel1');
+    expect(result).toContain('{\\b bold} {\\i it} {\\strike del} {\\f1\\fs20 code}');
+    expect(result).toContain(
+      '{\\field{\\*\\fldinst{HYPERLINK "https://x.com"}}{\\fldrslt{\\ul\\cf1 link}}}\\line next'
+    );
+  });
+
+  it('should escape delimiters and non-ASCII text', async () => {
+    const result = await renderRtf(await parseMarkdown('a\\\\b {c} café 😀'));
+
+    expect(result).toContain('a\\\\b \\{c\\} caf\\u233? \\u-10179?\\u-8704?');
+  });
+
+  it('should write list definitions and list markers', async () => {
+    const result = await renderRtf(await parseMarkdown('- a\n  1. b\n\n5. c'));
+
+    expect(result).toContain('{\\listoverride\\listid1\\listoverridecount0\\ls1}');
+    expect(result).toContain('\\levelstartat5');
+    expect(result).toContain(
+      '\\ls1\\ilvl0\\li720\\fi-360\\sa80\\f0\\fs24{\\listtext\\f0 \\u8226?\\tab}a'
+    );
+    expect(result).toContain(
+      '\\ls1\\ilvl1\\li1440\\fi-360\\sa80\\f0\\fs24{\\listtext\\f0 1.\\tab}b'
+    );
+    expect(result).toContain('{\\listtext\\f0 5.\\tab}c');
+  });
+
+  it('should embed PNG images as pictures', async () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+    const result = await renderRtf(await parseMarkdown('![Logo](logo.png)'), {
+      assets: { 'logo.png': png },
+    });
+
+    expect(result).toContain('{\\pict\\pngblip\\picw1\\pich1\\picwgoal15\\pichgoal15\n89504e47');
+  });
+
+  it('should write metadata to the info group and a title block', async () => {
+    const result = await renderRtf(await parseMarkdown('Body'), {
+      metadata: { title: 'Report', author: 'Ann', date: '2024-03-07', keywords: ['a', 'b'] },
+    });
+
+    expect(result).toContain(
+      '{\\info{\\title Report}{\\author Ann}{\\keywords a, b}{\\creatim\\yr2024\\mo3\\dy7}}'
+    );
+    expect(result).toContain('\\qc\\sa120\\f0\\b\\fs48 Report\\par');
+  });
+
+  it('should round-trip through the RTF parser', async () => {
+    const ast = await parseMarkdown(
+      '# Title\n\nSome **bold** and [a link](https://x.com).\n\n- one\n- two\n\n```\nconst x = 1;\n```\n\n| A | B |\n|---|---|\n| 1 | 2 |'
+    );
+    const parsed = await parseRtf(await renderRtf(ast));
+
+    expect(parsed.children.map((node) => node.type)).toEqual([
+      'heading',
+      'paragraph',
+      'list',
+      'code',
+      'table',
+    ]);
+    expect(parsed.children[0]).toEqual({
+      type: 'heading',
+      depth: 1,
+      children: [{ type: 'text', value: 'Title' }],
+    });
+    expect(parsed.children[1]).toMatchObject({
+      children: [
+        { type: 'text', value: 'Some ' },
+        { type: 'strong', children: [{ value: 'bold' }] },
+        { type: 'text', value: ' and ' },
+        { type: 'link', url: 'https://x.com', children: [{ value: 'a link' }] },
+        { type: 'text', value: '.' },
+      ],
+    });
+    expect(parsed.children[3]).toEqual({ type: 'code', value: 'const x = 1;' });
+    expect(parsed.children[4]).toMatchObject({
+      children: [
+        { children: [{ children: [{ value: 'A' }] }, { children: [{ value: 'B' }] }] },
+        {},
+      ],
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  renderTemplate,
+  compileTemplate,
+  registerPartial,
+  unregisterPartial,
+  raw,
+} from '../../src/templates/engine.js';
+import { TemplateError } from '../../src/utils/errors.js';
+
+describe('renderTemplate', () => {
+  afterEach(() => {
+    unregisterPartial('byline');
+  });
+
+  it('should substitute variables with dotted paths', () => {
+    const output = renderTemplate('{{title}} by {{author.name}}', {
+      title: 'Guide',
+      author: { name: 'Sam' },
+    });
+    expect(output).toBe('Guide by Sam');
+  });
+
+  it('should replace every occurrence', () => {
+    expect(renderTemplate('{{x}}-{{x}}', { x: 1 })).toBe('1-1');
+  });
+
+  it('should escape HTML by default', () => {
+    expect(renderTemplate('{{value}}', { value: '<b>&</b>' })).toBe('&lt;b&gt;&amp;&lt;/b&gt;');
+  });
+
+  it('should output raw values on request', () => {
+    const data = { value: '<b>x</b>', safe: raw('<i>y</i>') };
+    expect(renderTemplate('{{{value}}} {{& value}} {{safe}}', data)).toBe(
+      '<b>x</b> <b>x</b> <i>y</i>'
+    );
+  });
+
+  it('should render missing values as empty strings', () => {
+    expect(renderTemplate('[{{missing.deep}}]', {})).toBe('[]');
+  });
+
+  it('should not read inherited properties', () => {
+    expect(renderTemplate('[{{constructor}}][{{title.length}}]', { title: 'abc' })).toBe('[][]');
+  });
+
+  it('should render if/else and unless blocks', () => {
+    const template =
+      '{{#if author}}By {{author}}{{else}}Anonymous{{/if}}{{#unless draft}}!{{/unless}}';
+    expect(renderTemplate(template, { author: 'Sam' })).toBe('By Sam!');
+    expect(renderTemplate(template, { draft: true })).toBe('Anonymous');
+  });
+
+  it('should loop over arrays and objects with loop variables', () => {
+    const list = renderTemplate(
+      '{{#each items}}{{@index}}:{{this}}{{#unless @last}},{{/unless}}{{/each}}',
+      { items: ['a', 'b'] }
+    );
+    expect(list).toBe('0:a,1:b');
+
+    const object = renderTemplate('{{#each meta}}{{@key}}={{this}};{{/each}}', {
+      meta: { lang: 'en', version: 2 },
+    });
+    expect(object).toBe('lang=en;version=2;');
+  });
+
+  it('should resolve outer scope variables inside loops', () => {
+    const output = renderTemplate('{{#each people}}{{name}}@{{site}} {{/each}}', {
+      site: 'example',
+      people: [{ name: 'a' }, { name: 'b' }],
+    });
+    expect(output).toBe('a@example b@example ');
+  });
+
+  it('should render the else branch for empty loops', () => {
+    expect(renderTemplate('{{#each items}}x{{else}}none{{/each}}', { items: [] })).toBe('none');
+  });
+
+  it('should strip lines that only contain block tags', () => {
+    const template = '<ul>\n  {{#each items}}\n  <li>{{this}}</li>\n  {{/each}}\n</ul>';
+    expect(renderTemplate(template, { items: ['a', 'b'] })).toBe(
+      '<ul>\n  <li>a</li>\n  <li>b</li>\n</ul>'
+    );
+  });
+
+  it('should render registered and inline partials', () => {
+    registerPartial('byline', '<p>{{name}}</p>');
+
+    expect(renderTemplate('{{> byline author}}', { author: { name: 'Sam' } })).toBe('<p>Sam</p>');
+    expect(
+      renderTemplate('{{> byline}}', { name: 'Kim' }, { partials: { byline: '[{{name}}]' } })
+    ).toBe('[Kim]');
+  });
+
+  it('should support custom escaping and literal braces', () => {
+    const output = renderTemplate(
+      '\\{{literal}} {{value}}',
+      { value: '<x>' },
+      { escape: (v) => v }
+    );
+    expect(output).toBe('{{literal}} <x>');
+  });
+
+  it('should ignore comments', () => {
+    expect(renderTemplate('a{{! note }}b', {})).toBe('ab');
+  });
+
+  it('should throw TemplateError for malformed templates', () => {
+    expect(() => compileTemplate('{{#if x}}open')).toThrow(TemplateError);
+    expect(() => compileTemplate('{{/each}}')).toThrow(TemplateError);
+    expect(() => compileTemplate('{{#each}}{{/each}}')).toThrow(TemplateError);
+    expect(() => renderTemplate('{{> missing}}', {})).toThrow(TemplateError);
+  });
+
+  it('should stop recursive partials', () => {
+    expect(() => renderTemplate('{{> loop}}', {}, { partials: { loop: 'x{{> loop}}' } })).toThrow(
+      /nested too deeply/
+    );
+  });
+});
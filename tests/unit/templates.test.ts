@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  TemplateStore,
+  loadStoredTemplates,
+  getUserTemplatesDir,
+  getProjectTemplatesDir,
+  templateRegistry,
+  registerTemplate,
+} from '../../src/templates/index.js';
+import { parsePdfTemplate } from '../../src/templates/pdf.js';
+import { validateReferenceDocx } from '../../src/templates/docx.js';
+import { TemplateError } from '../../src/utils/errors.js';
+import { renderPdf } from '../../src/renderers/pdf.js';
+import { parseMarkdown } from '../../src/parsers/markdown.js';
+
+describe('TemplateStore', () => {
+  let dir: string;
+  let source: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'convatile-templates-'));
+    source = join(dir, 'brand.html');
+    await writeFile(source, '<html>{{CONTENT}}</html>');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should copy templates into the store and list them', async () => {
+    const store = new TemplateStore(join(dir, 'store'));
+    const stored = await store.add({ id: 'brand', name: 'Brand', type: 'html', path: source });
+
+    expect(stored.path).toBe(join(dir, 'store', 'brand.html'));
+    expect(existsSync(stored.path)).toBe(true);
+
+    // A fresh instance reads the same manifest
+    const templates = await new TemplateStore(join(dir, 'store')).list();
+    expect(templates).toEqual([stored]);
+  });
+
+  it('should replace templates with the same ID', async () => {
+    const store = new TemplateStore(join(dir, 'store'));
+    await store.add({ id: 'brand', name: 'Old', type: 'html', path: source });
+    await store.add({ id: 'brand', name: 'New', type: 'html', path: source });
+
+    const templates = await store.list();
+    expect(templates).toHaveLength(1);
+    expect(templates[0].name).toBe('New');
+  });
+
+  it('should remove templates and their files', async () => {
+    const store = new TemplateStore(join(dir, 'store'));
+    const stored = await store.add({ id: 'brand', name: 'Brand', type: 'html', path: source });
+
+    expect(await store.remove('brand')).toBe(true);
+    expect(await store.remove('brand')).toBe(false);
+    expect(existsSync(stored.path)).toBe(false);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should reject IDs that would share a stored file', async () => {
+    const store = new TemplateStore(join(dir, 'store'));
+    await store.add({ id: 'a b', name: 'Spaced', type: 'html', path: source });
+
+    await expect(
+      store.add({ id: 'a_b', name: 'Underscored', type: 'html', path: source })
+    ).rejects.toThrow('would overwrite template "a b"');
+
+    const json = join(dir, 'x.json');
+    await writeFile(json, '{}');
+    await expect(
+      store.add({ id: 'templates', name: 'Manifest', type: 'html', path: json })
+    ).rejects.toThrow('would overwrite the manifest');
+    expect((await store.list()).map((t) => t.id)).toEqual(['a b']);
+  });
+
+  it('should not remove files outside the store named by the manifest', async () => {
+    const store = new TemplateStore(join(dir, 'store'));
+    await store.add({ id: 'brand', name: 'Brand', type: 'html', path: source });
+    await writeFile(
+      join(dir, 'store', 'templates.json'),
+      JSON.stringify({
+        templates: [{ id: 'brand', name: 'Brand', type: 'html', path: '../brand.html' }],
+      })
+    );
+
+    expect(await store.remove('brand')).toBe(true);
+    expect(existsSync(source)).toBe(true);
+  });
+
+  it('should store PDF templates with font paths that still resolve', async () => {
+    await mkdir(join(dir, 'brand', 'fonts'), { recursive: true });
+    const font = join(dir, 'brand', 'fonts', 'Brand.ttf');
+    await writeFile(font, 'font data');
+    const path = join(dir, 'brand', 'brand.yaml');
+    await writeFile(
+      path,
+      '# Brand\nfonts:\n  families:\n    Brand:\n      regular: fonts/Brand.ttf\n'
+    );
+
+    const stored = await new TemplateStore(join(dir, 'store')).add({
+      id: 'brand',
+      name: 'Brand',
+      type: 'pdf',
+      path,
+    });
+    const content = await readFile(stored.path, 'utf-8');
+    expect(parsePdfTemplate(content).fonts?.families?.Brand.regular).toBe(font);
+
+    // Rendering resolves relative paths against the store, where the font is not
+    const pdf = await renderPdf(await parseMarkdown('# Doc'), { template: { ...stored, content } });
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF');
+  });
+
+  it('should treat a missing directory as empty', async () => {
+    const store = new TemplateStore(join(dir, 'missing'));
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('loadStoredTemplates', () => {
+  let dir: string;
+  const originalConfigDir = process.env.CONVATILE_CONFIG_DIR;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'convatile-config-'));
+    process.env.CONVATILE_CONFIG_DIR = join(dir, 'config');
+    templateRegistry.clear();
+  });
+
+  afterEach(async () => {
+    if (originalConfigDir === undefined) {
+      delete process.env.CONVATILE_CONFIG_DIR;
+    } else {
+      process.env.CONVATILE_CONFIG_DIR = originalConfigDir;
+    }
+    templateRegistry.clear();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should register user and project templates, preferring project ones', async () => {
+    const source = join(dir, 'a.html');
+    await writeFile(source, '<html>user</html>');
+    const projectSource = join(dir, 'b.html');
+    await writeFile(projectSource, '<html>project</html>');
+
+    const project = join(dir, 'project');
+    await new TemplateStore(getUserTemplatesDir()).add({
+      id: 'shared',
+      name: 'User',
+      type: 'html',
+      path: source,
+    });
+    await new TemplateStore(getProjectTemplatesDir(project)).add({
+      id: 'shared',
+      name: 'Project',
+      type: 'html',
+      path: projectSource,
+    });
+
+    await loadStoredTemplates(project);
+
+    expect(templateRegistry.get('shared')?.name).toBe('Project');
+    expect(templateRegistry.get('shared')?.content).toBe('<html>project</html>');
+  });
+
+  it('should skip stored templates whose files are missing', async () => {
+    const source = join(dir, 'gone.html');
+    await writeFile(source, '<html></html>');
+    const stored = await new TemplateStore(getUserTemplatesDir()).add({
+      id: 'gone',
+      name: 'Gone',
+      type: 'html',
+      path: source,
+    });
+    await rm(stored.path);
+
+    const loaded = await loadStoredTemplates(join(dir, 'project'));
+    expect(loaded).toEqual([]);
+  });
+});
+
+describe('parsePdfTemplate', () => {
+  it('should parse YAML templates', () => {
+    const styles = parsePdfTemplate(
+      'pageSize: LETTER\nmargins:\n  top: 54\nfooter:\n  center: "Page {page} of {pages}"\n'
+    );
+
+    expect(styles.pageSize).toBe('LETTER');
+    expect(styles.margins?.top).toBe(54);
+    expect(styles.footer?.center).toBe('Page {page} of {pages}');
+  });
+
+  it('should parse JSON templates', () => {
+    const styles = parsePdfTemplate('{"layout": "landscape", "colors": {"heading": "#1f4d78"}}');
+
+    expect(styles.layout).toBe('landscape');
+    expect(styles.colors?.heading).toBe('#1f4d78');
+  });
+
+  it('should report every invalid setting', () => {
+    expect(() =>
+      parsePdfTemplate('pageSize: HUGE\nfontSize:\n  body: -1\nheadr: {}\n', 'broken')
+    ).toThrow(/pageSize.*fontSize\.body.*unknown setting "headr"/);
+  });
+
+  it('should require outline depth to be a heading level', () => {
+    expect(parsePdfTemplate('outline: { depth: 2 }').outline?.depth).toBe(2);
+    expect(() => parsePdfTemplate('outline: { depth: 7 }')).toThrow(/outline\.depth/);
+  });
+
+  it('should validate custom font families and fallbacks', () => {
+    const styles = parsePdfTemplate(
+      'fonts:\n  body: Noto\n  families:\n    Noto:\n      regular: fonts/Noto.ttf\n  fallback: [Noto]\n'
+    );
+    expect(styles.fonts?.families?.Noto.regular).toBe('fonts/Noto.ttf');
+    expect(styles.fonts?.fallback).toEqual(['Noto']);
+
+    expect(() => parsePdfTemplate('fonts:\n  families:\n    Noto:\n      bold: b.ttf\n')).toThrow(
+      /fonts\.families\.Noto\.regular" is required/
+    );
+    expect(() => parsePdfTemplate('fonts:\n  fallback: Noto\n')).toThrow(/fonts\.fallback/);
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => parsePdfTemplate('a: [')).toThrow(TemplateError);
+    expect(() => parsePdfTemplate('- just\n- a list')).toThrow(TemplateError);
+  });
+
+  it('should validate PDF templates on registration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-pdf-template-'));
+    try {
+      const path = join(dir, 'bad.yaml');
+      await writeFile(path, 'layout: sideways\n');
+
+      await expect(
+        registerTemplate({ id: 'bad-pdf', name: 'Bad', type: 'pdf', path })
+      ).rejects.toThrow(/layout/);
+      expect(templateRegistry.has('bad-pdf')).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('validateReferenceDocx', () => {
+  it('should reject files that are not Word documents', async () => {
+    await expect(validateReferenceDocx(Buffer.from('not a zip'))).rejects.toThrow(TemplateError);
+  });
+
+  it('should validate DOCX templates on registration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-docx-template-'));
+    try {
+      const path = join(dir, 'bad.docx');
+      await writeFile(path, '<html></html>');
+
+      await expect(
+        registerTemplate({ id: 'bad-docx', name: 'Bad', type: 'docx', path })
+      ).rejects.toThrow(/DOCX template/);
+      expect(templateRegistry.has('bad-docx')).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('LaTeX templates', () => {
+  it('should validate LaTeX templates on registration', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'convatile-latex-template-'));
+    try {
+      const path = join(dir, 'bad.tex');
+      await writeFile(path, '\\begin{document}{{#if title}}\\maketitle\\end{document}');
+
+      await expect(
+        registerTemplate({ id: 'bad-latex', name: 'Bad', type: 'latex', path })
+      ).rejects.toThrow(TemplateError);
+      expect(templateRegistry.has('bad-latex')).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
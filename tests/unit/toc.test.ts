@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown } from '../../src/parsers/markdown.js';
+import { collectToc, buildTocTree, slugify, resolveTocOptions } from '../../src/core/toc.js';
+
+describe('slugify', () => {
+  it('should create GitHub-style anchors', () => {
+    expect(slugify('Getting Started')).toBe('getting-started');
+    expect(slugify('What is `toc`?')).toBe('what-is-toc');
+    expect(slugify('Café & Crème')).toBe('café--crème');
+  });
+});
+
+describe('collectToc', () => {
+  it('should collect headings up to the depth with unique ids', async () => {
+    const ast = await parseMarkdown('# Guide\n\n## Setup\n\n### Linux\n\n## Setup\n\n#### Hidden');
+    const entries = collectToc(ast, { depth: 3 });
+
+    expect(entries).toEqual([
+      { depth: 1, text: 'Guide', id: 'guide' },
+      { depth: 2, text: 'Setup', id: 'setup' },
+      { depth: 3, text: 'Linux', id: 'linux' },
+      { depth: 2, text: 'Setup', id: 'setup-1' },
+    ]);
+  });
+});
+
+describe('buildTocTree', () => {
+  it('should nest entries by depth, tolerating skipped levels', () => {
+    const tree = buildTocTree([
+      { depth: 1, text: 'A', id: 'a' },
+      { depth: 3, text: 'B', id: 'b' },
+      { depth: 2, text: 'C', id: 'c' },
+      { depth: 1, text: 'D', id: 'd' },
+    ]);
+
+    expect(tree.map((node) => node.entry.id)).toEqual(['a', 'd']);
+    expect(tree[0].children.map((node) => node.entry.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('resolveTocOptions', () => {
+  it('should apply defaults and treat false as disabled', () => {
+    expect(resolveTocOptions(true)).toEqual({ depth: 3, title: 'Contents' });
+    expect(resolveTocOptions({ depth: 2 })).toEqual({ depth: 2, title: 'Contents' });
+    expect(resolveTocOptions(false)).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { convert } from '../../src/core/engine.js';
+import {
+  use,
+  clearTransforms,
+  listTransforms,
+  transformAst,
+  rewriteUrls,
+  shiftHeadings,
+} from '../../src/core/transforms.js';
+import { parseMarkdown } from '../../src/parsers/markdown.js';
+import { TransformError, ValidationError } from '../../src/utils/errors.js';
+import type { AstTransform } from '../../src/types/index.js';
+
+describe('transforms', () => {
+  afterEach(() => {
+    clearTransforms();
+  });
+
+  it('should run transforms in order before rendering', async () => {
+    const calls: string[] = [];
+    const first: AstTransform = (ast) => {
+      calls.push('first');
+      return ast;
+    };
+    const second: AstTransform = async (ast) => {
+      calls.push('second');
+      return ast;
+    };
+
+    await convert('Hello', { format: ['md', 'html'], transforms: [first, second] });
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should run global transforms before per-call transforms', async () => {
+    const calls: string[] = [];
+    use((ast) => {
+      calls.push('global');
+      return ast;
+    });
+
+    await convert('Hello', {
+      format: ['md'],
+      transforms: [
+        (ast) => {
+          calls.push('local');
+          return ast;
+        },
+      ],
+    });
+
+    expect(calls).toEqual(['global', 'local']);
+    expect(listTransforms()).toHaveLength(1);
+  });
+
+  it('should pass conversion context to transforms', async () => {
+    let context: unknown;
+
+    await convert('Hello', {
+      format: ['html'],
+      metadata: { title: 'Doc' },
+      transforms: [
+        (ast, ctx) => {
+          context = ctx;
+          return ast;
+        },
+      ],
+    });
+
+    expect(context).toEqual({ inputFormat: 'md', formats: ['html'], metadata: { title: 'Doc' } });
+  });
+
+  it('should not mutate the input AST', async () => {
+    const ast = await parseMarkdown('# Title');
+    const result = await transformAst(ast, [shiftHeadings(1)], { inputFormat: 'md', formats: [] });
+
+    expect((ast.children[0] as { depth: number }).depth).toBe(1);
+    expect((result.children[0] as { depth: number }).depth).toBe(2);
+  });
+
+  it('should demote headings with shiftHeadings', async () => {
+    const result = await convert('# One\n\n###### Six', {
+      format: ['md'],
+      transforms: [shiftHeadings(1)],
+    });
+
+    expect(result.md).toContain('## One');
+    expect(result.md).toContain('###### Six');
+  });
+
+  it('should rewrite link URLs with rewriteUrls', async () => {
+    const result = await convert('[Docs](/docs) and ![Logo](logo.png)', {
+      format: ['md'],
+      transforms: [rewriteUrls((url) => `https://example.com/${url.replace(/^\//, '')}`)],
+    });
+
+    expect(result.md).toContain('(https://example.com/docs)');
+    expect(result.md).toContain('(https://example.com/logo.png)');
+  });
+
+  it('should wrap transform failures in TransformError', async () => {
+    const failing: AstTransform = () => {
+      throw new Error('boom');
+    };
+
+    await expect(convert('Hello', { format: ['md'], transforms: [failing] })).rejects.toThrow(
+      TransformError
+    );
+  });
+
+  it('should reject transforms that do not return a root', async () => {
+    const broken = (() => undefined) as unknown as AstTransform;
+
+    await expect(convert('Hello', { format: ['md'], transforms: [broken] })).rejects.toThrow(
+      TransformError
+    );
+  });
+
+  it('should validate the transforms option', async () => {
+    await expect(
+      convert('Hello', { format: ['md'], transforms: ['nope' as unknown as AstTransform] })
+    ).rejects.toThrow(ValidationError);
+  });
+});
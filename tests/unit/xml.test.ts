@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { decodeXml, parseXml, textContent } from '../../src/utils/xml.js';
+
+describe('decodeXml', () => {
+  it('should decode character and entity references', () => {
+    expect(decodeXml('Tom &amp; Jerry &lt;3 &#x263A;&#9731; &quot;hi&apos;')).toBe(
+      'Tom & Jerry <3 ☺☃ "hi\''
+    );
+  });
+
+  it('should not decode the result of a reference again', () => {
+    expect(decodeXml('&#38;lt;')).toBe('&lt;');
+    expect(decodeXml('&amp;#65;')).toBe('&#65;');
+  });
+
+  it('should keep unknown entities and out-of-range references as written', () => {
+    expect(decodeXml('&nbsp; &constructor; &#x110000; &#99999999;')).toBe(
+      '&nbsp; &constructor; &#x110000; &#99999999;'
+    );
+  });
+
+  it('should decode text and attributes while parsing', () => {
+    const root = parseXml('<p title="a &amp;amp; b">x &#x110000; &#38;gt;</p>');
+    const [p] = root.children as { attributes: Record<string, string> }[];
+
+    expect(p.attributes.title).toBe('a &amp; b');
+    expect(textContent(root)).toBe('x &#x110000; &gt;');
+  });
+});